@@ -49,6 +49,8 @@ OPTIONS:
   --timeout <ms>          Request timeout in milliseconds (default: 10000)
   --max-bytes <bytes>     Maximum bytes to read (default: 65536)
   --user-agent <string>   Custom User-Agent header
+  --full-scan             Read past the headers for details such as GIF frames
+  --exif                  Read camera and capture details from EXIF metadata
   --verbose               Show verbose output
   --silent                Suppress error messages
 
@@ -68,6 +70,12 @@ EXAMPLES:
   # JSON output
   image-specs --json image.webp
 
+  # Frame count and timing of an animated GIF
+  image-specs --verbose --full-scan animation.gif
+
+  # Camera, lens and exposure of a photo
+  image-specs --verbose --exif photo.jpg
+
   # From stdin
   curl -s https://example.com/image.jpg | image-specs -
 
@@ -75,6 +83,17 @@ EXAMPLES:
   image-specs --timeout 5000 --user-agent "MyApp/1.0" https://example.com/image.avif
 `;
 
+/**
+ * Format an exposure time in seconds, as a fraction of a second when it is
+ * one (e.g., '1/250 s') and as decimal seconds otherwise
+ */
+export function formatExposureTime(seconds: number): string {
+  const reciprocal = seconds > 0 && seconds < 1 ? 1 / seconds : 0;
+  return reciprocal > 0 && Math.abs(reciprocal - Math.round(reciprocal)) < 0.01
+    ? `1/${Math.round(reciprocal)} s`
+    : `${seconds} s`;
+}
+
 /**
  * Parse command line arguments
  */
@@ -100,6 +119,10 @@ export function parseArgs(args: string[]): { options: CliOptions; sources: strin
       options.verbose = true;
     } else if (arg === '--silent') {
       options.silent = true;
+    } else if (arg === '--full-scan') {
+      options.fullScan = true;
+    } else if (arg === '--exif') {
+      options.exif = true;
     } else if (arg === '--timeout') {
       options.timeout = parsePositiveInteger(args[++i], '--timeout');
     } else if (arg === '--max-bytes') {
@@ -160,6 +183,15 @@ function formatSingleSpecs(specs: ImageSpecs, options: CliOptions): string {
     if (specs.wResolution ?? specs.hResolution) {
       output += `\n  Resolution: ${specs.wResolution ?? 'N/A'} x ${specs.hResolution ?? 'N/A'} DPI`;
     }
+    if (specs.jp2) {
+      const { captureResolution, displayResolution } = specs.jp2;
+      if (captureResolution) {
+        output += `\n  Capture Resolution: ${captureResolution.wResolution} x ${captureResolution.hResolution} DPI`;
+      }
+      if (displayResolution) {
+        output += `\n  Display Resolution: ${displayResolution.wResolution} x ${displayResolution.hResolution} DPI`;
+      }
+    }
     if (specs.colorSpace) {
       output += `\n  Color Space: ${specs.colorSpace}`;
     }
@@ -172,6 +204,170 @@ function formatSingleSpecs(specs: ImageSpecs, options: CliOptions): string {
     if (specs.channels) {
       output += `\n  Channels: ${specs.channels}`;
     }
+    if (specs.sampleFormat) {
+      output += `\n  Sample Format: ${specs.sampleFormat}`;
+    }
+    if (specs.hasAlpha !== undefined) {
+      output += `\n  Alpha: ${specs.hasAlpha ? 'yes' : 'no'}`;
+    }
+    if (specs.alphaBits) {
+      output += `\n  Alpha Bits: ${specs.alphaBits}`;
+    }
+    if (specs.origin) {
+      output += `\n  Origin: ${specs.origin}`;
+    }
+    if (specs.orientation) {
+      output += `\n  Orientation: ${specs.orientation}`;
+    }
+    if (specs.displayWidth && specs.displayHeight) {
+      output += `\n  Display Size: ${specs.displayWidth}x${specs.displayHeight}`;
+    }
+    if (specs.transform) {
+      const { cleanAperture, rotation, mirror } = specs.transform;
+      const details = [
+        ...(cleanAperture ? [`crop ${cleanAperture.width}x${cleanAperture.height}`] : []),
+        ...(rotation ? [`rotate ${rotation}°`] : []),
+        ...(mirror ? [`mirror ${mirror}`] : []),
+      ];
+      if (details.length > 0) {
+        output += `\n  Transform: ${details.join(', ')}`;
+      }
+    }
+    if (specs.pixelAspectRatio) {
+      output += `\n  Pixel Aspect Ratio: ${specs.pixelAspectRatio}`;
+    }
+    if (specs.chromaSubsampling) {
+      output += `\n  Chroma Subsampling: ${specs.chromaSubsampling}`;
+    }
+    if (specs.channelNames) {
+      output += `\n  Channel Names: ${specs.channelNames.join(', ')}`;
+    }
+    if (specs.compression) {
+      output += `\n  Compression: ${specs.compression}`;
+    }
+    if (specs.interlaced !== undefined) {
+      output += `\n  Interlaced: ${specs.interlaced ? 'yes' : 'no'}`;
+    }
+    if (specs.exr) {
+      const { displayWindow, tiled, tileWidth, tileHeight, deep, multipart, parts } = specs.exr;
+      const details = [
+        ...(displayWindow
+          ? [
+              `display window ${displayWindow.xMax - displayWindow.xMin + 1}x${displayWindow.yMax - displayWindow.yMin + 1}`,
+            ]
+          : []),
+        tiled ? `tiled${tileWidth && tileHeight ? ` ${tileWidth}x${tileHeight}` : ''}` : 'scanline',
+        ...(deep ? ['deep'] : []),
+        ...(multipart ? [`${parts ?? 'unknown'} parts`] : []),
+      ];
+      output += `\n  EXR: ${details.join(', ')}`;
+    }
+    if (specs.texture) {
+      const { format, mipLevels, cubemap, array, layers, depth, supercompression } = specs.texture;
+      const details = [
+        format ?? 'unknown format',
+        `${mipLevels} mip level${mipLevels === 1 ? '' : 's'}`,
+        ...(cubemap ? ['cubemap'] : []),
+        ...(array ? [`${layers} layers`] : []),
+        ...(depth ? [`depth ${depth}`] : []),
+        ...(supercompression ? [supercompression] : []),
+      ];
+      output += `\n  Texture: ${details.join(', ')}`;
+    }
+    if (specs.icons) {
+      const sizes = specs.icons.map(({ width, height, scale, bitCount }) => {
+        const size = scale && scale > 1 ? `${width}x${height}@${scale}x` : `${width}x${height}`;
+        return bitCount ? `${size} (${bitCount}-bit)` : size;
+      });
+      output += `\n  Icons: ${sizes.join(', ')}`;
+    }
+    if (specs.auxiliaryImages) {
+      const images = specs.auxiliaryImages.map(({ type, width, height }) =>
+        width && height ? `${type} ${width}x${height}` : type
+      );
+      output += `\n  Auxiliary Images: ${images.join(', ')}`;
+    }
+    if (specs.hdr) {
+      const { transfer, maxCLL, maxFALL, masteringDisplay } = specs.hdr;
+      const details = [
+        ...(transfer ? [transfer] : []),
+        ...(maxCLL !== undefined ? [`MaxCLL ${maxCLL}`] : []),
+        ...(maxFALL !== undefined ? [`MaxFALL ${maxFALL}`] : []),
+        ...(masteringDisplay
+          ? [`mastered ${masteringDisplay.minLuminance}-${masteringDisplay.maxLuminance} cd/m²`]
+          : []),
+      ];
+      if (details.length > 0) {
+        output += `\n  HDR: ${details.join(', ')}`;
+      }
+    }
+    if (specs.embeddedImages) {
+      const images = specs.embeddedImages.map(({ type, size, width, height }) =>
+        width && height ? `${type} ${width}x${height}` : `${type} (${size} bytes)`
+      );
+      output += `\n  Embedded Images: ${images.join(', ')}`;
+    }
+    if (specs.gainMap) {
+      const { width, height, hdrCapacityMax } = specs.gainMap;
+      const details = [
+        ...(width && height ? [`${width}x${height}`] : []),
+        ...(hdrCapacityMax !== undefined ? [`HDR capacity max ${hdrCapacityMax}`] : []),
+      ];
+      output += `\n  Gain Map: ${details.length > 0 ? details.join(', ') : 'yes'}`;
+    }
+    if (specs.exif) {
+      const { make, model, lensModel, dateTimeOriginal, offsetTimeOriginal } = specs.exif;
+      const { exposureTime, fNumber, iso, focalLength } = specs.exif;
+      // Make is often repeated at the start of Model
+      const camera =
+        make && model && !model.startsWith(make) ? `${make} ${model}` : (model ?? make);
+      const exposure = [
+        ...(exposureTime !== undefined ? [formatExposureTime(exposureTime)] : []),
+        ...(fNumber !== undefined ? [`f/${fNumber}`] : []),
+        ...(iso !== undefined ? [`ISO ${iso}`] : []),
+        ...(focalLength !== undefined ? [`${focalLength} mm`] : []),
+      ];
+      if (camera) {
+        output += `\n  Camera: ${camera}`;
+      }
+      if (lensModel) {
+        output += `\n  Lens: ${lensModel}`;
+      }
+      if (exposure.length > 0) {
+        output += `\n  Exposure: ${exposure.join(', ')}`;
+      }
+      if (dateTimeOriginal) {
+        output += `\n  Taken: ${dateTimeOriginal}${offsetTimeOriginal ? ` ${offsetTimeOriginal}` : ''}`;
+      }
+    }
+    if (specs.hotspot) {
+      output += `\n  Hotspot: ${specs.hotspot.x}, ${specs.hotspot.y}`;
+    }
+    if (specs.animation) {
+      const { frames, loops, duration, backgroundColor } = specs.animation;
+      const details = [
+        `${frames} frame${frames === 1 ? '' : 's'}`,
+        ...(duration !== undefined ? [`${duration} ms`] : []),
+        ...(loops !== undefined ? [loops === 0 ? 'loops forever' : `plays ${loops}x`] : []),
+        ...(backgroundColor ? [`background ${backgroundColor}`] : []),
+      ];
+      output += `\n  Animation: ${details.join(', ')}`;
+    }
+    if (specs.raw) {
+      const { make, model, rawWidth, rawHeight, previewWidth, previewHeight } = specs.raw;
+      // Models often repeat the maker's name (e.g., 'Canon EOS R5')
+      const camera =
+        make && model && !model.startsWith(make) ? `${make} ${model}` : (model ?? make);
+      if (camera) {
+        output += `\n  Camera: ${camera}`;
+      }
+      if (rawWidth && rawHeight) {
+        output += `\n  Sensor Size: ${rawWidth}x${rawHeight}`;
+      }
+      if (previewWidth && previewHeight) {
+        output += `\n  Preview Size: ${previewWidth}x${previewHeight}`;
+      }
+    }
     if (specs.gamma) {
       output += `\n  Gamma: ${specs.gamma}`;
     }
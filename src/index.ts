@@ -18,6 +18,12 @@ import {
 /** Bytes of a source that need inspecting to recognise its format */
 const DETECTION_BYTES = 1024;
 
+/** Default read limit when a full scan is requested */
+const FULL_SCAN_MAX_BYTES = 16 * 1024 * 1024;
+
+/** Largest read when retrying a remote source that did not parse */
+const RETRY_MAX_BYTES = 1024 * 1024;
+
 function limitBuffer(buffer: Buffer, maxBytes: number): Buffer {
   return buffer.subarray(0, maxBytes > 0 ? maxBytes : 0);
 }
@@ -90,10 +96,12 @@ export async function getImageSpecs(
   source: ImageSource,
   options: ImageSpecsOptions = {}
 ): Promise<ImageSpecs> {
+  const fullScan = options.fullScan ?? DEFAULT_OPTIONS.fullScan;
+  const exif = options.exif ?? DEFAULT_OPTIONS.exif;
   const opts = {
     timeout: options.timeout ?? DEFAULT_OPTIONS.timeout,
     headers: options.headers ?? DEFAULT_OPTIONS.headers,
-    maxBytes: options.maxBytes ?? DEFAULT_OPTIONS.maxBytes,
+    maxBytes: options.maxBytes ?? (fullScan ? FULL_SCAN_MAX_BYTES : DEFAULT_OPTIONS.maxBytes),
     userAgent: options.userAgent ?? DEFAULT_OPTIONS.userAgent,
   };
 
@@ -146,16 +154,23 @@ export async function getImageSpecs(
     }
 
     // Parse image
-    let parseResult = parseImage(buffer);
+    let parseResult = parseImage(buffer, { fullScan, exif });
 
     // Remote JPEGs can place their dimensions after large metadata segments.
+    // A first read of the retry limit or more, as a full scan makes, is not
+    // repeated.
     const initialMaxBytes = opts.maxBytes ?? DEFAULT_OPTIONS.maxBytes;
-    if (!parseResult && url && buffer.length === initialMaxBytes) {
-      for (const maxBytes of [initialMaxBytes * 2, initialMaxBytes * 4, 1048576]) {
+    if (
+      !parseResult &&
+      url &&
+      buffer.length === initialMaxBytes &&
+      initialMaxBytes < RETRY_MAX_BYTES
+    ) {
+      for (const maxBytes of [initialMaxBytes * 2, initialMaxBytes * 4, RETRY_MAX_BYTES]) {
         try {
           const response = await fetchImageHeaders(url, { ...opts, maxBytes });
           buffer = await readStreamWithTimeout(response.stream, maxBytes, opts.timeout);
-          parseResult = parseImage(buffer);
+          parseResult = parseImage(buffer, { fullScan, exif });
           if (parseResult) break;
         } catch {
           // Match the normal unsupported-format result after all retries fail.
@@ -301,6 +316,24 @@ export type {
   ImageSpecsOptions,
   ImageSource,
   ParseResult,
+  ParseOptions,
+  TextureInfo,
+  ExrInfo,
+  ExrWindow,
+  Jp2Info,
+  Resolution,
+  IconEntry,
+  AnimationFrame,
+  AnimationInfo,
+  RawInfo,
+  ImageTransform,
+  AuxiliaryImage,
+  Chromaticity,
+  MasteringDisplay,
+  HdrInfo,
+  GainMapInfo,
+  EmbeddedImage,
+  ExifInfo,
   ErrorCode,
 } from './types.js';
 
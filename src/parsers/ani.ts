@@ -0,0 +1,188 @@
+import { defined, type AnimationInfo, type IconEntry, type ParseResult } from '../types.js';
+import { BufferReader } from '../utils/buffer-reader.js';
+import { parseICO } from './ico.js';
+
+/** Size of the anih chunk */
+const ANIH_SIZE = 36;
+
+/** anih flag: a seq chunk orders the frames */
+const AF_SEQUENCE = 0x2;
+
+/** Milliseconds per jiffy, the 1/60 s unit of display rates */
+const MS_PER_JIFFY = 1000 / 60;
+
+/**
+ * Fields of the anih (animation header) chunk
+ */
+interface AnimationHeader {
+  frames: number;
+  steps: number;
+  width: number;
+  height: number;
+  displayRate: number;
+  flags: number;
+}
+
+/**
+ * Parse anih chunk
+ */
+function parseAnih(reader: BufferReader): AnimationHeader | null {
+  if (!reader.canRead(ANIH_SIZE) || reader.readUInt32() !== ANIH_SIZE) {
+    return null;
+  }
+
+  const frames = reader.readUInt32();
+  const steps = reader.readUInt32();
+  const width = reader.readUInt32();
+  const height = reader.readUInt32();
+  reader.skip(8); // Bit count and planes, used only by raw-bitmap frames
+  const displayRate = reader.readUInt32();
+  const flags = reader.readUInt32();
+
+  return { frames, steps, width, height, displayRate, flags };
+}
+
+/**
+ * Read a rate or seq chunk: one 32-bit value per step
+ */
+function readSteps(reader: BufferReader, size: number): number[] {
+  return Array.from({ length: Math.floor(size / 4) }, () => reader.readUInt32());
+}
+
+/**
+ * Read the icon frames of a LIST 'fram' chunk. Each frame is a complete ICO
+ * or CUR file; frames cut off by the end of the buffer still yield their
+ * directory when it was read.
+ */
+function parseFrames(buffer: Buffer, reader: BufferReader, end: number): IconEntry[] {
+  const frames: IconEntry[] = [];
+
+  while (reader.getPosition() + 8 <= end) {
+    const chunkId = reader.readString(4, 'latin1');
+    const chunkSize = reader.readUInt32();
+    const chunkStart = reader.getPosition();
+
+    if (chunkId === 'icon') {
+      const frame = parseICO(buffer.subarray(chunkStart, Math.min(chunkStart + chunkSize, end)));
+      if (frame) {
+        frames.push({
+          width: frame.width,
+          height: frame.height,
+          ...defined({ hotspotX: frame.hotspot?.x, hotspotY: frame.hotspot?.y }),
+        });
+      }
+    }
+
+    const next = chunkStart + chunkSize + (chunkSize % 2);
+    if (next > end) {
+      break;
+    }
+    reader.seek(next);
+  }
+
+  return frames;
+}
+
+/**
+ * Parse Windows animated cursor format (ANI), reporting the largest frame
+ */
+export function parseANI(buffer: Buffer): ParseResult | null {
+  if (buffer.length < 12) {
+    return null;
+  }
+
+  const reader = new BufferReader(buffer, true); // RIFF uses little-endian
+
+  if (reader.readString(4, 'latin1') !== 'RIFF') {
+    return null;
+  }
+  reader.skip(4); // File size
+  if (reader.readString(4, 'latin1') !== 'ACON') {
+    return null;
+  }
+
+  let header: AnimationHeader | null = null;
+  let rates: number[] | undefined;
+  let sequence: number[] | undefined;
+  let frames: IconEntry[] = [];
+
+  while (reader.canRead(8)) {
+    const chunkId = reader.readString(4, 'latin1');
+    const chunkSize = reader.readUInt32();
+    const chunkStart = reader.getPosition();
+    const chunkEnd = Math.min(chunkStart + chunkSize, buffer.length);
+
+    switch (chunkId) {
+      case 'anih':
+        header = parseAnih(reader);
+        break;
+
+      case 'rate':
+        if (reader.canRead(chunkSize)) rates = readSteps(reader, chunkSize);
+        break;
+
+      case 'seq ':
+        if (reader.canRead(chunkSize)) sequence = readSteps(reader, chunkSize);
+        break;
+
+      case 'LIST':
+        if (reader.canRead(4) && reader.readString(4, 'latin1') === 'fram') {
+          frames = parseFrames(buffer, reader, chunkEnd);
+        }
+        break;
+    }
+
+    // Move to next chunk (pad to even byte boundary)
+    const next = chunkStart + chunkSize + (chunkSize % 2);
+    if (next > buffer.length) {
+      break;
+    }
+    reader.seek(next);
+  }
+
+  if (!header || header.frames === 0) {
+    return null;
+  }
+
+  const largest = frames.reduce<IconEntry | undefined>(
+    (best, frame) =>
+      !best || frame.width * frame.height > best.width * best.height ? frame : best,
+    undefined
+  );
+
+  // Raw-bitmap frames give their size in the header instead
+  const width = largest?.width ?? header.width;
+  const height = largest?.height ?? header.height;
+  if (!width || !height) {
+    return null;
+  }
+
+  const steps = header.steps || header.frames;
+  const jiffies = Array.from({ length: steps }, (_, i) => rates?.[i] ?? header.displayRate);
+  const delays = jiffies.map((rate) => Math.round(rate * MS_PER_JIFFY));
+
+  const animation: AnimationInfo = {
+    frames: header.frames,
+    loops: 0, // Cursors animate for as long as they are shown
+    delays,
+    duration: Math.round(jiffies.reduce((sum, rate) => sum + rate, 0) * MS_PER_JIFFY),
+    ...defined({ sequence: header.flags & AF_SEQUENCE ? sequence : undefined }),
+  };
+
+  return {
+    width,
+    height,
+    type: 'ani',
+    mime: 'application/x-navi-animation',
+    wUnits: 'px',
+    hUnits: 'px',
+    ...defined({
+      hotspot:
+        largest?.hotspotX !== undefined && largest.hotspotY !== undefined
+          ? { x: largest.hotspotX, y: largest.hotspotY }
+          : undefined,
+      icons: frames.length > 0 ? frames : undefined,
+    }),
+    animation,
+  };
+}
@@ -1,48 +1,138 @@
-import { defined, type ParseResult } from '../types.js';
+import {
+  defined,
+  type AnimationInfo,
+  type AuxiliaryImage,
+  type ExifInfo,
+  type GainMapInfo,
+  type HdrInfo,
+  type ImageTransform,
+  type MasteringDisplay,
+  type ParseOptions,
+  type ParseResult,
+} from '../types.js';
 import { BufferReader } from '../utils/buffer-reader.js';
-import { identifyIccProfile } from '../utils/color-space.js';
+import {
+  describeCicp,
+  getColorSpaceFromPrimaries,
+  identifyIccProfile,
+  readMasteringDisplay,
+} from '../utils/color-space.js';
+import { readExifBlock, readExifInfo, readOrientation, type ExifBlock } from '../utils/exif.js';
+import { parseIsoGainMap } from '../utils/gain-map.js';
+import {
+  getItemProperties,
+  getReferencedItems,
+  parseMeta,
+  readItemData,
+  type HeifMeta,
+} from '../utils/heif.js';
+import { findPath, parseBox, readBoxes, type Box } from '../utils/isobmff.js';
 
 /**
- * Color space implied by the nclx colour primaries
+ * Image type and MIME type declared by an ftyp brand, in priority order: an
+ * AVIF brand wins over the HEVC brands, which win over the generic HEIF ones
+ * that AVIF and HEIC files also list
  */
-const COLOR_SPACE_BY_PRIMARIES: Record<number, string> = {
-  1: 'sRGB', // BT.709
-  9: 'Rec. 2020', // BT.2020
-  11: 'DCI-P3',
-  12: 'Display P3',
+const FILE_TYPE_BY_BRAND: readonly { brand: string; type: string; mime: string }[] = [
+  { brand: 'avif', type: 'avif', mime: 'image/avif' },
+  { brand: 'avis', type: 'avif', mime: 'image/avif' },
+  { brand: 'heic', type: 'heic', mime: 'image/heic' },
+  { brand: 'heix', type: 'heic', mime: 'image/heic' },
+  { brand: 'hevc', type: 'heic', mime: 'image/heic-sequence' },
+  { brand: 'hevx', type: 'heic', mime: 'image/heic-sequence' },
+  { brand: 'mif1', type: 'heif', mime: 'image/heif' },
+  { brand: 'msf1', type: 'heif', mime: 'image/heif-sequence' },
+];
+
+/**
+ * Chroma subsampling per HEVC chroma_format_idc
+ */
+const CHROMA_SUBSAMPLING: Record<number, string> = {
+  0: '4:0:0',
+  1: '4:2:0',
+  2: '4:2:2',
+  3: '4:4:4',
 };
 
+/** Handler types of tracks holding an image sequence: 'pict' for AVIF, 'vide' for HEIF */
+const SEQUENCE_HANDLERS = ['pict', 'vide'];
+
+/** elst flag marking the edit list as repeated */
+const ELST_REPEAT_FLAG = 0x01;
+
+/** Most per-frame delays to list, guarding against corrupt sample counts */
+const MAX_LISTED_DELAYS = 65536;
+
 /**
- * Parse ftyp box to verify AVIF format
+ * Auxiliary image kind per auxC type, for AV1 and HEVC-coded images
  */
-function parseFtyp(reader: BufferReader, size: number): boolean {
-  if (!reader.canRead(8) || size < 8) {
-    return false;
-  }
+const AUXILIARY_TYPES: Record<string, string> = {
+  'urn:mpeg:mpegB:cicp:systems:auxiliary:alpha': 'alpha',
+  'urn:mpeg:hevc:2015:auxid:1': 'alpha',
+  'urn:mpeg:mpegB:cicp:systems:auxiliary:depth': 'depth',
+  'urn:mpeg:hevc:2015:auxid:2': 'depth',
+};
 
-  const majorBrand = reader.readString(4);
+/** Longest chain of derived images followed to find a source image's properties */
+const MAX_DERIVATION_DEPTH = 4;
 
-  // Check for AVIF major brand
-  if (majorBrand === 'avif') {
-    return true;
+/**
+ * What the primary item's properties describe
+ */
+interface ItemDescription {
+  width?: number;
+  height?: number;
+  colorSpace?: string;
+  iccProfile?: string;
+  bitDepth?: number;
+  channels?: number;
+  chromaFormat?: number;
+  pixelAspectRatio?: number;
+  transform: ImageTransform;
+  hasAlpha?: boolean;
+  auxiliaryImages: AuxiliaryImage[];
+  hdr: HdrInfo;
+  gainMap?: GainMapInfo;
+  orientation?: number;
+  exif?: ExifInfo;
+}
+
+/**
+ * Size, frame count and timing of an image sequence track
+ */
+interface SequenceTrack {
+  width: number;
+  height: number;
+  frames: number;
+  delays: number[];
+  duration?: number;
+  loops?: number;
+}
+
+/**
+ * Parse ftyp box to identify an AVIF or HEIF file from its brands
+ */
+function parseFtyp(reader: BufferReader, size: number): { type: string; mime: string } | null {
+  if (!reader.canRead(8) || size < 8) {
+    return null;
   }
 
+  const brands = [reader.readString(4)];
+
   // Skip minor version
   reader.skip(4);
 
-  // Check compatible brands
+  // Collect compatible brands
   const compatibleBrandsSize = size - 8;
   let brandsRead = 0;
 
   while (brandsRead < compatibleBrandsSize && reader.canRead(4)) {
-    const brand = reader.readString(4);
-    if (brand === 'avif' || brand === 'avis') {
-      return true;
-    }
+    brands.push(reader.readString(4));
     brandsRead += 4;
   }
 
-  return false;
+  const match = FILE_TYPE_BY_BRAND.find(({ brand }) => brands.includes(brand));
+  return match ? { type: match.type, mime: match.mime } : null;
 }
 
 /**
@@ -62,12 +152,12 @@ function parseIspe(reader: BufferReader, size: number): { width: number; height:
 }
 
 /**
- * Parse colr (Color Information) box
+ * Parse colr (Color Information) box: an ICC profile, or nclx code points
  */
 function parseColr(
   reader: BufferReader,
   size: number
-): { colorSpace?: string; iccProfile?: string } | null {
+): { colorSpace?: string; iccProfile?: string; cicp?: HdrInfo } | null {
   if (!reader.canRead(4)) {
     return null;
   }
@@ -85,92 +175,586 @@ function parseColr(
     }
   } else if (colorType === 'nclx' && reader.canRead(7)) {
     const colorPrimaries = reader.readUInt16();
-    return defined({ colorSpace: COLOR_SPACE_BY_PRIMARIES[colorPrimaries] });
+    const transferCharacteristics = reader.readUInt16();
+    const matrixCoefficients = reader.readUInt16();
+    // The full range flag is the top bit; the rest is reserved
+    const fullRange = (reader.readUInt8() & 0x80) !== 0;
+    return {
+      ...defined({ colorSpace: getColorSpaceFromPrimaries(colorPrimaries) }),
+      cicp: describeCicp(colorPrimaries, transferCharacteristics, matrixCoefficients, fullRange),
+    };
   }
 
   return null;
 }
 
 /**
- * Parse AVIF box structure
+ * Parse clli (Content Light Level) box, in cd/m²
  */
-function parseBox(
+function parseClli(
   reader: BufferReader,
-  endPosition = reader.getBuffer().length
-): { type: string; size: number; dataOffset: number } | null {
-  const boxStart = reader.getPosition();
+  size: number
+): { maxCLL: number; maxFALL: number } | undefined {
+  if (size < 4 || !reader.canRead(4)) {
+    return undefined;
+  }
+  return { maxCLL: reader.readUInt16(), maxFALL: reader.readUInt16() };
+}
+
+/**
+ * Parse mdcv (Mastering Display Colour Volume) box
+ */
+function parseMdcv(reader: BufferReader, size: number): MasteringDisplay | undefined {
+  return size >= 24 && reader.canRead(24) ? readMasteringDisplay(reader, 'gbr') : undefined;
+}
 
-  if (endPosition - boxStart < 8 || !reader.canRead(8)) {
+/**
+ * Parse pixi (Pixel Information) box for the channel count, with the first
+ * channel's bits as the bit depth
+ */
+function parsePixi(
+  reader: BufferReader,
+  size: number
+): { channels: number; bitDepth?: number } | null {
+  if (size < 5 || !reader.canRead(5)) {
     return null;
   }
 
-  let size = reader.readUInt32();
-  const type = reader.readString(4);
-  let dataOffset = reader.getPosition();
+  // Skip version and flags
+  reader.skip(4);
+  const channels = reader.readUInt8();
+  return size >= 6 && reader.canRead(1) ? { channels, bitDepth: reader.readUInt8() } : { channels };
+}
 
-  // Handle extended size
-  if (size === 1) {
-    if (endPosition - reader.getPosition() < 8 || !reader.canRead(8)) {
-      return null;
-    }
-    // Read 64-bit size (we'll only use the lower 32 bits)
-    reader.skip(4); // Skip upper 32 bits
-    size = reader.readUInt32();
-    dataOffset = reader.getPosition();
-  } else if (size === 0) {
-    // Box extends to the end of its containing box
-    size = endPosition - boxStart;
+/**
+ * Parse auxC (Auxiliary Type) box for the type URN of an auxiliary image
+ */
+function parseAuxC(reader: BufferReader, size: number): string | undefined {
+  if (size < 5 || !reader.canRead(size)) {
+    return undefined;
   }
 
-  const headerSize = dataOffset - boxStart;
-  if (size < headerSize || size > endPosition - boxStart) {
+  // Skip version and flags; the type is a null-terminated string
+  reader.skip(4);
+  const data = reader.readBytes(size - 4);
+  const terminator = data.indexOf(0);
+  return data.toString('latin1', 0, terminator < 0 ? data.length : terminator) || undefined;
+}
+
+/**
+ * Parse the data of a grid derived image for its output size
+ */
+function parseGrid(data: Buffer): { width: number; height: number } | null {
+  if (data.length < 8) {
     return null;
   }
 
-  return { type, size, dataOffset };
+  // Version, flags, then rows and columns, each minus one; flag 1 selects 32-bit sizes
+  if ((data[1] ?? 0) & 1) {
+    return data.length >= 12 ? { width: data.readUInt32BE(4), height: data.readUInt32BE(8) } : null;
+  }
+  return { width: data.readUInt16BE(4), height: data.readUInt16BE(6) };
 }
 
 /**
- * Find and parse a specific box type
+ * Parse hvcC (HEVC Decoder Configuration) box for chroma format and bit depth
  */
-function findBox(
+function parseHvcC(
   reader: BufferReader,
-  endPosition: number,
-  boxType: string
-): { position: number; size: number } | null {
-  while (reader.getPosition() < endPosition) {
-    const boxStart = reader.getPosition();
-    const box = parseBox(reader, endPosition);
-    if (!box) {
-      break;
+  size: number
+): { chromaFormat: number; bitDepth: number } | null {
+  if (size < 19 || !reader.canRead(19)) {
+    return null;
+  }
+
+  // Skip version, profile, compatibility and constraint flags, level,
+  // segmentation and parallelism fields
+  reader.skip(16);
+  const chromaFormat = reader.readUInt8() & 0x03;
+  const bitDepth = (reader.readUInt8() & 0x07) + 8; // bitDepthLumaMinus8
+
+  return { chromaFormat, bitDepth };
+}
+
+/**
+ * Parse irot (Image Rotation) box for the anticlockwise rotation in degrees
+ */
+function parseIrot(reader: BufferReader, size: number): number | undefined {
+  return size >= 1 && reader.canRead(1) ? (reader.readUInt8() & 0x03) * 90 : undefined;
+}
+
+/**
+ * Parse imir (Image Mirroring) box. Axis 0 is vertical, so left and right
+ * swap; axis 1 is horizontal, so top and bottom swap.
+ */
+function parseImir(reader: BufferReader, size: number): ImageTransform['mirror'] {
+  if (size < 1 || !reader.canRead(1)) {
+    return undefined;
+  }
+  return reader.readUInt8() & 0x01 ? 'vertical' : 'horizontal';
+}
+
+/**
+ * Parse clap (Clean Aperture) box: the crop size and the offset of its
+ * centre, each stored as a fraction
+ */
+function parseClap(reader: BufferReader, size: number): ImageTransform['cleanAperture'] {
+  if (size < 32 || !reader.canRead(32)) {
+    return undefined;
+  }
+
+  const widthN = reader.readUInt32();
+  const widthD = reader.readUInt32();
+  const heightN = reader.readUInt32();
+  const heightD = reader.readUInt32();
+  const horizontalOffsetN = reader.readInt32();
+  const horizontalOffsetD = reader.readUInt32();
+  const verticalOffsetN = reader.readInt32();
+  const verticalOffsetD = reader.readUInt32();
+  if (!widthD || !heightD || !horizontalOffsetD || !verticalOffsetD) {
+    return undefined;
+  }
+
+  return {
+    width: widthN / widthD,
+    height: heightN / heightD,
+    horizontalOffset: horizontalOffsetN / horizontalOffsetD,
+    verticalOffset: verticalOffsetN / verticalOffsetD,
+  };
+}
+
+/**
+ * Parse pasp (Pixel Aspect Ratio) box as width over height
+ */
+function parsePasp(reader: BufferReader, size: number): number | undefined {
+  if (size < 8 || !reader.canRead(8)) {
+    return undefined;
+  }
+
+  const hSpacing = reader.readUInt32();
+  const vSpacing = reader.readUInt32();
+  return hSpacing && vSpacing ? hSpacing / vSpacing : undefined;
+}
+
+/**
+ * Size of an image once its transforms are applied: the clean aperture crop
+ * first, then rotation, which swaps the sides at 90 and 270 degrees, then
+ * mirroring, which keeps the size
+ */
+function displaySize(
+  width: number,
+  height: number,
+  { cleanAperture, rotation }: ImageTransform
+): { width: number; height: number } {
+  const cropped = cleanAperture
+    ? { width: Math.round(cleanAperture.width), height: Math.round(cleanAperture.height) }
+    : { width, height };
+  return rotation === 90 || rotation === 270
+    ? { width: cropped.height, height: cropped.width }
+    : cropped;
+}
+
+/**
+ * Find the properties of a type associated with an item. A derived image (a
+ * grid or an identity transform) may leave its codec properties to its source
+ * images, which are searched next when `inherit` is set, through 'dimg'
+ * references.
+ */
+function findItemProperties(
+  meta: HeifMeta,
+  itemId: number,
+  type: string,
+  inherit: boolean,
+  depth = 0
+): Box[] {
+  const properties = getItemProperties(meta, itemId).filter((box) => box.type === type);
+  if (properties.length > 0 || !inherit || depth >= MAX_DERIVATION_DEPTH) {
+    return properties;
+  }
+
+  const [source] = getReferencedItems(meta, itemId, 'dimg');
+  return source !== undefined ? findItemProperties(meta, source, type, inherit, depth + 1) : [];
+}
+
+/**
+ * Find the first property of a type associated with an item
+ */
+function findItemProperty(
+  meta: HeifMeta,
+  itemId: number,
+  type: string,
+  inherit: boolean
+): Box | undefined {
+  return findItemProperties(meta, itemId, type, inherit)[0];
+}
+
+/**
+ * Read a property box with one of the property parsers
+ */
+function readProperty<T>(
+  buffer: Buffer,
+  property: Box | undefined,
+  parse: (reader: BufferReader, size: number) => T
+): T | undefined {
+  if (!property) {
+    return undefined;
+  }
+
+  const reader = new BufferReader(buffer);
+  reader.seek(property.start);
+  return parse(reader, property.end - property.start);
+}
+
+/**
+ * Size of an item. A grid's own extents are its output size, also stored in
+ * its item data; an identity transform may rely on its source image's extents.
+ */
+function readItemSize(
+  buffer: Buffer,
+  meta: HeifMeta,
+  itemId: number
+): { width: number; height: number } | undefined {
+  const itemType = meta.itemTypes.get(itemId);
+  const gridData = itemType === 'grid' ? readItemData(buffer, meta, itemId) : null;
+  const ispe = findItemProperty(meta, itemId, 'ispe', itemType === 'iden');
+  return (
+    (gridData ? parseGrid(gridData) : null) ?? readProperty(buffer, ispe, parseIspe) ?? undefined
+  );
+}
+
+/**
+ * List the auxiliary images of an item: alpha planes and depth maps linked by
+ * 'auxl' references and typed by their auxC property, and thumbnails linked
+ * by 'thmb' references
+ */
+function readAuxiliaryImages(buffer: Buffer, meta: HeifMeta, itemId: number): AuxiliaryImage[] {
+  const images: AuxiliaryImage[] = [];
+
+  for (const { type, from, to } of meta.references) {
+    if (!to.includes(itemId) || (type !== 'auxl' && type !== 'thmb')) {
+      continue;
     }
 
-    if (box.type === boxType) {
-      return { position: box.dataOffset, size: box.size - (box.dataOffset - boxStart) };
+    const auxType =
+      type === 'auxl'
+        ? readProperty(buffer, findItemProperty(meta, from, 'auxC', false), parseAuxC)
+        : 'thumbnail';
+    if (auxType) {
+      const size = readItemSize(buffer, meta, from);
+      images.push({
+        type: AUXILIARY_TYPES[auxType] ?? auxType,
+        ...defined({ width: size?.width, height: size?.height }),
+      });
     }
+  }
 
-    reader.seek(boxStart + box.size);
+  return images;
+}
+
+/**
+ * Find the tone-mapped derived image (ISO 21496-1) of an item: a 'tmap' item
+ * whose 'dimg' references name the base image, then the gain map. Its item
+ * data is a version byte followed by the gain map metadata. The tmap item
+ * may itself be the primary item.
+ */
+function readGainMap(buffer: Buffer, meta: HeifMeta, itemId: number): GainMapInfo | undefined {
+  for (const [id, type] of meta.itemTypes) {
+    const [base, gainMapId] = getReferencedItems(meta, id, 'dimg');
+    if (type !== 'tmap' || (id !== itemId && base !== itemId) || gainMapId === undefined) {
+      continue;
+    }
+
+    const data = readItemData(buffer, meta, id);
+    const metadata =
+      data && data.length > 1 && data[0] === 0 ? parseIsoGainMap(data.subarray(1)) : null;
+    const size = readItemSize(buffer, meta, gainMapId);
+    return { ...defined({ width: size?.width, height: size?.height }), ...metadata };
+  }
+
+  return undefined;
+}
+
+/**
+ * Open the Exif item describing an item through a 'cdsc' reference. The item
+ * data opens with the offset of the TIFF header from the end of that 4-byte
+ * field.
+ */
+function readExifItem(buffer: Buffer, meta: HeifMeta, itemId: number): ExifBlock | null {
+  for (const { type, from, to } of meta.references) {
+    if (type !== 'cdsc' || !to.includes(itemId) || meta.itemTypes.get(from) !== 'Exif') {
+      continue;
+    }
+
+    const data = readItemData(buffer, meta, from);
+    const exif =
+      data && data.length >= 4 ? readExifBlock(data.subarray(4 + data.readUInt32BE(0))) : null;
+    if (exif) {
+      return exif;
+    }
   }
 
   return null;
 }
 
 /**
- * Parse AVIF image format
+ * Describe the primary item from its associated properties. Files without
+ * pitm or ipma are described by the first property of each type. Camera
+ * details are read from its Exif item when `readExif` is set.
+ */
+function describePrimaryItem(buffer: Buffer, meta: HeifMeta, readExif: boolean): ItemDescription {
+  const itemId = meta.associations.size > 0 ? meta.primaryItemId : undefined;
+  const findProperties =
+    itemId !== undefined
+      ? (type: string, inherit = false) => findItemProperties(meta, itemId, type, inherit)
+      : (type: string) => meta.properties.filter((box) => box.type === type);
+  const read = <T>(
+    type: string,
+    parse: (reader: BufferReader, size: number) => T,
+    inherit = false
+  ): T | undefined => readProperty(buffer, findProperties(type, inherit)[0], parse);
+
+  // Without ipma, a grid's size still comes from its item data
+  const primaryId = meta.primaryItemId;
+  const size =
+    (primaryId !== undefined ? readItemSize(buffer, meta, primaryId) : undefined) ??
+    read('ispe', parseIspe);
+  // An image may carry both an ICC profile and nclx code points, the profile
+  // describing its colour space more closely
+  const colors = findProperties('colr', true).map((box) => readProperty(buffer, box, parseColr));
+  const colorInfo = colors.find((color) => color?.iccProfile) ?? colors.find(Boolean);
+  const cicp = colors.find((color) => color?.cicp)?.cicp;
+  const pixi = read('pixi', parsePixi, true);
+  // HEVC-coded images carry chroma format and bit depth in hvcC
+  const config = read('hvcC', parseHvcC, true);
+  const auxiliaryImages =
+    primaryId !== undefined ? readAuxiliaryImages(buffer, meta, primaryId) : [];
+  const exif = primaryId !== undefined ? readExifItem(buffer, meta, primaryId) : null;
+
+  return {
+    ...defined({
+      width: size?.width,
+      height: size?.height,
+      colorSpace: colorInfo?.colorSpace,
+      iccProfile: colorInfo?.iccProfile,
+      bitDepth: pixi?.bitDepth ?? config?.bitDepth,
+      channels: pixi?.channels ?? (config ? (config.chromaFormat === 0 ? 1 : 3) : undefined),
+      chromaFormat: config?.chromaFormat,
+      pixelAspectRatio: read('pasp', parsePasp),
+    }),
+    // Transformative properties: clean aperture, rotation and mirroring
+    transform: defined({
+      cleanAperture: read('clap', parseClap),
+      rotation: read('irot', parseIrot),
+      mirror: read('imir', parseImir),
+    }),
+    // Alpha is known absent only once the primary item, which it would reference, is known
+    ...defined({
+      hasAlpha:
+        primaryId !== undefined ? auxiliaryImages.some(({ type }) => type === 'alpha') : undefined,
+    }),
+    auxiliaryImages,
+    ...defined({
+      gainMap: primaryId !== undefined ? readGainMap(buffer, meta, primaryId) : undefined,
+      orientation: exif ? readOrientation(exif) : undefined,
+      exif: exif && readExif ? readExifInfo(exif) : undefined,
+    }),
+    hdr: defined({
+      ...cicp,
+      ...read('clli', parseClli, true),
+      masteringDisplay: read('mdcv', parseMdcv, true),
+    }),
+  };
+}
+
+/**
+ * Read a full box's version and flags, leaving the reader at its fields.
+ * Callers check the payload is long enough for the fields they read.
+ */
+function readFullBox(
+  buffer: Buffer,
+  box: Box
+): { reader: BufferReader; version: number; flags: number } {
+  const reader = new BufferReader(buffer);
+  reader.seek(box.start);
+  const header = box.end - box.start >= 4 ? reader.readUInt32() : 0;
+  return { reader, version: header >>> 24, flags: header & 0xffffff };
+}
+
+/**
+ * Read a 64-bit field in version 1 boxes and a 32-bit one otherwise
  */
-export function parseAVIF(buffer: Buffer): ParseResult | null {
+function readVersionedUInt(reader: BufferReader, version: number): number {
+  return version === 1 ? reader.readUInt64() : reader.readUInt32();
+}
+
+/**
+ * Parse tkhd (Track Header) box for the presentation size and duration
+ */
+function parseTkhd(
+  buffer: Buffer,
+  box: Box
+): { width: number; height: number; duration: number; indefinite: boolean } | null {
+  const { reader, version } = readFullBox(buffer, box);
+  if (box.end - box.start < (version === 1 ? 96 : 84)) {
+    return null;
+  }
+
+  reader.skip(version === 1 ? 16 : 8); // Creation and modification times
+  reader.skip(8); // Track ID, reserved
+  const duration = readVersionedUInt(reader, version);
+  // Reserved, layer, alternate group, volume, reserved, matrix
+  reader.skip(52);
+
+  return {
+    // 16.16 fixed-point values
+    width: Math.floor(reader.readUInt32() / 0x10000),
+    height: Math.floor(reader.readUInt32() / 0x10000),
+    duration,
+    // A duration of all ones is indefinite
+    indefinite: version === 1 ? duration >= 2 ** 64 - 1 : duration === 0xffffffff,
+  };
+}
+
+/**
+ * Parse mdhd (Media Header) box for the media timescale and duration
+ */
+function parseMdhd(buffer: Buffer, box: Box): { timescale: number; duration: number } | null {
+  const { reader, version } = readFullBox(buffer, box);
+  if (box.end - box.start < (version === 1 ? 32 : 20)) {
+    return null;
+  }
+
+  reader.skip(version === 1 ? 16 : 8); // Creation and modification times
+  const timescale = reader.readUInt32();
+  return { timescale, duration: readVersionedUInt(reader, version) };
+}
+
+/**
+ * Parse elst (Edit List) box for whether the edit repeats, and the duration
+ * of its first segment
+ */
+function parseElst(buffer: Buffer, box: Box): { repeat: boolean; segmentDuration: number } | null {
+  const { reader, version, flags } = readFullBox(buffer, box);
+  if (box.end - box.start < (version === 1 ? 16 : 12) || reader.readUInt32() === 0) {
+    return null;
+  }
+
+  return {
+    repeat: (flags & ELST_REPEAT_FLAG) !== 0,
+    segmentDuration: readVersionedUInt(reader, version),
+  };
+}
+
+/**
+ * Parse stts (Decoding Time to Sample) box into the run-length encoded
+ * sample durations
+ */
+function parseStts(buffer: Buffer, box: Box): { count: number; delta: number }[] {
+  const { reader } = readFullBox(buffer, box);
+  const entryCount = box.end - box.start >= 8 ? reader.readUInt32() : 0;
+  const entries: { count: number; delta: number }[] = [];
+
+  for (let i = 0; i < entryCount && reader.getPosition() + 8 <= box.end; i++) {
+    entries.push({ count: reader.readUInt32(), delta: reader.readUInt32() });
+  }
+
+  return entries;
+}
+
+/**
+ * Parse stsz (Sample Size) box for the sample count
+ */
+function parseStsz(buffer: Buffer, box: Box): number | undefined {
+  const { reader } = readFullBox(buffer, box);
+  if (box.end - box.start < 12) {
+    return undefined;
+  }
+
+  reader.skip(4); // Sample size
+  return reader.readUInt32();
+}
+
+/**
+ * Parse a trak box holding an image sequence: its size from tkhd, frame
+ * timing from the sample table and looping from the edit list
+ */
+function parseSequenceTrack(buffer: Buffer, trak: Box): SequenceTrack | null {
+  const hdlr = findPath(buffer, trak.start, trak.end, ['mdia', 'hdlr']);
+  // Version and flags, then pre_defined, precede the handler type
+  const handler = hdlr ? buffer.toString('latin1', hdlr.start + 8, hdlr.start + 12) : '';
+  if (!SEQUENCE_HANDLERS.includes(handler)) {
+    return null;
+  }
+
+  const find = (path: string[]): Box | null => findPath(buffer, trak.start, trak.end, path);
+  const tkhdBox = find(['tkhd']);
+  const mdhdBox = find(['mdia', 'mdhd']);
+  const elstBox = find(['edts', 'elst']);
+  const sttsBox = find(['mdia', 'minf', 'stbl', 'stts']);
+  const stszBox = find(['mdia', 'minf', 'stbl', 'stsz']);
+
+  const tkhd = tkhdBox ? parseTkhd(buffer, tkhdBox) : null;
+  const mdhd = mdhdBox ? parseMdhd(buffer, mdhdBox) : null;
+  const elst = elstBox ? parseElst(buffer, elstBox) : null;
+  const stts = sttsBox ? parseStts(buffer, sttsBox) : [];
+  if (!tkhd) {
+    return null;
+  }
+
+  const frames =
+    (stszBox ? parseStsz(buffer, stszBox) : undefined) ??
+    stts.reduce((sum, { count }) => sum + count, 0);
+
+  const delays: number[] = [];
+  const timescale = mdhd?.timescale ?? 0;
+  if (timescale > 0) {
+    const limit = Math.min(frames, MAX_LISTED_DELAYS);
+    for (const { count, delta } of stts) {
+      const delay = Math.round((delta * 1000) / timescale);
+      for (let i = 0; i < count && delays.length < limit; i++) {
+        delays.push(delay);
+      }
+    }
+  }
+
+  // A repeated edit plays until the track duration is filled; with an
+  // indefinite track duration it repeats forever
+  let loops: number | undefined;
+  if (elst) {
+    if (!elst.repeat) {
+      loops = 1;
+    } else if (tkhd.indefinite) {
+      loops = 0;
+    } else if (elst.segmentDuration > 0) {
+      loops = Math.ceil(tkhd.duration / elst.segmentDuration);
+    }
+  }
+
+  return {
+    width: tkhd.width,
+    height: tkhd.height,
+    frames,
+    delays,
+    ...defined({
+      duration: mdhd && timescale > 0 ? Math.round((mdhd.duration * 1000) / timescale) : undefined,
+      loops,
+    }),
+  };
+}
+
+/**
+ * Parse AVIF and HEIF (including HEIC) image formats, which share the
+ * ISOBMFF item property layout
+ */
+export function parseAVIF(buffer: Buffer, options: ParseOptions = {}): ParseResult | null {
   if (buffer.length < 12) {
     return null;
   }
 
-  const reader = new BufferReader(buffer); // AVIF uses big-endian
-  let isAVIF = false;
-  let width: number | undefined;
-  let height: number | undefined;
-  let colorSpace: string | undefined;
-  let iccProfile: string | undefined;
-  let bitDepth: number | undefined;
-  let channels: number | undefined;
+  const reader = new BufferReader(buffer); // ISOBMFF uses big-endian
+  let fileType: { type: string; mime: string } | null = null;
+  let item: ItemDescription | null = null;
+  let track: SequenceTrack | null = null;
 
   while (reader.remaining() > 0) {
     const boxStart = reader.getPosition();
@@ -182,98 +766,92 @@ export function parseAVIF(buffer: Buffer): ParseResult | null {
     switch (box.type) {
       case 'ftyp':
         reader.seek(box.dataOffset);
-        isAVIF = parseFtyp(reader, box.size - (box.dataOffset - boxStart));
+        fileType = parseFtyp(reader, box.size - (box.dataOffset - boxStart));
         break;
 
       case 'meta':
-        if (isAVIF) {
-          reader.seek(box.dataOffset);
-          // Skip version and flags (4 bytes) in meta box
-          reader.skip(4);
-          const metaDataEnd = boxStart + box.size;
-
-          // Look for iprp (Item Properties) box
-          const iprpBox = findBox(reader, metaDataEnd, 'iprp');
-          if (iprpBox) {
-            reader.seek(iprpBox.position);
-            const iprpEnd = iprpBox.position + iprpBox.size;
-
-            // Look for ipco (Item Property Container) box inside iprp
-            const ipcoBox = findBox(reader, iprpEnd, 'ipco');
-            if (ipcoBox) {
-              reader.seek(ipcoBox.position);
-              const ipcoEnd = ipcoBox.position + ipcoBox.size;
-
-              // Look for ispe (Image Spatial Extents) box inside ipco
-              const ispeBox = findBox(reader, ipcoEnd, 'ispe');
-              if (ispeBox) {
-                reader.seek(ispeBox.position);
-                const dimensions = parseIspe(reader, ispeBox.size);
-                if (dimensions) {
-                  width = dimensions.width;
-                  height = dimensions.height;
-                }
-              }
-
-              // Look for colr (Color Information) box inside ipco
-              reader.seek(ipcoBox.position);
-              const colrBox = findBox(reader, ipcoEnd, 'colr');
-              if (colrBox) {
-                reader.seek(colrBox.position);
-                const colorInfo = parseColr(reader, colrBox.size);
-                if (colorInfo) {
-                  colorSpace = colorInfo.colorSpace;
-                  iccProfile = colorInfo.iccProfile;
-                }
-              }
-
-              // Look for pixi (Pixel Information) box for bit depth
-              reader.seek(ipcoBox.position);
-              const pixiBox = findBox(reader, ipcoEnd, 'pixi');
-              if (pixiBox) {
-                reader.seek(pixiBox.position);
-                if (reader.canRead(5)) {
-                  // Skip version and flags
-                  reader.skip(4);
-                  const channelCount = reader.readUInt8();
-                  channels = channelCount;
-                  if (reader.canRead(channelCount)) {
-                    // Read bits per channel for first channel as bit depth
-                    bitDepth = reader.readUInt8();
-                  }
-                }
-              }
-            }
-          }
+        if (fileType && !item) {
+          item = describePrimaryItem(
+            buffer,
+            parseMeta(buffer, { type: box.type, start: box.dataOffset, end: boxStart + box.size }),
+            options.exif ?? false
+          );
+        }
+        break;
+
+      case 'moov':
+        if (fileType && !track) {
+          track =
+            readBoxes(buffer, box.dataOffset, boxStart + box.size)
+              .filter(({ type }) => type === 'trak')
+              .map((trak) => parseSequenceTrack(buffer, trak))
+              .find((sequence) => sequence !== null) ?? null;
         }
         break;
     }
 
     reader.seek(boxStart + box.size);
+  }
 
-    // Stop if we found dimensions
-    if (width !== undefined && height !== undefined) {
-      break;
-    }
+  const { colorSpace, iccProfile, bitDepth, chromaFormat, pixelAspectRatio, hasAlpha } = item ?? {};
+  // pixi and hvcC describe the colour planes; an alpha plane is a separate image
+  const channels = item?.channels && hasAlpha ? item.channels + 1 : item?.channels;
+  const transform = item?.transform ?? {};
+
+  // An image sequence is displayed at its track's size, which may differ
+  // from the still primary image's and takes no item transforms
+  let width = item?.width;
+  let height = item?.height;
+  let display: { width: number; height: number } | undefined;
+  if (track && track.width > 0 && track.height > 0) {
+    width = track.width;
+    height = track.height;
+  } else if (Object.keys(transform).length > 0 && width && height) {
+    display = displaySize(width, height, transform);
   }
 
-  if (!isAVIF || width === undefined || height === undefined || width <= 0 || height <= 0) {
+  if (!fileType || width === undefined || height === undefined || width <= 0 || height <= 0) {
     return null;
   }
 
+  const animated = track ? track.frames > 1 : undefined;
+  const animation: AnimationInfo | undefined =
+    track && animated
+      ? {
+          frames: track.frames,
+          ...defined({ loops: track.loops }),
+          delays: track.delays,
+          ...defined({ duration: track.duration }),
+        }
+      : undefined;
+
   return {
     width,
     height,
-    type: 'avif',
-    mime: 'image/avif',
+    type: fileType.type,
+    mime: fileType.mime,
     wUnits: 'px',
     hUnits: 'px',
     ...defined({
       colorSpace,
       iccProfile,
+      chromaSubsampling: chromaFormat !== undefined ? CHROMA_SUBSAMPLING[chromaFormat] : undefined,
       // A zero count only shows up in malformed pixi boxes, so treat it as absent
       bitDepth: bitDepth && bitDepth > 0 ? bitDepth : undefined,
       channels: channels && channels > 0 ? channels : undefined,
+      hasAlpha,
+      pixelAspectRatio,
+      animated,
+      animation,
+      transform: display ? transform : undefined,
+      displayWidth: display?.width,
+      displayHeight: display?.height,
+      auxiliaryImages: item?.auxiliaryImages.length ? item.auxiliaryImages : undefined,
+      hdr: item && Object.keys(item.hdr).length > 0 ? item.hdr : undefined,
+      gainMap: item?.gainMap,
+      // Informational only: irot and imir define how the image is displayed
+      orientation: item?.orientation,
+      exif: item?.exif && Object.keys(item.exif).length > 0 ? item.exif : undefined,
     }),
   };
 }
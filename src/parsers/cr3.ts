@@ -0,0 +1,123 @@
+import { defined, type ParseResult } from '../types.js';
+import { readAscii, readIfd, readTiffHeader, type Ifd, type TiffHeader } from '../utils/ifd.js';
+import { findPath, readBoxes, type Box } from '../utils/isobmff.js';
+import { describeRaw, largestSize, readCanonSensorSize } from './raw.js';
+
+/** uuid box in moov holding Canon's metadata boxes */
+const CANON_UUID = '85c0b687820f11e08111f4ce462b6a48';
+
+/** Offset of the width and height in a CRAW sample entry's payload */
+const SAMPLE_SIZE_OFFSET = 24;
+
+/** Length of the visual sample entry fields, after which codec boxes follow */
+const SAMPLE_ENTRY_LENGTH = 78;
+
+/** Tags of IFD0 in the CMT1 box */
+const TIFF_MAKE = 0x010f;
+const TIFF_MODEL = 0x0110;
+
+/**
+ * Width and height of an image in the file
+ */
+interface Size {
+  width: number;
+  height: number;
+}
+
+/**
+ * Read a TIFF structure held in a CMT box
+ */
+function readTiffBox(
+  buffer: Buffer,
+  box: Box | undefined
+): { tiff: Buffer; header: TiffHeader; ifd: Ifd } | null {
+  if (!box || box.end > buffer.length) {
+    return null;
+  }
+
+  const tiff = buffer.subarray(box.start, box.end);
+  const header = readTiffHeader(tiff);
+  const ifd = header ? readIfd(tiff, header, header.ifdOffset) : null;
+  return header && ifd ? { tiff, header, ifd } : null;
+}
+
+/**
+ * Read each track's CRAW sample entry: its size, and whether it holds
+ * sensor data (a CMP1 codec box) or a JPEG preview (a JPEG box)
+ */
+function readTracks(buffer: Buffer, moov: Box): { raw: Size[]; previews: Size[] } {
+  const raw: Size[] = [];
+  const previews: Size[] = [];
+
+  for (const trak of readBoxes(buffer, moov.start, moov.end)) {
+    if (trak.type !== 'trak') {
+      continue;
+    }
+
+    const stsd = findPath(buffer, trak.start, trak.end, ['mdia', 'minf', 'stbl', 'stsd']);
+    // Version, flags and entry count precede the sample entries
+    const entry = stsd ? readBoxes(buffer, stsd.start + 8, stsd.end)[0] : undefined;
+    if (entry?.type !== 'CRAW' || entry.start + SAMPLE_ENTRY_LENGTH > buffer.length) {
+      continue;
+    }
+
+    const width = buffer.readUInt16BE(entry.start + SAMPLE_SIZE_OFFSET);
+    const height = buffer.readUInt16BE(entry.start + SAMPLE_SIZE_OFFSET + 2);
+    const codec = buffer.subarray(
+      entry.start + SAMPLE_ENTRY_LENGTH,
+      Math.min(entry.end, buffer.length)
+    );
+
+    if (width && height && codec.includes('CMP1')) {
+      raw.push({ width, height });
+    } else if (width && height && codec.includes('JPEG')) {
+      previews.push({ width, height });
+    }
+  }
+
+  return { raw, previews };
+}
+
+/**
+ * Parse Canon CR3 RAW format. The ISOBMFF moov box holds Canon's TIFF
+ * metadata boxes and one track per image, sensor data and previews alike.
+ */
+export function parseCR3(buffer: Buffer): ParseResult | null {
+  if (buffer.length < 16 || buffer.toString('latin1', 4, 12) !== 'ftypcrx ') {
+    return null;
+  }
+
+  // The file may extend past the buffer, so top-level boxes are not bounded by it
+  const moov = readBoxes(buffer, 0, Infinity).find(({ type }) => type === 'moov');
+  if (!moov) {
+    return null;
+  }
+
+  // The Canon uuid box names its type in the 16 bytes before its children
+  const canon = readBoxes(buffer, moov.start, moov.end).find(
+    ({ type, start }) => type === 'uuid' && buffer.toString('hex', start, start + 16) === CANON_UUID
+  );
+  const metadata = canon ? readBoxes(buffer, canon.start + 16, canon.end) : [];
+  const cmt1 = readTiffBox(
+    buffer,
+    metadata.find(({ type }) => type === 'CMT1')
+  );
+  const cmt3 = readTiffBox(
+    buffer,
+    metadata.find(({ type }) => type === 'CMT3')
+  );
+
+  const { raw, previews } = readTracks(buffer, moov);
+  const sensor = cmt3 ? readCanonSensorSize(cmt3.tiff, cmt3.header, cmt3.ifd) : null;
+
+  return describeRaw(
+    'cr3',
+    'image/x-canon-cr3',
+    defined({
+      make: cmt1 ? readAscii(cmt1.tiff, cmt1.ifd, TIFF_MAKE) : undefined,
+      model: cmt1 ? readAscii(cmt1.tiff, cmt1.ifd, TIFF_MODEL) : undefined,
+      raw: largestSize(raw) ?? sensor ?? undefined,
+      preview: largestSize(previews),
+    })
+  );
+}
@@ -0,0 +1,353 @@
+import { defined, type ParseResult, type TextureInfo } from '../types.js';
+import { BufferReader } from '../utils/buffer-reader.js';
+
+/** Size of the magic number and DDS_HEADER */
+const HEADER_END = 128;
+
+/** Size of the DDS_HEADER_DXT10 extension */
+const DX10_HEADER_SIZE = 20;
+
+/** DDS_HEADER flags */
+const DDSD_MIPMAPCOUNT = 0x20000;
+const DDSD_DEPTH = 0x800000;
+
+/** DDS_PIXELFORMAT flags */
+const DDPF_ALPHAPIXELS = 0x1;
+const DDPF_ALPHA = 0x2;
+const DDPF_FOURCC = 0x4;
+const DDPF_RGB = 0x40;
+const DDPF_LUMINANCE = 0x20000;
+
+/** dwCaps2 flags */
+const DDSCAPS2_CUBEMAP = 0x200;
+const DDSCAPS2_VOLUME = 0x200000;
+
+/** FourCC announcing the DX10 header, 'DX10' read as little-endian */
+const FOURCC_DX10 = 0x30315844;
+
+/** DX10 resource dimension of a volume texture */
+const D3D10_RESOURCE_DIMENSION_TEXTURE3D = 4;
+
+/** DX10 misc flag marking a cubemap */
+const D3D10_RESOURCE_MISC_TEXTURECUBE = 0x4;
+
+/**
+ * Block-compressed format per legacy FourCC
+ */
+const FORMAT_BY_FOURCC: Record<string, string> = {
+  DXT1: 'BC1',
+  DXT2: 'BC2',
+  DXT3: 'BC2',
+  DXT4: 'BC3',
+  DXT5: 'BC3',
+  ATI1: 'BC4_UNORM',
+  BC4U: 'BC4_UNORM',
+  BC4S: 'BC4_SNORM',
+  ATI2: 'BC5_UNORM',
+  BC5U: 'BC5_UNORM',
+  BC5S: 'BC5_SNORM',
+};
+
+/**
+ * Uncompressed format per D3DFORMAT value stored in place of a FourCC
+ */
+const FORMAT_BY_D3DFMT: Record<number, string> = {
+  36: 'A16B16G16R16',
+  110: 'Q16W16V16U16',
+  111: 'R16F',
+  112: 'G16R16F',
+  113: 'A16B16G16R16F',
+  114: 'R32F',
+  115: 'G32R32F',
+  116: 'A32B32G32R32F',
+};
+
+/**
+ * DXGI_FORMAT names, indexed by value
+ */
+const DXGI_FORMATS = [
+  'UNKNOWN',
+  'R32G32B32A32_TYPELESS',
+  'R32G32B32A32_FLOAT',
+  'R32G32B32A32_UINT',
+  'R32G32B32A32_SINT',
+  'R32G32B32_TYPELESS',
+  'R32G32B32_FLOAT',
+  'R32G32B32_UINT',
+  'R32G32B32_SINT',
+  'R16G16B16A16_TYPELESS',
+  'R16G16B16A16_FLOAT',
+  'R16G16B16A16_UNORM',
+  'R16G16B16A16_UINT',
+  'R16G16B16A16_SNORM',
+  'R16G16B16A16_SINT',
+  'R32G32_TYPELESS',
+  'R32G32_FLOAT',
+  'R32G32_UINT',
+  'R32G32_SINT',
+  'R32G8X24_TYPELESS',
+  'D32_FLOAT_S8X24_UINT',
+  'R32_FLOAT_X8X24_TYPELESS',
+  'X32_TYPELESS_G8X24_UINT',
+  'R10G10B10A2_TYPELESS',
+  'R10G10B10A2_UNORM',
+  'R10G10B10A2_UINT',
+  'R11G11B10_FLOAT',
+  'R8G8B8A8_TYPELESS',
+  'R8G8B8A8_UNORM',
+  'R8G8B8A8_UNORM_SRGB',
+  'R8G8B8A8_UINT',
+  'R8G8B8A8_SNORM',
+  'R8G8B8A8_SINT',
+  'R16G16_TYPELESS',
+  'R16G16_FLOAT',
+  'R16G16_UNORM',
+  'R16G16_UINT',
+  'R16G16_SNORM',
+  'R16G16_SINT',
+  'R32_TYPELESS',
+  'D32_FLOAT',
+  'R32_FLOAT',
+  'R32_UINT',
+  'R32_SINT',
+  'R24G8_TYPELESS',
+  'D24_UNORM_S8_UINT',
+  'R24_UNORM_X8_TYPELESS',
+  'X24_TYPELESS_G8_UINT',
+  'R8G8_TYPELESS',
+  'R8G8_UNORM',
+  'R8G8_UINT',
+  'R8G8_SNORM',
+  'R8G8_SINT',
+  'R16_TYPELESS',
+  'R16_FLOAT',
+  'D16_UNORM',
+  'R16_UNORM',
+  'R16_UINT',
+  'R16_SNORM',
+  'R16_SINT',
+  'R8_TYPELESS',
+  'R8_UNORM',
+  'R8_UINT',
+  'R8_SNORM',
+  'R8_SINT',
+  'A8_UNORM',
+  'R1_UNORM',
+  'R9G9B9E5_SHAREDEXP',
+  'R8G8_B8G8_UNORM',
+  'G8R8_G8B8_UNORM',
+  'BC1_TYPELESS',
+  'BC1_UNORM',
+  'BC1_UNORM_SRGB',
+  'BC2_TYPELESS',
+  'BC2_UNORM',
+  'BC2_UNORM_SRGB',
+  'BC3_TYPELESS',
+  'BC3_UNORM',
+  'BC3_UNORM_SRGB',
+  'BC4_TYPELESS',
+  'BC4_UNORM',
+  'BC4_SNORM',
+  'BC5_TYPELESS',
+  'BC5_UNORM',
+  'BC5_SNORM',
+  'B5G6R5_UNORM',
+  'B5G5R5A1_UNORM',
+  'B8G8R8A8_UNORM',
+  'B8G8R8X8_UNORM',
+  'R10G10B10_XR_BIAS_A2_UNORM',
+  'B8G8R8A8_TYPELESS',
+  'B8G8R8A8_UNORM_SRGB',
+  'B8G8R8X8_TYPELESS',
+  'B8G8R8X8_UNORM_SRGB',
+  'BC6H_TYPELESS',
+  'BC6H_UF16',
+  'BC6H_SF16',
+  'BC7_TYPELESS',
+  'BC7_UNORM',
+  'BC7_UNORM_SRGB',
+  'AYUV',
+  'Y410',
+  'Y416',
+  'NV12',
+  'P010',
+  'P016',
+  '420_OPAQUE',
+  'YUY2',
+  'Y210',
+  'Y216',
+  'NV11',
+  'AI44',
+  'IA44',
+  'P8',
+  'A8P8',
+  'B4G4R4A4_UNORM',
+] as const;
+
+/**
+ * DDS_PIXELFORMAT fields
+ */
+interface PixelFormat {
+  flags: number;
+  fourCC: number;
+  rgbBitCount: number;
+  masks: { r: number; g: number; b: number; a: number };
+}
+
+/**
+ * Name an uncompressed legacy format from its channel masks, most
+ * significant channel first, the way D3DFORMAT does (e.g., 'A8R8G8B8')
+ */
+function nameFromMasks({ flags, rgbBitCount, masks }: PixelFormat): string | undefined {
+  const channels: [letter: string, mask: number][] = [];
+
+  if (flags & DDPF_RGB) {
+    channels.push(['R', masks.r], ['G', masks.g], ['B', masks.b]);
+  } else if (flags & DDPF_LUMINANCE) {
+    channels.push(['L', masks.r]);
+  }
+  if (flags & (DDPF_ALPHAPIXELS | DDPF_ALPHA)) {
+    channels.push(['A', masks.a]);
+  }
+
+  const fields = channels
+    .filter(([, mask]) => mask !== 0)
+    .map(([letter, mask]) => {
+      const bits = mask.toString(2);
+      return {
+        letter,
+        shift: bits.length - bits.lastIndexOf('1') - 1,
+        width: bits.split('1').length - 1,
+      };
+    })
+    .sort((a, b) => b.shift - a.shift);
+
+  if (fields.length === 0) {
+    return undefined;
+  }
+
+  // Bits not covered by any mask are padding
+  const used = fields.reduce((sum, field) => sum + field.width, 0);
+  const padding = rgbBitCount > used ? `X${rgbBitCount - used}` : '';
+  return padding + fields.map(({ letter, width }) => `${letter}${width}`).join('');
+}
+
+/**
+ * Resolve the format named by the legacy pixel format
+ */
+function legacyFormat(pixelFormat: PixelFormat): { format?: string; compressed: boolean } {
+  if (!(pixelFormat.flags & DDPF_FOURCC)) {
+    return { compressed: false, ...defined({ format: nameFromMasks(pixelFormat) }) };
+  }
+
+  const d3dFormat = FORMAT_BY_D3DFMT[pixelFormat.fourCC];
+  if (d3dFormat) {
+    return { format: d3dFormat, compressed: false };
+  }
+
+  const fourCC = Buffer.alloc(4);
+  fourCC.writeUInt32LE(pixelFormat.fourCC);
+  const code = fourCC.toString('latin1');
+  const format = FORMAT_BY_FOURCC[code];
+
+  return format ? { format, compressed: true } : { format: code.trim(), compressed: false };
+}
+
+/**
+ * Parse DirectDraw Surface (DDS) texture format, including the DX10 header
+ */
+export function parseDDS(buffer: Buffer): ParseResult | null {
+  if (buffer.length < HEADER_END) {
+    return null;
+  }
+
+  const reader = new BufferReader(buffer, true); // DDS uses little-endian
+
+  if (reader.readString(4, 'latin1') !== 'DDS ' || reader.readUInt32() !== 124) {
+    return null;
+  }
+
+  const flags = reader.readUInt32();
+  const height = reader.readUInt32();
+  const width = reader.readUInt32();
+  reader.skip(4); // Pitch or linear size
+  const volumeDepth = reader.readUInt32();
+  const mipMapCount = reader.readUInt32();
+  reader.skip(44); // Reserved
+  reader.skip(4); // Pixel format size
+  const pixelFormat: PixelFormat = {
+    flags: reader.readUInt32(),
+    fourCC: reader.readUInt32(),
+    rgbBitCount: reader.readUInt32(),
+    masks: {
+      r: reader.readUInt32(),
+      g: reader.readUInt32(),
+      b: reader.readUInt32(),
+      a: reader.readUInt32(),
+    },
+  };
+  reader.skip(4); // Caps
+  const caps2 = reader.readUInt32();
+
+  if (width === 0 || height === 0) {
+    return null;
+  }
+
+  let format: { format?: string; compressed: boolean };
+  let cubemap = (caps2 & DDSCAPS2_CUBEMAP) !== 0;
+  let volume = (flags & DDSD_DEPTH) !== 0 && (caps2 & DDSCAPS2_VOLUME) !== 0;
+  let layers = 1;
+  let array = false;
+
+  // The DX10 header replaces the legacy pixel format with a DXGI format
+  if (pixelFormat.flags & DDPF_FOURCC && pixelFormat.fourCC === FOURCC_DX10) {
+    reader.seek(HEADER_END);
+    if (!reader.canRead(DX10_HEADER_SIZE)) {
+      return null;
+    }
+
+    const dxgiFormat = DXGI_FORMATS[reader.readUInt32()];
+    const resourceDimension = reader.readUInt32();
+    const miscFlag = reader.readUInt32();
+    const arraySize = reader.readUInt32();
+
+    format = {
+      compressed: dxgiFormat?.startsWith('BC') ?? false,
+      ...defined({ format: dxgiFormat }),
+    };
+    cubemap = (miscFlag & D3D10_RESOURCE_MISC_TEXTURECUBE) !== 0;
+    volume = resourceDimension === D3D10_RESOURCE_DIMENSION_TEXTURE3D;
+    // Volume textures cannot be arrays, and they reuse no array fields
+    array = !volume && arraySize > 1;
+    layers = array ? arraySize : 1;
+  } else {
+    format = legacyFormat(pixelFormat);
+  }
+
+  const texture: TextureInfo = {
+    ...format,
+    mipLevels: flags & DDSD_MIPMAPCOUNT && mipMapCount > 0 ? mipMapCount : 1,
+    cubemap,
+    array,
+    layers,
+    ...defined({ depth: volume && volumeDepth > 0 ? volumeDepth : undefined }),
+  };
+
+  return {
+    width,
+    height,
+    type: 'dds',
+    mime: 'image/vnd-ms.dds',
+    wUnits: 'px',
+    hUnits: 'px',
+    ...defined({
+      colorSpace: texture.format?.includes('SRGB') ? 'sRGB' : undefined,
+      // Only uncompressed legacy formats declare alpha outright
+      hasAlpha:
+        pixelFormat.flags & DDPF_FOURCC
+          ? undefined
+          : (pixelFormat.flags & (DDPF_ALPHAPIXELS | DDPF_ALPHA)) !== 0,
+    }),
+    texture,
+  };
+}
@@ -0,0 +1,249 @@
+import { defined, type ExrWindow, type ParseResult } from '../types.js';
+import { BufferReader } from '../utils/buffer-reader.js';
+
+/** OpenEXR magic number */
+const MAGIC = Buffer.from([0x76, 0x2f, 0x31, 0x01]);
+
+/** Version field flags */
+const FLAG_TILED = 0x200;
+const FLAG_NON_IMAGE = 0x800;
+const FLAG_MULTIPART = 0x1000;
+
+/** Longest attribute name or type, with long names enabled */
+const MAX_NAME_LENGTH = 255;
+
+/**
+ * Channel pixel types: bits per sample and sample format
+ */
+const PIXEL_TYPES: Record<number, { bits: number; format: 'uint' | 'float' }> = {
+  0: { bits: 32, format: 'uint' },
+  1: { bits: 16, format: 'float' },
+  2: { bits: 32, format: 'float' },
+};
+
+/**
+ * Compression methods, by compression attribute value
+ */
+const COMPRESSION_METHODS = [
+  'NONE',
+  'RLE',
+  'ZIPS',
+  'ZIP',
+  'PIZ',
+  'PXR24',
+  'B44',
+  'B44A',
+  'DWAA',
+  'DWAB',
+] as const;
+
+/**
+ * One entry of the channels attribute
+ */
+interface Channel {
+  name: string;
+  pixelType: number;
+}
+
+/**
+ * Attributes of the first part's header that this parser reads
+ */
+interface Header {
+  dataWindow?: ExrWindow;
+  displayWindow?: ExrWindow;
+  channels?: Channel[];
+  compression?: string;
+  pixelAspectRatio?: number;
+  tileSize?: { width: number; height: number };
+  partType?: string;
+}
+
+/**
+ * Read a null-terminated string, or return null when it does not end within
+ * the limit or the buffer
+ */
+function readCString(reader: BufferReader, maxLength: number): string | null {
+  const buffer = reader.getBuffer();
+  const start = reader.getPosition();
+  const end = buffer.indexOf(0, start);
+
+  if (end === -1 || end - start > maxLength) {
+    return null;
+  }
+
+  reader.seek(end + 1);
+  return buffer.toString('latin1', start, end);
+}
+
+/**
+ * Read a box2i value
+ */
+function readWindow(reader: BufferReader): ExrWindow {
+  return {
+    xMin: reader.readInt32(),
+    yMin: reader.readInt32(),
+    xMax: reader.readInt32(),
+    yMax: reader.readInt32(),
+  };
+}
+
+/**
+ * Read a chlist value: channel records up to an empty name
+ */
+function readChannels(reader: BufferReader, end: number): Channel[] {
+  const channels: Channel[] = [];
+
+  while (reader.getPosition() < end) {
+    const name = readCString(reader, MAX_NAME_LENGTH);
+    if (!name) {
+      break;
+    }
+
+    const pixelType = reader.readInt32();
+    reader.skip(12); // pLinear, reserved bytes and x/y sampling
+    channels.push({ name, pixelType });
+  }
+
+  return channels;
+}
+
+/**
+ * Walk one header's attributes up to the empty name that ends it. Returns
+ * null when the header runs past the buffer.
+ */
+function readHeader(reader: BufferReader): Header | null {
+  const header: Header = {};
+
+  for (;;) {
+    const name = readCString(reader, MAX_NAME_LENGTH);
+    if (name === null) {
+      return null;
+    }
+    if (name === '') {
+      return header;
+    }
+
+    const type = readCString(reader, MAX_NAME_LENGTH);
+    if (type === null || !reader.canRead(4)) {
+      return null;
+    }
+
+    const size = reader.readInt32();
+    const valueStart = reader.getPosition();
+    if (size < 0 || !reader.canRead(size)) {
+      return null;
+    }
+
+    if (name === 'dataWindow' && type === 'box2i' && size >= 16) {
+      header.dataWindow = readWindow(reader);
+    } else if (name === 'displayWindow' && type === 'box2i' && size >= 16) {
+      header.displayWindow = readWindow(reader);
+    } else if (name === 'channels' && type === 'chlist') {
+      header.channels = readChannels(reader, valueStart + size);
+    } else if (name === 'compression' && type === 'compression' && size >= 1) {
+      const method = COMPRESSION_METHODS[reader.readUInt8()];
+      if (method) header.compression = method;
+    } else if (name === 'pixelAspectRatio' && type === 'float' && size >= 4) {
+      header.pixelAspectRatio = reader.readFloat32();
+    } else if (name === 'tiles' && type === 'tiledesc' && size >= 8) {
+      header.tileSize = { width: reader.readUInt32(), height: reader.readUInt32() };
+    } else if (name === 'type' && type === 'string') {
+      header.partType = reader.readString(size, 'latin1');
+    }
+
+    reader.seek(valueStart + size);
+  }
+}
+
+/**
+ * Count the part headers of a multi-part file, which end with an empty
+ * header. Returns undefined when they run past the buffer.
+ */
+function countParts(reader: BufferReader): number | undefined {
+  let parts = 1;
+
+  while (reader.canRead(1)) {
+    if (reader.getBuffer()[reader.getPosition()] === 0) {
+      return parts;
+    }
+    if (!readHeader(reader)) {
+      return undefined;
+    }
+    parts++;
+  }
+
+  return undefined;
+}
+
+/**
+ * Parse OpenEXR image format. Multi-part files are described by their
+ * first part.
+ */
+export function parseEXR(buffer: Buffer): ParseResult | null {
+  if (buffer.length < 8 || !buffer.subarray(0, 4).equals(MAGIC)) {
+    return null;
+  }
+
+  const reader = new BufferReader(buffer, true); // OpenEXR uses little-endian
+  reader.seek(4);
+  const versionField = reader.readUInt32();
+  const multipart = (versionField & FLAG_MULTIPART) !== 0;
+
+  const header = readHeader(reader);
+  const dataWindow = header?.dataWindow;
+  if (!header || !dataWindow) {
+    return null;
+  }
+
+  const width = dataWindow.xMax - dataWindow.xMin + 1;
+  const height = dataWindow.yMax - dataWindow.yMin + 1;
+  if (width <= 0 || height <= 0) {
+    return null;
+  }
+
+  // Single-part files flag tiling and deep data in the version field; parts
+  // of a multi-part file declare them in their type attribute
+  const partType = header.partType ?? '';
+  const tiled = multipart ? partType.endsWith('tile') : (versionField & FLAG_TILED) !== 0;
+  const deep = multipart ? partType.startsWith('deep') : (versionField & FLAG_NON_IMAGE) !== 0;
+  const parts = multipart ? countParts(reader) : 1;
+
+  // Channels may mix pixel types; report the widest
+  const types = (header.channels ?? []).flatMap(({ pixelType }) => PIXEL_TYPES[pixelType] ?? []);
+  const channelNames = header.channels?.map(({ name }) => name);
+
+  return {
+    width,
+    height,
+    type: 'exr',
+    mime: 'image/x-exr',
+    wUnits: 'px',
+    hUnits: 'px',
+    ...defined({
+      bitDepth: types.length > 0 ? Math.max(...types.map(({ bits }) => bits)) : undefined,
+      channels: channelNames?.length,
+      hasAlpha: channelNames ? channelNames.some((name) => /(^|\.)A$/.test(name)) : undefined,
+      sampleFormat:
+        types.length > 0
+          ? types.some(({ format }) => format === 'float')
+            ? 'float'
+            : 'uint'
+          : undefined,
+      pixelAspectRatio: header.pixelAspectRatio,
+      channelNames,
+      compression: header.compression,
+    }),
+    exr: {
+      dataWindow,
+      tiled,
+      multipart,
+      deep,
+      ...defined({
+        displayWindow: header.displayWindow,
+        parts,
+        tileWidth: tiled ? header.tileSize?.width : undefined,
+        tileHeight: tiled ? header.tileSize?.height : undefined,
+      }),
+    },
+  };
+}
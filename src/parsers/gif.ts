@@ -1,10 +1,109 @@
-import type { ParseResult } from '../types.js';
+import { defined, type AnimationInfo, type ParseOptions, type ParseResult } from '../types.js';
 import { BufferReader } from '../utils/buffer-reader.js';
 
+/** Block introducers */
+const IMAGE_DESCRIPTOR = 0x2c;
+const EXTENSION = 0x21;
+const TRAILER = 0x3b;
+
+/** Extension labels */
+const GRAPHIC_CONTROL = 0xf9;
+const APPLICATION = 0xff;
+
+/** Application identifiers of the looping extension */
+const LOOP_APPLICATIONS = ['NETSCAPE2.0', 'ANIMEXTS1.0'];
+
+/** Packed-field flags */
+const COLOR_TABLE_FLAG = 0x80;
+const INTERLACE_FLAG = 0x40;
+
+/**
+ * Frames found by walking the block stream
+ */
+interface BlockScan {
+  delays: number[];
+  loopCount?: number;
+  interlaced: boolean;
+  /** Whether the trailer was reached, so every frame was seen */
+  complete: boolean;
+}
+
+/**
+ * Skip a colour table whose size is given by a packed field
+ */
+function skipColorTable(reader: BufferReader, packed: number): void {
+  if (packed & COLOR_TABLE_FLAG) {
+    reader.skip(3 * 2 ** ((packed & 0x07) + 1));
+  }
+}
+
+/**
+ * Skip data sub-blocks up to the empty block that ends them
+ */
+function skipSubBlocks(reader: BufferReader): void {
+  for (let size = reader.readUInt8(); size > 0; size = reader.readUInt8()) {
+    reader.skip(size);
+  }
+}
+
+/**
+ * Walk the blocks after the logical screen descriptor, skipping image data,
+ * up to the trailer or the end of the buffer
+ */
+function scanBlocks(reader: BufferReader): BlockScan {
+  const scan: BlockScan = { delays: [], interlaced: false, complete: false };
+  let delay: number | undefined;
+
+  try {
+    for (let introducer = reader.readUInt8(); introducer !== TRAILER;) {
+      if (introducer === IMAGE_DESCRIPTOR) {
+        reader.skip(8); // Left, top, width and height
+        const packed = reader.readUInt8();
+        skipColorTable(reader, packed);
+        reader.skip(1); // LZW minimum code size
+        skipSubBlocks(reader);
+
+        scan.interlaced ||= (packed & INTERLACE_FLAG) !== 0;
+        scan.delays.push(delay ?? 0);
+        delay = undefined;
+      } else if (introducer === EXTENSION) {
+        const label = reader.readUInt8();
+        const start = reader.getPosition();
+        const size = reader.readUInt8();
+
+        if (label === GRAPHIC_CONTROL && size >= 4) {
+          reader.skip(1); // Disposal method and flags
+          delay = reader.readUInt16() * 10; // Hundredths of a second
+        } else if (label === APPLICATION && size === 11) {
+          const application = reader.readString(11, 'latin1');
+          // The looping sub-block: its ID (1), then the loop count
+          if (LOOP_APPLICATIONS.includes(application) && reader.readUInt8() >= 3) {
+            reader.skip(1);
+            scan.loopCount = reader.readUInt16();
+          }
+        }
+
+        reader.seek(start);
+        skipSubBlocks(reader);
+      } else {
+        return scan; // Not a GIF block; the stream is damaged
+      }
+
+      introducer = reader.readUInt8();
+    }
+    scan.complete = true;
+  } catch {
+    // The buffer ended mid-stream; report the frames read so far
+  }
+
+  return scan;
+}
+
 /**
- * Parse GIF image format
+ * Parse GIF image format. With a full scan, the block stream is walked to
+ * count frames and read animation timing.
  */
-export function parseGIF(buffer: Buffer): ParseResult | null {
+export function parseGIF(buffer: Buffer, options: ParseOptions = {}): ParseResult | null {
   if (buffer.length < 10) {
     return null;
   }
@@ -25,7 +124,7 @@ export function parseGIF(buffer: Buffer): ParseResult | null {
     return null;
   }
 
-  return {
+  const result: ParseResult = {
     width,
     height,
     type: 'gif',
@@ -33,4 +132,41 @@ export function parseGIF(buffer: Buffer): ParseResult | null {
     wUnits: 'px',
     hUnits: 'px',
   };
+
+  if (!options.fullScan) {
+    return result;
+  }
+
+  const packed = reader.readUInt8();
+  reader.skip(2); // Background colour index, pixel aspect ratio
+  skipColorTable(reader, packed);
+
+  const { delays, loopCount, interlaced, complete } = scanBlocks(reader);
+  // A stream cut off before the trailer may hold more frames: it is known to
+  // be animated from a second frame or a loop extension, but not known to be still
+  const animated = complete
+    ? delays.length > 1
+    : delays.length > 1 || loopCount !== undefined || undefined;
+
+  // The loop count is the number of repeats after the first play, with 0
+  // repeating forever; without the extension the animation plays once
+  const animation: AnimationInfo | undefined = animated
+    ? {
+        frames: delays.length,
+        loops: loopCount === undefined ? 1 : loopCount === 0 ? 0 : loopCount + 1,
+        delays,
+        ...defined({
+          duration: complete ? delays.reduce((sum, frameDelay) => sum + frameDelay, 0) : undefined,
+        }),
+      }
+    : undefined;
+
+  return {
+    ...result,
+    ...defined({
+      animated,
+      interlaced: interlaced || complete ? interlaced : undefined,
+      animation,
+    }),
+  };
 }
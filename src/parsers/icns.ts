@@ -0,0 +1,182 @@
+import { defined, type IconEntry, type ParseResult } from '../types.js';
+import { BufferReader } from '../utils/buffer-reader.js';
+import { parseJP2 } from './jp2.js';
+import { parsePNG } from './png.js';
+
+/** Size of the file header and of each element header */
+const HEADER_SIZE = 8;
+
+/** PNG signature, marking a PNG payload */
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+/** JPEG 2000 signature box and bare codestream start, marking a JPEG 2000 payload */
+const JP2_SIGNATURE = Buffer.from([0x00, 0x00, 0x00, 0x0c, 0x6a, 0x50, 0x20, 0x20]);
+const J2K_SIGNATURE = Buffer.from([0xff, 0x4f, 0xff, 0x51]);
+
+/**
+ * Nominal layout per image OSType. Types without a fixed format hold PNG or
+ * JPEG 2000 data, or an ARGB bitmap in older files.
+ */
+const ICON_TYPES: Record<
+  string,
+  { width: number; height?: number; scale?: number; format?: string }
+> = {
+  ICON: { width: 32, format: 'indexed' },
+  'ICN#': { width: 32, format: 'indexed' },
+  'icm#': { width: 16, height: 12, format: 'indexed' },
+  icm4: { width: 16, height: 12, format: 'indexed' },
+  icm8: { width: 16, height: 12, format: 'indexed' },
+  'ics#': { width: 16, format: 'indexed' },
+  ics4: { width: 16, format: 'indexed' },
+  ics8: { width: 16, format: 'indexed' },
+  is32: { width: 16, format: 'rgb' },
+  icl4: { width: 32, format: 'indexed' },
+  icl8: { width: 32, format: 'indexed' },
+  il32: { width: 32, format: 'rgb' },
+  'ich#': { width: 48, format: 'indexed' },
+  ich4: { width: 48, format: 'indexed' },
+  ich8: { width: 48, format: 'indexed' },
+  ih32: { width: 48, format: 'rgb' },
+  it32: { width: 128, format: 'rgb' },
+  icp4: { width: 16 },
+  icp5: { width: 32 },
+  icp6: { width: 64 },
+  ic04: { width: 16 },
+  ic05: { width: 32 },
+  icsb: { width: 18 },
+  icsB: { width: 36, scale: 2 },
+  sb24: { width: 24 },
+  SB24: { width: 48, scale: 2 },
+  ic07: { width: 128 },
+  ic08: { width: 256 },
+  ic09: { width: 512 },
+  ic10: { width: 1024, scale: 2 },
+  ic11: { width: 32, scale: 2 },
+  ic12: { width: 64, scale: 2 },
+  ic13: { width: 256, scale: 2 },
+  ic14: { width: 512, scale: 2 },
+};
+
+/**
+ * Element type and size, with where it starts in the file
+ */
+interface Element {
+  type: string;
+  length: number;
+  offset: number;
+}
+
+/**
+ * List the elements. Walking stops where the buffer ends, unless a table of
+ * contents lists the rest; icon files are often larger than the bytes read.
+ */
+function readElements(buffer: Buffer, fileLength: number): Element[] {
+  const reader = new BufferReader(buffer);
+  const end = Math.min(fileLength, buffer.length);
+  const elements: Element[] = [];
+  let position = HEADER_SIZE;
+
+  while (position + HEADER_SIZE <= end) {
+    reader.seek(position);
+    const type = reader.readString(4, 'latin1');
+    const length = reader.readUInt32();
+    if (length < HEADER_SIZE) {
+      break;
+    }
+
+    if (type === 'TOC ' && reader.canRead(length - HEADER_SIZE)) {
+      // Each entry gives the type and length of an element that follows
+      let next = position + length;
+      for (let i = 0; i < Math.floor((length - HEADER_SIZE) / HEADER_SIZE); i++) {
+        const entryType = reader.readString(4, 'latin1');
+        const entryLength = reader.readUInt32();
+        elements.push({ type: entryType, length: entryLength, offset: next });
+        next += entryLength;
+      }
+      return elements;
+    }
+
+    elements.push({ type, length, offset: position });
+    position += length;
+  }
+
+  return elements;
+}
+
+/**
+ * Describe an image element, reading real dimensions from a PNG or JPEG 2000
+ * payload when it is in the buffer
+ */
+function describeIcon(buffer: Buffer, element: Element): IconEntry | null {
+  const nominal = ICON_TYPES[element.type];
+  if (!nominal) {
+    return null;
+  }
+
+  const dataStart = element.offset + HEADER_SIZE;
+  const data = buffer.subarray(
+    Math.min(dataStart, buffer.length),
+    Math.min(element.offset + element.length, buffer.length)
+  );
+
+  let format = nominal.format;
+  let size: { width: number; height: number } | null = null;
+
+  if (!format && data.length >= 4) {
+    if (data.subarray(0, PNG_SIGNATURE.length).equals(PNG_SIGNATURE)) {
+      format = 'png';
+      size = parsePNG(data);
+    } else if (
+      data.subarray(0, JP2_SIGNATURE.length).equals(JP2_SIGNATURE) ||
+      data.subarray(0, J2K_SIGNATURE.length).equals(J2K_SIGNATURE)
+    ) {
+      format = 'jp2';
+      size = parseJP2(data);
+    } else if (data.toString('latin1', 0, 4) === 'ARGB') {
+      format = 'argb';
+    }
+  }
+
+  return {
+    type: element.type,
+    width: size?.width ?? nominal.width,
+    height: size?.height ?? nominal.height ?? nominal.width,
+    scale: nominal.scale ?? 1,
+    bytes: element.length - HEADER_SIZE,
+    ...defined({ format }),
+  };
+}
+
+/**
+ * Parse Apple icon image format (ICNS), reporting the largest image
+ */
+export function parseICNS(buffer: Buffer): ParseResult | null {
+  if (buffer.length < HEADER_SIZE + HEADER_SIZE || buffer.toString('latin1', 0, 4) !== 'icns') {
+    return null;
+  }
+
+  const fileLength = buffer.readUInt32BE(4);
+  const icons = readElements(buffer, fileLength).flatMap((element) => {
+    const icon = describeIcon(buffer, element);
+    return icon ? [icon] : [];
+  });
+
+  const largest = icons.reduce<IconEntry | undefined>(
+    (best, icon) => (!best || icon.width * icon.height > best.width * best.height ? icon : best),
+    undefined
+  );
+
+  if (!largest) {
+    return null;
+  }
+
+  return {
+    width: largest.width,
+    height: largest.height,
+    type: 'icns',
+    mime: 'image/icns',
+    wUnits: 'px',
+    hUnits: 'px',
+    icons,
+  };
+}
@@ -1,42 +1,116 @@
-import type { ParseResult } from '../types.js';
+import { defined, type IconEntry, type ParseResult } from '../types.js';
 import { BufferReader } from '../utils/buffer-reader.js';
+import { parsePNG } from './png.js';
 
 /** Bytes per ICO directory entry */
 const ENTRY_SIZE = 16;
 
+/** Directory types: icons and cursors share the layout */
+const ICON_TYPE = 1;
+const CURSOR_TYPE = 2;
+
+/** PNG signature, marking a PNG payload */
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+/** Smallest DIB header (BITMAPINFOHEADER) that carries bit count and palette size */
+const DIB_HEADER_SIZE = 40;
+
 /**
- * The parts of an ICO directory entry that decide which image we report
+ * One ICO directory entry
  */
-interface IcoEntry {
+interface DirectoryEntry {
   width: number;
   height: number;
-  bitCount: number;
+  colorCount: number;
+  bytes: number;
+  offset: number;
+  bitCount?: number;
+  hotspot?: { x: number; y: number };
 }
 
 /**
- * Read one 16-byte ICO directory entry
+ * Read one 16-byte directory entry. Cursors store the hotspot where icons
+ * store planes and bit count.
  */
-function readDirectoryEntry(reader: BufferReader): IcoEntry {
+function readDirectoryEntry(reader: BufferReader, cursor: boolean): DirectoryEntry {
   const width = reader.readUInt8() || 256; // 0 means 256
   const height = reader.readUInt8() || 256; // 0 means 256
-  reader.skip(4); // colorCount, reserved, planes
-  const bitCount = reader.readUInt16();
-  reader.skip(8); // bytesInRes, imageOffset
+  const colorCount = reader.readUInt8(); // 0 means no palette, or 256 or more colors
+  reader.skip(1); // Reserved
+  const planesOrX = reader.readUInt16();
+  const bitCountOrY = reader.readUInt16();
+  const bytes = reader.readUInt32();
+  const offset = reader.readUInt32();
 
-  return { width, height, bitCount };
+  return cursor
+    ? { width, height, colorCount, bytes, offset, hotspot: { x: planesOrX, y: bitCountOrY } }
+    : {
+        width,
+        height,
+        colorCount,
+        bytes,
+        offset,
+        ...defined({ bitCount: bitCountOrY || undefined }),
+      };
+}
+
+/**
+ * Describe one image, reading its real size from a PNG payload or its bit
+ * count and palette from a BMP payload when the payload is in the buffer
+ */
+function describeImage(buffer: Buffer, entry: DirectoryEntry): IconEntry {
+  const data = buffer.subarray(
+    Math.min(entry.offset, buffer.length),
+    Math.min(entry.offset + entry.bytes, buffer.length)
+  );
+
+  let width = entry.width;
+  let height = entry.height;
+  let bitCount = entry.bitCount;
+  let colors = entry.colorCount || undefined;
+  let format: string | undefined;
+
+  if (data.length >= PNG_SIGNATURE.length && data.subarray(0, 8).equals(PNG_SIGNATURE)) {
+    format = 'png';
+    const png = parsePNG(data);
+    if (png) {
+      width = png.width;
+      height = png.height;
+      if (png.bitDepth && png.channels) bitCount = png.bitDepth * png.channels;
+    }
+  } else if (data.length >= DIB_HEADER_SIZE && data.readUInt32LE(0) >= DIB_HEADER_SIZE) {
+    format = 'bmp';
+    bitCount = data.readUInt16LE(14) || bitCount;
+    // An empty palette size means the full palette for the bit count
+    const used = data.readUInt32LE(32);
+    colors = used || (bitCount && bitCount <= 8 ? 2 ** bitCount : undefined);
+  }
+
+  return {
+    width,
+    height,
+    bytes: entry.bytes,
+    ...defined({
+      format,
+      bitCount,
+      colors,
+      hotspotX: entry.hotspot?.x,
+      hotspotY: entry.hotspot?.y,
+    }),
+  };
 }
 
 /**
  * Prefer the largest image, breaking ties on colour depth
  */
-function isBetter(entry: IcoEntry, best: IcoEntry): boolean {
-  if (entry.width !== best.width) return entry.width > best.width;
-  if (entry.height !== best.height) return entry.height > best.height;
-  return entry.bitCount > best.bitCount;
+function isBetter(image: IconEntry, best: IconEntry): boolean {
+  if (image.width !== best.width) return image.width > best.width;
+  if (image.height !== best.height) return image.height > best.height;
+  return (image.bitCount ?? 0) > (best.bitCount ?? 0);
 }
 
 /**
- * Parse ICO image format
+ * Parse ICO and CUR image formats
  */
 export function parseICO(buffer: Buffer): ParseResult | null {
   if (buffer.length < 6) {
@@ -49,26 +123,35 @@ export function parseICO(buffer: Buffer): ParseResult | null {
   const type = reader.readUInt16();
   const count = reader.readUInt16();
 
-  // ICO files have reserved=0, type=1, and at least one image
-  if (reserved !== 0 || type !== 1 || count === 0 || !reader.canRead(count * ENTRY_SIZE)) {
+  // ICO files have reserved=0, type=1 (or 2 for cursors), and at least one image
+  if (
+    reserved !== 0 ||
+    (type !== ICON_TYPE && type !== CURSOR_TYPE) ||
+    count === 0 ||
+    !reader.canRead(count * ENTRY_SIZE)
+  ) {
     return null;
   }
 
-  let best = readDirectoryEntry(reader);
-
-  for (let i = 1; i < count; i++) {
-    const entry = readDirectoryEntry(reader);
-    if (isBetter(entry, best)) {
-      best = entry;
-    }
-  }
+  const cursor = type === CURSOR_TYPE;
+  const icons = Array.from({ length: count }, () =>
+    describeImage(buffer, readDirectoryEntry(reader, cursor))
+  );
+  const best = icons.reduce((best, image) => (isBetter(image, best) ? image : best));
 
   return {
     width: best.width,
     height: best.height,
-    type: 'ico',
-    mime: 'image/x-icon',
+    type: cursor ? 'cur' : 'ico',
+    mime: cursor ? 'image/x-win-bitmap' : 'image/x-icon',
     wUnits: 'px',
     hUnits: 'px',
+    ...defined({
+      hotspot:
+        best.hotspotX !== undefined && best.hotspotY !== undefined
+          ? { x: best.hotspotX, y: best.hotspotY }
+          : undefined,
+    }),
+    icons,
   };
 }
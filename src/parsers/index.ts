@@ -6,7 +6,22 @@ import { parseBMP } from './bmp.js';
 import { parseSVG } from './svg.js';
 import { parseAVIF } from './avif.js';
 import { parseICO } from './ico.js';
-import type { ParseResult } from '../types.js';
+import { parseTIFF } from './tiff.js';
+import { parseJXL } from './jxl.js';
+import { parseJP2 } from './jp2.js';
+import { parsePSD } from './psd.js';
+import { parseNetpbm } from './netpbm.js';
+import { parseTGA } from './tga.js';
+import { parseDDS } from './dds.js';
+import { parseKTX } from './ktx.js';
+import { parseEXR } from './exr.js';
+import { parseRadiance } from './radiance.js';
+import { parseICNS } from './icns.js';
+import { parseANI } from './ani.js';
+import { parseRAW } from './raw.js';
+import { parseRAF } from './raf.js';
+import { parseCR3 } from './cr3.js';
+import type { ParseOptions, ParseResult } from '../types.js';
 import { detectFormat, getAllParsers } from '../utils/detector.js';
 
 /**
@@ -14,7 +29,7 @@ import { detectFormat, getAllParsers } from '../utils/detector.js';
  * First attempts to detect the format, then uses the appropriate parser
  * Falls back to trying all parsers if detection fails
  */
-export function parseImage(buffer: Buffer): ParseResult | null {
+export function parseImage(buffer: Buffer, options: ParseOptions = {}): ParseResult | null {
   const detected = detectFormat(buffer);
 
   // Detection only sniffs a short prefix, so fall back to every parser for
@@ -24,7 +39,7 @@ export function parseImage(buffer: Buffer): ParseResult | null {
 
   for (const parse of candidates) {
     try {
-      const result = parse(buffer);
+      const result = parse(buffer, options);
       if (result) {
         return result;
       }
@@ -37,4 +52,28 @@ export function parseImage(buffer: Buffer): ParseResult | null {
 }
 
 // Re-export individual parsers
-export { parseJPEG, parsePNG, parseGIF, parseWebP, parseBMP, parseSVG, parseAVIF, parseICO };
+export {
+  parseJPEG,
+  parsePNG,
+  parseGIF,
+  parseWebP,
+  parseBMP,
+  parseSVG,
+  parseAVIF,
+  parseICO,
+  parseTIFF,
+  parseJXL,
+  parseJP2,
+  parsePSD,
+  parseNetpbm,
+  parseTGA,
+  parseDDS,
+  parseKTX,
+  parseEXR,
+  parseRadiance,
+  parseICNS,
+  parseANI,
+  parseRAW,
+  parseRAF,
+  parseCR3,
+};
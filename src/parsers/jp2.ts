@@ -0,0 +1,316 @@
+import { defined, type Jp2Info, type ParseResult, type Resolution } from '../types.js';
+import { BufferReader } from '../utils/buffer-reader.js';
+import { identifyIccProfile } from '../utils/color-space.js';
+import { findBox, parseBox } from '../utils/isobmff.js';
+
+/** JPEG 2000 signature box that opens every JP2-family file */
+const SIGNATURE_BOX = Buffer.from([
+  0x00, 0x00, 0x00, 0x0c, 0x6a, 0x50, 0x20, 0x20, 0x0d, 0x0a, 0x87, 0x0a,
+]);
+
+/** SOC marker followed by the SIZ marker, opening every J2K codestream */
+const CODESTREAM_SIGNATURE = Buffer.from([0xff, 0x4f, 0xff, 0x51]);
+
+/** Metres per inch, for converting resolution boxes to DPI */
+const METRES_PER_INCH = 0.0254;
+
+/**
+ * Image type and MIME type per ftyp brand
+ */
+const FILE_TYPE_BY_BRAND: Record<string, { type: string; mime: string }> = {
+  'jp2 ': { type: 'jp2', mime: 'image/jp2' },
+  'jpx ': { type: 'jpx', mime: 'image/jpx' },
+  'jpm ': { type: 'jpm', mime: 'image/jpm' },
+};
+
+/**
+ * Color space per colr EnumCS value
+ */
+const COLOR_SPACE_BY_ENUM: Record<number, string> = {
+  12: 'CMYK',
+  14: 'Lab',
+  16: 'sRGB',
+  17: 'Grayscale',
+  18: 'sYCC',
+  21: 'ProPhoto RGB', // ROMM-RGB
+};
+
+/**
+ * Image properties shared by the header box and the codestream SIZ marker
+ */
+interface ImageHeader {
+  width: number;
+  height: number;
+  channels: number;
+  bitDepth?: number;
+}
+
+/**
+ * Parse the SIZ marker segment that follows SOC at the start of a codestream
+ */
+function parseSIZ(codestream: Buffer): ImageHeader | null {
+  if (codestream.length < 42 || !codestream.subarray(0, 4).equals(CODESTREAM_SIGNATURE)) {
+    return null;
+  }
+
+  const reader = new BufferReader(codestream);
+  reader.seek(8); // SOC, SIZ marker, Lsiz and Rsiz
+  const xSize = reader.readUInt32();
+  const ySize = reader.readUInt32();
+  const xOffset = reader.readUInt32();
+  const yOffset = reader.readUInt32();
+  reader.skip(16); // Tile size and tile offset
+  const components = reader.readUInt16();
+
+  // Ssiz holds bit depth minus one, with the top bit flagging signed samples
+  const precision = reader.canRead(1) ? (reader.readUInt8() & 0x7f) + 1 : undefined;
+
+  return {
+    width: xSize - xOffset,
+    height: ySize - yOffset,
+    channels: components,
+    ...defined({ bitDepth: precision }),
+  };
+}
+
+/**
+ * Parse ihdr (Image Header) box
+ */
+function parseIhdr(reader: BufferReader, size: number): ImageHeader | null {
+  if (size < 14 || !reader.canRead(14)) {
+    return null;
+  }
+
+  const height = reader.readUInt32();
+  const width = reader.readUInt32();
+  const channels = reader.readUInt16();
+  const bitsPerComponent = reader.readUInt8();
+
+  return {
+    width,
+    height,
+    channels,
+    // 255 means components differ in depth and are described by a bpcc box
+    ...defined({
+      bitDepth: bitsPerComponent === 255 ? undefined : (bitsPerComponent & 0x7f) + 1,
+    }),
+  };
+}
+
+/**
+ * Parse colr (Colour Specification) box, either an enumerated colour space
+ * or an embedded ICC profile
+ */
+function parseColr(
+  reader: BufferReader,
+  size: number
+): { colorSpace?: string; iccProfile?: string } {
+  if (size < 7 || !reader.canRead(3)) {
+    return {};
+  }
+
+  const method = reader.readUInt8();
+  reader.skip(2); // Precedence and approximation
+
+  if (method === 1 && reader.canRead(4)) {
+    return defined({ colorSpace: COLOR_SPACE_BY_ENUM[reader.readUInt32()] });
+  }
+
+  // Methods 2 and 3 carry a restricted or unrestricted ICC profile
+  if ((method === 2 || method === 3) && reader.canRead(size - 3)) {
+    const profile = identifyIccProfile(reader.readBytes(size - 3));
+    return {
+      iccProfile: profile.iccProfile ?? 'Embedded ICC Profile',
+      ...defined({ colorSpace: profile.colorSpace }),
+    };
+  }
+
+  return {};
+}
+
+/**
+ * Parse a resc or resd box into DPI. Each axis is stored as a fraction of
+ * grid points per metre with a decimal exponent.
+ */
+function parseResolution(reader: BufferReader, size: number): Resolution | null {
+  if (size < 10 || !reader.canRead(10)) {
+    return null;
+  }
+
+  const verticalNumerator = reader.readUInt16();
+  const verticalDenominator = reader.readUInt16();
+  const horizontalNumerator = reader.readUInt16();
+  const horizontalDenominator = reader.readUInt16();
+  const verticalExponent = (reader.readUInt8() << 24) >> 24;
+  const horizontalExponent = (reader.readUInt8() << 24) >> 24;
+
+  if (verticalDenominator === 0 || horizontalDenominator === 0) {
+    return null;
+  }
+
+  const toDpi = (numerator: number, denominator: number, exponent: number) =>
+    Math.round((numerator / denominator) * 10 ** exponent * METRES_PER_INCH);
+
+  const wResolution = toDpi(horizontalNumerator, horizontalDenominator, horizontalExponent);
+  const hResolution = toDpi(verticalNumerator, verticalDenominator, verticalExponent);
+
+  return wResolution > 0 && hResolution > 0 ? { wResolution, hResolution } : null;
+}
+
+/**
+ * Parse the jp2h (JP2 Header) superbox
+ */
+function parseJp2h(
+  reader: BufferReader,
+  end: number
+): {
+  header: ImageHeader | null;
+  colour: { colorSpace?: string; iccProfile?: string };
+  resolutions: Jp2Info;
+} {
+  let header: ImageHeader | null = null;
+  let colour: { colorSpace?: string; iccProfile?: string } = {};
+  let captureResolution: Resolution | null = null;
+  let displayResolution: Resolution | null = null;
+
+  while (reader.getPosition() < end) {
+    const boxStart = reader.getPosition();
+    const box = parseBox(reader, end);
+    if (!box) {
+      break;
+    }
+
+    const dataSize = box.size - (box.dataOffset - boxStart);
+
+    switch (box.type) {
+      case 'ihdr':
+        header = parseIhdr(reader, dataSize);
+        break;
+
+      case 'colr':
+        // Only the first colr box is used; later ones are alternatives
+        if (!colour.colorSpace && !colour.iccProfile) {
+          colour = parseColr(reader, dataSize);
+        }
+        break;
+
+      case 'res ': {
+        const resEnd = box.dataOffset + dataSize;
+        const resc = findBox(reader, resEnd, 'resc');
+        if (resc) {
+          reader.seek(resc.position);
+          captureResolution = parseResolution(reader, resc.size);
+        }
+
+        reader.seek(box.dataOffset);
+        const resd = findBox(reader, resEnd, 'resd');
+        if (resd) {
+          reader.seek(resd.position);
+          displayResolution = parseResolution(reader, resd.size);
+        }
+        break;
+      }
+    }
+
+    reader.seek(boxStart + box.size);
+  }
+
+  return {
+    header,
+    colour,
+    resolutions: defined({
+      captureResolution: captureResolution ?? undefined,
+      displayResolution: displayResolution ?? undefined,
+    }),
+  };
+}
+
+/**
+ * Parse a JP2-family file: boxes up to the header, falling back to the
+ * codestream's SIZ marker when there is no header box
+ */
+function parseJp2File(buffer: Buffer): ParseResult | null {
+  const reader = new BufferReader(buffer);
+  reader.seek(SIGNATURE_BOX.length);
+
+  let fileType: { type: string; mime: string } | undefined;
+  let header: ImageHeader | null = null;
+  let colour: { colorSpace?: string; iccProfile?: string } = {};
+  let resolutions: Jp2Info = {};
+
+  while (reader.remaining() > 0) {
+    const boxStart = reader.getPosition();
+    // The codestream box usually runs past the bytes read, so do not bound
+    // boxes by the buffer
+    const box = parseBox(reader, Number.POSITIVE_INFINITY);
+    if (!box) {
+      break;
+    }
+
+    const boxEnd = boxStart + box.size;
+
+    if (box.type === 'ftyp' && reader.canRead(4)) {
+      fileType = FILE_TYPE_BY_BRAND[reader.readString(4)];
+    } else if (box.type === 'jp2h' && boxEnd <= buffer.length) {
+      ({ header, colour, resolutions } = parseJp2h(reader, boxEnd));
+    } else if (box.type === 'jp2c') {
+      header ??= parseSIZ(buffer.subarray(box.dataOffset, boxEnd));
+      break;
+    }
+
+    if (header || boxEnd > buffer.length) {
+      break;
+    }
+    reader.seek(boxEnd);
+  }
+
+  if (!header || header.width <= 0 || header.height <= 0) {
+    return null;
+  }
+
+  return {
+    width: header.width,
+    height: header.height,
+    type: fileType?.type ?? 'jp2',
+    mime: fileType?.mime ?? 'image/jp2',
+    wUnits: 'px',
+    hUnits: 'px',
+    ...defined({
+      // Capture resolution reflects the physical source, so it wins when both
+      // are present
+      ...(resolutions.captureResolution ?? resolutions.displayResolution),
+      ...colour,
+      bitDepth: header.bitDepth,
+      channels: header.channels > 0 ? header.channels : undefined,
+    }),
+    ...(Object.keys(resolutions).length > 0 ? { jp2: resolutions } : {}),
+  };
+}
+
+/**
+ * Parse JPEG 2000 image formats: JP2, JPX and JPM files, and bare J2K
+ * codestreams
+ */
+export function parseJP2(buffer: Buffer): ParseResult | null {
+  if (buffer.length >= SIGNATURE_BOX.length && buffer.subarray(0, 12).equals(SIGNATURE_BOX)) {
+    return parseJp2File(buffer);
+  }
+
+  const header = parseSIZ(buffer);
+  if (!header || header.width <= 0 || header.height <= 0) {
+    return null;
+  }
+
+  return {
+    width: header.width,
+    height: header.height,
+    type: 'j2k',
+    mime: 'image/j2c',
+    wUnits: 'px',
+    hUnits: 'px',
+    ...defined({
+      bitDepth: header.bitDepth,
+      channels: header.channels > 0 ? header.channels : undefined,
+    }),
+  };
+}
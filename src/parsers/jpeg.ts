@@ -1,6 +1,22 @@
-import { defined, type ParseResult } from '../types.js';
+import {
+  defined,
+  type EmbeddedImage,
+  type ExifInfo,
+  type GainMapInfo,
+  type ParseOptions,
+  type ParseResult,
+} from '../types.js';
 import { BufferReader } from '../utils/buffer-reader.js';
 import { getColorSpaceFromString, getColorSpaceFromTag } from '../utils/color-space.js';
+import { parseGainMapXmp, parseIsoGainMap, type GainMapMetadata } from '../utils/gain-map.js';
+import {
+  EXIF_IDENTIFIER,
+  orientedSize,
+  readExifBlock,
+  readExifInfo,
+  readOrientation,
+} from '../utils/exif.js';
+import { readBytes, readIfd, readResolution, readTiffHeader } from '../utils/ifd.js';
 
 /**
  * JPEG segment markers
@@ -14,6 +30,41 @@ const MARKERS = {
   APP14: 0xffee, // Application Specific (Adobe)
 } as const;
 
+/** Identifiers opening the APP1 and APP2 segments read besides EXIF and ICC profiles */
+const XMP_IDENTIFIER = 'http://ns.adobe.com/xap/1.0/\0';
+const MPF_IDENTIFIER = 'MPF\0';
+const ISO_GAIN_MAP_IDENTIFIER = 'urn:iso:std:iso:ts:21496:-1\0';
+
+/** MP Index IFD tag listing every image of a multi-picture file, 16 bytes each */
+const MP_ENTRY_TAG = 0xb002;
+const MP_ENTRY_SIZE = 16;
+
+/**
+ * MP type codes, the low 24 bits of an MP Entry's attributes
+ */
+const MP_TYPES: Record<number, string> = {
+  0x000000: 'unspecified',
+  0x010001: 'large-thumbnail-vga',
+  0x010002: 'large-thumbnail-full-hd',
+  0x020001: 'panorama',
+  0x020002: 'disparity',
+  0x020003: 'multi-angle',
+  0x030000: 'primary',
+};
+
+/**
+ * An image listed in an MP Entry
+ */
+interface MpfEntry {
+  /** MP type code */
+  type: number;
+  /** Image data format: 0 is JPEG */
+  format: number;
+  size: number;
+  /** Absolute offset; 0 for the base image */
+  offset: number;
+}
+
 /** Centimetres per inch, for converting densities to DPI */
 const CM_PER_INCH = 2.54;
 
@@ -73,117 +124,135 @@ function parseJFIF(reader: BufferReader): { wResolution?: number; hResolution?:
 }
 
 /**
- * EXIF/TIFF tags carrying resolution information
+ * Parse EXIF app1 segment for resolution and orientation, and camera details
+ * when `readDetails` is set
  */
-const EXIF_TAGS = {
-  X_RESOLUTION: 0x011a,
-  Y_RESOLUTION: 0x011b,
-  RESOLUTION_UNIT: 0x0128,
-} as const;
+function parseEXIF(
+  reader: BufferReader,
+  readDetails: boolean
+): { wResolution?: number; hResolution?: number; orientation?: number; details?: ExifInfo } {
+  // Check for EXIF identifier
+  if (!reader.canRead(6) || reader.readString(6) !== EXIF_IDENTIFIER) {
+    return {};
+  }
 
-/**
- * Read a TIFF RATIONAL (two uint32s) from an absolute offset, restoring the
- * reader's position afterwards
- */
-function readRational(reader: BufferReader, offset: number): number | undefined {
-  if (offset + 8 > reader.getBuffer().length) {
-    return undefined;
+  // IFD offsets are relative to the TIFF header that follows the identifier
+  const exif = readExifBlock(reader.getBuffer().subarray(reader.getPosition()));
+  if (!exif) {
+    return {};
   }
 
-  const saved = reader.getPosition();
-  reader.seek(offset);
-  const numerator = reader.readUInt32();
-  const denominator = reader.readUInt32();
-  reader.seek(saved);
+  return {
+    ...readResolution(exif.tiff, exif.header, exif.ifd0),
+    ...defined({
+      orientation: readOrientation(exif),
+      details: readDetails ? readExifInfo(exif) : undefined,
+    }),
+  };
+}
 
-  return denominator > 0 ? numerator / denominator : undefined;
+/**
+ * Check whether a segment opens with an identifier
+ */
+function hasIdentifier(segment: Buffer, identifier: string): boolean {
+  return segment.toString('latin1', 0, identifier.length) === identifier;
 }
 
 /**
- * Parse EXIF app1 segment for resolution information
+ * Parse an MPF (Multi-Picture Format) APP2 segment for the type, size and
+ * offset of each image it lists, the base image first. Offsets are relative
+ * to the TIFF header following the identifier, and made absolute with
+ * `headerOffset`.
  */
-function parseEXIF(reader: BufferReader): { wResolution?: number; hResolution?: number } {
-  // Check for EXIF identifier
-  if (!reader.canRead(6) || reader.readString(6) !== 'Exif\0\0') {
-    return {};
+function parseMPF(segment: Buffer, headerOffset: number): MpfEntry[] {
+  const tiff = segment.subarray(MPF_IDENTIFIER.length);
+  const header = readTiffHeader(tiff);
+  const ifd = header && !header.bigTiff ? readIfd(tiff, header, header.ifdOffset) : null;
+  const entries = ifd ? readBytes(tiff, ifd, MP_ENTRY_TAG) : undefined;
+  if (!header || !entries) {
+    return [];
   }
 
-  const tiffStart = reader.getPosition();
-  if (!reader.canRead(8)) {
-    return {};
+  const reader = new BufferReader(entries, header.littleEndian);
+  const images: MpfEntry[] = [];
+  while (reader.canRead(MP_ENTRY_SIZE)) {
+    // Flags in the top 3 bits, then the data format, then the type code
+    const attributes = reader.readUInt32();
+    const size = reader.readUInt32();
+    const offset = reader.readUInt32();
+    reader.skip(4); // Dependent image entries
+    images.push({
+      type: attributes & 0xffffff,
+      format: (attributes >>> 24) & 0x07,
+      size,
+      // The base image's offset is 0, as it starts the file
+      offset: offset > 0 ? headerOffset + offset : 0,
+    });
   }
 
-  // Check byte order (MM for big-endian, II for little-endian)
-  const byteOrder = reader.readString(2);
-  if (byteOrder !== 'II' && byteOrder !== 'MM') {
-    return {};
-  }
-  const isLittleEndian = byteOrder === 'II';
+  return images;
+}
 
-  // Create a new reader with proper endianness for TIFF data
-  const tiffReader = new BufferReader(reader.getBuffer(), isLittleEndian);
-  tiffReader.seek(tiffStart + 2);
-  if (tiffReader.readUInt16() !== 42) {
-    return {};
+/**
+ * Read a JPEG image an MPF segment lists after the base image, when it starts
+ * within the buffer. Its own segments are read for its size and any gain map
+ * metadata; MPF segments within it are not followed.
+ */
+function readMpfImage(buffer: Buffer, { format, offset }: MpfEntry): ParseResult | null {
+  if (format !== 0 || offset <= 0 || offset >= buffer.length) {
+    return null;
   }
 
-  // Read IFD offset
-  const ifdOffset = tiffReader.readUInt32() + tiffStart;
-  if (ifdOffset + 2 > reader.getBuffer().length) {
-    return {};
+  try {
+    return scanJPEG(buffer.subarray(offset), false);
+  } catch {
+    return null;
   }
+}
 
-  tiffReader.seek(ifdOffset);
-
-  // Read number of directory entries
-  const numEntries = tiffReader.readUInt16();
-
-  let xResolution: number | undefined;
-  let yResolution: number | undefined;
-  let resolutionUnit = 2; // Default to inches
-
-  // Parse IFD entries
-  for (let i = 0; i < numEntries; i++) {
-    if (!tiffReader.canRead(12)) break;
-
-    const tag = tiffReader.readUInt16();
-    const type = tiffReader.readUInt16();
-    const count = tiffReader.readUInt32();
-    const valueOffset = tiffReader.readUInt32();
-
-    if (type === 5 && count === 1 && tag === EXIF_TAGS.X_RESOLUTION) {
-      xResolution = readRational(tiffReader, valueOffset + tiffStart) ?? xResolution;
-    } else if (type === 5 && count === 1 && tag === EXIF_TAGS.Y_RESOLUTION) {
-      yResolution = readRational(tiffReader, valueOffset + tiffStart) ?? yResolution;
-    } else if (type === 3 && count === 1 && tag === EXIF_TAGS.RESOLUTION_UNIT) {
-      // A SHORT with count 1 is stored in the first 2 bytes of the value field
-      resolutionUnit = isLittleEndian ? valueOffset & 0xffff : valueOffset >>> 16;
+/**
+ * Describe the images an MPF segment lists, and find the gain map among them:
+ * the first image after the base image whose own metadata describes a gain
+ * map. Its size and parameters are added to what the base image declares.
+ */
+function readMpfImages(
+  buffer: Buffer,
+  entries: readonly MpfEntry[],
+  base: { width: number; height: number },
+  metadata: GainMapMetadata | undefined
+): { embeddedImages: EmbeddedImage[]; gainMap: GainMapInfo | undefined } {
+  let gainMap: GainMapInfo | undefined;
+
+  const embeddedImages = entries.map((entry, index) => {
+    const image = index === 0 ? null : readMpfImage(buffer, entry);
+    if (image?.gainMap && !gainMap) {
+      gainMap = { width: image.width, height: image.height, ...metadata, ...image.gainMap };
     }
-  }
-
-  if (!xResolution || !yResolution) {
-    return {};
-  }
 
-  // Unit 3 is centimetres, unit 2 is inches; anything else is unitless
-  if (resolutionUnit === 3) {
+    const size = index === 0 ? base : image;
     return {
-      wResolution: Math.round(xResolution * CM_PER_INCH),
-      hResolution: Math.round(yResolution * CM_PER_INCH),
+      type: MP_TYPES[entry.type] ?? `0x${entry.type.toString(16).padStart(6, '0')}`,
+      size: entry.size,
+      offset: entry.offset,
+      ...defined({ width: size?.width, height: size?.height }),
     };
-  }
-
-  if (resolutionUnit === 2) {
-    return { wResolution: Math.round(xResolution), hResolution: Math.round(yResolution) };
-  }
+  });
 
-  return {};
+  return { embeddedImages, gainMap: gainMap ?? metadata };
 }
 
 /**
  * Parse JPEG image format
  */
-export function parseJPEG(buffer: Buffer): ParseResult | null {
+export function parseJPEG(buffer: Buffer, options: ParseOptions = {}): ParseResult | null {
+  return scanJPEG(buffer, true, options.exif ?? false);
+}
+
+/**
+ * Read a JPEG up to its frame header. The images an MPF segment lists are
+ * read when `followImages` is set, and EXIF camera details when `readExif` is.
+ */
+function scanJPEG(buffer: Buffer, followImages: boolean, readExif = false): ParseResult | null {
   if (buffer.length < 4) {
     return null;
   }
@@ -199,6 +268,11 @@ export function parseJPEG(buffer: Buffer): ParseResult | null {
   let hResolution: number | undefined;
   let colorSpace: string | undefined;
   let iccProfile: string | undefined;
+  let orientation: number | undefined;
+  let exifDetails: ExifInfo | undefined;
+  let xmpGainMap: GainMapMetadata | null = null;
+  let isoGainMap: GainMapMetadata | null = null;
+  let images: MpfEntry[] = [];
 
   while (reader.remaining() > 1) {
     // Find next marker
@@ -257,12 +331,17 @@ export function parseJPEG(buffer: Buffer): ParseResult | null {
     // Parse EXIF segment for resolution (prefer EXIF over JFIF)
     if (marker === MARKERS.APP1) {
       const segment = buffer.subarray(segmentStart, segmentStart + segmentLength - 2);
-      const resolution = parseEXIF(new BufferReader(segment));
+      if (hasIdentifier(segment, XMP_IDENTIFIER)) {
+        xmpGainMap ??= parseGainMapXmp(segment.toString('utf8', XMP_IDENTIFIER.length));
+      }
+      const exif = parseEXIF(new BufferReader(segment), readExif);
       // EXIF resolution takes precedence over JFIF
-      if (resolution.wResolution !== undefined) {
-        wResolution = resolution.wResolution;
-        hResolution = resolution.hResolution;
+      if (exif.wResolution !== undefined) {
+        wResolution = exif.wResolution;
+        hResolution = exif.hResolution;
       }
+      orientation ??= exif.orientation;
+      exifDetails ??= exif.details;
     }
 
     // Parse APP2 for ICC profile
@@ -304,6 +383,14 @@ export function parseJPEG(buffer: Buffer): ParseResult | null {
           }
         }
       } else {
+        // Multi-picture and gain map segments share APP2 with ICC profiles
+        const segment = buffer.subarray(segmentStart, segmentStart + segmentLength - 2);
+        if (hasIdentifier(segment, MPF_IDENTIFIER)) {
+          images = parseMPF(segment, segmentStart + MPF_IDENTIFIER.length);
+        } else if (hasIdentifier(segment, ISO_GAIN_MAP_IDENTIFIER)) {
+          isoGainMap = parseIsoGainMap(segment.subarray(ISO_GAIN_MAP_IDENTIFIER.length));
+        }
+
         // Rewind if not ICC profile
         reader.seek(segmentStart);
       }
@@ -357,6 +444,13 @@ export function parseJPEG(buffer: Buffer): ParseResult | null {
           colorSpace = COLOR_SPACE_BY_COMPONENTS[components];
         }
 
+        // Both metadata forms may be present; the XMP properties are kept where they overlap
+        const metadata = xmpGainMap || isoGainMap ? { ...isoGainMap, ...xmpGainMap } : undefined;
+        const { embeddedImages, gainMap } =
+          followImages && images.length > 0
+            ? readMpfImages(buffer, images, { width, height }, metadata)
+            : { embeddedImages: undefined, gainMap: metadata };
+
         return {
           width,
           height,
@@ -372,7 +466,12 @@ export function parseJPEG(buffer: Buffer): ParseResult | null {
             hResolution,
             colorSpace,
             iccProfile,
+            orientation,
+            gainMap,
+            embeddedImages,
+            exif: exifDetails && Object.keys(exifDetails).length > 0 ? exifDetails : undefined,
           }),
+          ...(orientation ? orientedSize(width, height, orientation) : {}),
         };
       }
     }
@@ -0,0 +1,419 @@
+import { defined, type ParseResult } from '../types.js';
+import { BitReader } from '../utils/bit-reader.js';
+import { BufferReader } from '../utils/buffer-reader.js';
+import { parseBox } from '../utils/isobmff.js';
+
+/** Signature of a bare JPEG XL codestream */
+const CODESTREAM_SIGNATURE = Buffer.from([0xff, 0x0a]);
+
+/** Signature box that opens a JPEG XL ISOBMFF container */
+const CONTAINER_SIGNATURE = Buffer.from([
+  0x00, 0x00, 0x00, 0x0c, 0x4a, 0x58, 0x4c, 0x20, 0x0d, 0x0a, 0x87, 0x0a,
+]);
+
+/**
+ * One of the four encodings a JPEG XL U32 field can select: a number of bits
+ * to read (0 for a constant) and an offset added to them
+ */
+type Distribution = readonly [bits: number, offset: number];
+
+type U32Distributions = readonly [Distribution, Distribution, Distribution, Distribution];
+
+/** Image dimensions beyond the multiple-of-8 shortcut */
+const SIZE: U32Distributions = [
+  [9, 1],
+  [13, 1],
+  [18, 1],
+  [30, 1],
+];
+
+/** Enumerated values */
+const ENUM: U32Distributions = [
+  [0, 0],
+  [0, 1],
+  [4, 2],
+  [6, 18],
+];
+
+/** Width:height ratios selectable instead of an explicit width */
+const ASPECT_RATIOS: Record<number, readonly [number, number]> = {
+  1: [1, 1],
+  2: [12, 10],
+  3: [4, 3],
+  4: [3, 2],
+  5: [16, 9],
+  6: [5, 4],
+  7: [2, 1],
+};
+
+/** ColourEncoding colour_space values */
+const COLOUR_SPACE = { RGB: 0, GREY: 1, XYB: 2 } as const;
+
+/** Custom white point and primaries are followed by CIE xy coordinates */
+const CUSTOM = 2;
+
+/** Primaries value shared by Display P3 and DCI-P3 */
+const PRIMARIES_P3 = 11;
+
+/** White point value for the DCI-P3 theatre white */
+const WHITE_POINT_DCI = 11;
+
+/** Extra channel type carrying alpha */
+const EXTRA_CHANNEL_ALPHA = 0;
+
+/** Extra channel type carrying a spot colour, followed by four F16 values */
+const EXTRA_CHANNEL_SPOT_COLOUR = 2;
+
+/** Extra channel type carrying a colour filter array channel */
+const EXTRA_CHANNEL_CFA = 5;
+
+/**
+ * Color space implied by the ColourEncoding primaries of an RGB image
+ */
+const COLOR_SPACE_BY_PRIMARIES: Record<number, string> = {
+  1: 'sRGB',
+  9: 'Rec. 2020',
+  11: 'Display P3',
+};
+
+/**
+ * Read a U32 field: a 2-bit selector choosing one of four distributions
+ */
+function readU32(bits: BitReader, distributions: U32Distributions): number {
+  const [count, offset] = distributions[bits.readBits(2)] ?? [0, 0];
+  return bits.readBits(count) + offset;
+}
+
+/**
+ * Read a SizeHeader, where a width given as a ratio is derived from the height
+ */
+function readSizeHeader(bits: BitReader): { width: number; height: number } {
+  const small = bits.readBool();
+  const height = small ? (bits.readBits(5) + 1) * 8 : readU32(bits, SIZE);
+  const ratio = ASPECT_RATIOS[bits.readBits(3)];
+
+  if (ratio) {
+    return { width: Math.floor((height * ratio[0]) / ratio[1]), height };
+  }
+
+  const width = small ? (bits.readBits(5) + 1) * 8 : readU32(bits, SIZE);
+  return { width, height };
+}
+
+/**
+ * Skip a PreviewHeader
+ */
+function skipPreviewHeader(bits: BitReader): void {
+  const div8 = bits.readBool();
+  const dimension: U32Distributions = div8
+    ? [
+        [0, 16],
+        [0, 32],
+        [5, 1],
+        [9, 33],
+      ]
+    : [
+        [6, 1],
+        [8, 65],
+        [10, 321],
+        [12, 1345],
+      ];
+
+  readU32(bits, dimension);
+  if (bits.readBits(3) === 0) {
+    readU32(bits, dimension);
+  }
+}
+
+/**
+ * Skip an AnimationHeader
+ */
+function skipAnimationHeader(bits: BitReader): void {
+  readU32(bits, [
+    [0, 100],
+    [0, 1000],
+    [10, 1],
+    [30, 1],
+  ]); // tps_numerator
+  readU32(bits, [
+    [0, 1],
+    [0, 1001],
+    [8, 1],
+    [10, 1],
+  ]); // tps_denominator
+  readU32(bits, [
+    [0, 0],
+    [3, 0],
+    [16, 0],
+    [32, 0],
+  ]); // num_loops
+  bits.skipBits(1); // have_timecodes
+}
+
+/**
+ * Read a BitDepth bundle, returning bits per sample
+ */
+function readBitDepth(bits: BitReader): number {
+  if (!bits.readBool()) {
+    return readU32(bits, [
+      [0, 8],
+      [0, 10],
+      [0, 12],
+      [6, 1],
+    ]);
+  }
+
+  // Floating-point samples also declare their exponent width
+  const bitsPerSample = readU32(bits, [
+    [0, 32],
+    [0, 16],
+    [0, 24],
+    [6, 1],
+  ]);
+  bits.skipBits(4);
+  return bitsPerSample;
+}
+
+/**
+ * Read an ExtraChannelInfo bundle, returning whether it is an alpha channel
+ */
+function readExtraChannel(bits: BitReader): boolean {
+  if (bits.readBool()) {
+    return true; // All defaults: an 8-bit alpha channel
+  }
+
+  const type = readU32(bits, ENUM);
+  readBitDepth(bits);
+  readU32(bits, [
+    [0, 0],
+    [0, 3],
+    [0, 4],
+    [3, 1],
+  ]); // dim_shift
+  const nameLength = readU32(bits, [
+    [0, 0],
+    [4, 0],
+    [5, 16],
+    [10, 48],
+  ]);
+  bits.skipBits(nameLength * 8);
+
+  if (type === EXTRA_CHANNEL_ALPHA) {
+    bits.skipBits(1); // alpha_associated
+  } else if (type === EXTRA_CHANNEL_SPOT_COLOUR) {
+    bits.skipBits(64);
+  } else if (type === EXTRA_CHANNEL_CFA) {
+    readU32(bits, [
+      [0, 1],
+      [2, 0],
+      [4, 3],
+      [8, 19],
+    ]);
+  }
+
+  return type === EXTRA_CHANNEL_ALPHA;
+}
+
+/**
+ * Skip a CIE xy coordinate pair
+ */
+function skipCustomXY(bits: BitReader): void {
+  for (let i = 0; i < 2; i++) {
+    readU32(bits, [
+      [19, 0],
+      [19, 524288],
+      [20, 1048576],
+      [21, 2097152],
+    ]);
+  }
+}
+
+/**
+ * Read the ColourEncoding bundle. An ICC profile is entropy-coded after the
+ * headers, so only its presence is reported.
+ */
+function readColourEncoding(bits: BitReader): {
+  grey: boolean;
+  colorSpace?: string;
+  iccProfile?: string;
+} {
+  if (bits.readBool()) {
+    return { grey: false, colorSpace: 'sRGB' };
+  }
+
+  const wantIcc = bits.readBool();
+  const colourSpace = readU32(bits, ENUM);
+  const grey = colourSpace === COLOUR_SPACE.GREY;
+
+  if (wantIcc) {
+    return {
+      grey,
+      iccProfile: 'Embedded ICC Profile',
+      ...defined({ colorSpace: grey ? 'Grayscale' : undefined }),
+    };
+  }
+
+  if (colourSpace === COLOUR_SPACE.XYB) {
+    return { grey };
+  }
+
+  const whitePoint = readU32(bits, ENUM);
+  if (whitePoint === CUSTOM) {
+    skipCustomXY(bits);
+  }
+
+  if (grey) {
+    return { grey, colorSpace: 'Grayscale' };
+  }
+
+  const primaries = readU32(bits, ENUM);
+  const colorSpace =
+    colourSpace !== COLOUR_SPACE.RGB
+      ? undefined
+      : primaries === PRIMARIES_P3 && whitePoint === WHITE_POINT_DCI
+        ? 'DCI-P3'
+        : COLOR_SPACE_BY_PRIMARIES[primaries];
+
+  return { grey, ...defined({ colorSpace }) };
+}
+
+/**
+ * Parse the SizeHeader and ImageMetadata at the start of a codestream
+ */
+function parseCodestream(codestream: Buffer): ParseResult | null {
+  if (codestream.length < 3 || !codestream.subarray(0, 2).equals(CODESTREAM_SIGNATURE)) {
+    return null;
+  }
+
+  const bits = new BitReader(codestream, 2);
+  let size: { width: number; height: number };
+  try {
+    size = readSizeHeader(bits);
+  } catch {
+    return null;
+  }
+
+  const { width, height } = size;
+  if (width <= 0 || height <= 0) {
+    return null;
+  }
+
+  let bitDepth: number | undefined;
+  let hasAlpha: boolean | undefined;
+  let colour: ReturnType<typeof readColourEncoding> | undefined;
+
+  // The size is all a caller strictly needs, so metadata cut short by the end
+  // of the buffer is reported only as far as it was read
+  try {
+    if (bits.readBool()) {
+      // All defaults: 8-bit sRGB without extra channels
+      bitDepth = 8;
+      hasAlpha = false;
+      colour = { grey: false, colorSpace: 'sRGB' };
+    } else {
+      const extraFields = bits.readBool();
+      if (extraFields) {
+        bits.skipBits(3); // orientation
+        if (bits.readBool()) readSizeHeader(bits); // intrinsic size
+        if (bits.readBool()) skipPreviewHeader(bits);
+        if (bits.readBool()) skipAnimationHeader(bits);
+      }
+
+      bitDepth = readBitDepth(bits);
+      bits.skipBits(1); // modular_16_bit_buffer_sufficient
+
+      const extraChannels = readU32(bits, [
+        [0, 0],
+        [0, 1],
+        [4, 2],
+        [12, 1],
+      ]);
+      let alpha = false;
+      for (let i = 0; i < extraChannels; i++) {
+        alpha = readExtraChannel(bits) || alpha;
+      }
+      hasAlpha = alpha;
+
+      bits.skipBits(1); // xyb_encoded
+      colour = readColourEncoding(bits);
+    }
+  } catch {
+    // Keep whatever was read before the data ran out
+  }
+
+  return {
+    width,
+    height,
+    type: 'jxl',
+    mime: 'image/jxl',
+    wUnits: 'px',
+    hUnits: 'px',
+    ...defined({
+      colorSpace: colour?.colorSpace,
+      iccProfile: colour?.iccProfile,
+      bitDepth,
+      channels: colour ? (colour.grey ? 1 : 3) + (hasAlpha ? 1 : 0) : undefined,
+      hasAlpha,
+    }),
+  };
+}
+
+/**
+ * Collect the codestream from the jxlc box, or the jxlp boxes it is split
+ * across, of a JPEG XL container
+ */
+function readContainerCodestream(buffer: Buffer): Buffer | null {
+  const reader = new BufferReader(buffer);
+  reader.seek(CONTAINER_SIGNATURE.length);
+  const parts: Buffer[] = [];
+
+  while (reader.remaining() > 0) {
+    const boxStart = reader.getPosition();
+    // The codestream box usually runs past the bytes read, so do not bound
+    // boxes by the buffer
+    const box = parseBox(reader, Number.POSITIVE_INFINITY);
+    if (!box) {
+      break;
+    }
+
+    const boxEnd = boxStart + box.size;
+    if (box.type === 'jxlc') {
+      return buffer.subarray(box.dataOffset, boxEnd);
+    }
+
+    if (box.type === 'jxlp') {
+      // Each part starts with a 4-byte sequence index
+      parts.push(buffer.subarray(box.dataOffset + 4, boxEnd));
+    }
+
+    if (boxEnd > buffer.length) {
+      break;
+    }
+    reader.seek(boxEnd);
+  }
+
+  return parts.length > 0 ? Buffer.concat(parts) : null;
+}
+
+/**
+ * Parse JPEG XL image format, either a bare codestream or an ISOBMFF container
+ */
+export function parseJXL(buffer: Buffer): ParseResult | null {
+  if (buffer.length < 3) {
+    return null;
+  }
+
+  if (buffer.subarray(0, 2).equals(CODESTREAM_SIGNATURE)) {
+    return parseCodestream(buffer);
+  }
+
+  if (
+    buffer.length < CONTAINER_SIGNATURE.length ||
+    !buffer.subarray(0, CONTAINER_SIGNATURE.length).equals(CONTAINER_SIGNATURE)
+  ) {
+    return null;
+  }
+
+  const codestream = readContainerCodestream(buffer);
+  return codestream ? parseCodestream(codestream) : null;
+}
@@ -0,0 +1,364 @@
+import { defined, type ParseResult, type TextureInfo } from '../types.js';
+import { BufferReader } from '../utils/buffer-reader.js';
+
+/** KTX 1 file identifier: «KTX 11»\r\n\x1A\n */
+const KTX1_IDENTIFIER = Buffer.from([
+  0xab, 0x4b, 0x54, 0x58, 0x20, 0x31, 0x31, 0xbb, 0x0d, 0x0a, 0x1a, 0x0a,
+]);
+
+/** KTX 2 file identifier: «KTX 20»\r\n\x1A\n */
+const KTX2_IDENTIFIER = Buffer.from([
+  0xab, 0x4b, 0x54, 0x58, 0x20, 0x32, 0x30, 0xbb, 0x0d, 0x0a, 0x1a, 0x0a,
+]);
+
+/** KTX 1 endianness marker as written by the file's producer */
+const KTX1_ENDIANNESS = 0x04030201;
+
+/** Size of the KTX 1 header */
+const KTX1_HEADER_SIZE = 64;
+
+/** Size of the KTX 2 header up to and including the DFD location */
+const KTX2_HEADER_SIZE = 56;
+
+/** Cubemaps store six faces */
+const CUBEMAP_FACES = 6;
+
+/**
+ * Compressed OpenGL internal formats, by glInternalFormat
+ */
+const GL_COMPRESSED_FORMATS: Record<number, string> = {
+  0x83f0: 'COMPRESSED_RGB_S3TC_DXT1_EXT',
+  0x83f1: 'COMPRESSED_RGBA_S3TC_DXT1_EXT',
+  0x83f2: 'COMPRESSED_RGBA_S3TC_DXT3_EXT',
+  0x83f3: 'COMPRESSED_RGBA_S3TC_DXT5_EXT',
+  0x8c4c: 'COMPRESSED_SRGB_S3TC_DXT1_EXT',
+  0x8c4d: 'COMPRESSED_SRGB_ALPHA_S3TC_DXT1_EXT',
+  0x8c4e: 'COMPRESSED_SRGB_ALPHA_S3TC_DXT3_EXT',
+  0x8c4f: 'COMPRESSED_SRGB_ALPHA_S3TC_DXT5_EXT',
+  0x8dbb: 'COMPRESSED_RED_RGTC1',
+  0x8dbc: 'COMPRESSED_SIGNED_RED_RGTC1',
+  0x8dbd: 'COMPRESSED_RG_RGTC2',
+  0x8dbe: 'COMPRESSED_SIGNED_RG_RGTC2',
+  0x8e8c: 'COMPRESSED_RGBA_BPTC_UNORM',
+  0x8e8d: 'COMPRESSED_SRGB_ALPHA_BPTC_UNORM',
+  0x8e8e: 'COMPRESSED_RGB_BPTC_SIGNED_FLOAT',
+  0x8e8f: 'COMPRESSED_RGB_BPTC_UNSIGNED_FLOAT',
+  0x8d64: 'ETC1_RGB8_OES',
+  0x9270: 'COMPRESSED_R11_EAC',
+  0x9271: 'COMPRESSED_SIGNED_R11_EAC',
+  0x9272: 'COMPRESSED_RG11_EAC',
+  0x9273: 'COMPRESSED_SIGNED_RG11_EAC',
+  0x9274: 'COMPRESSED_RGB8_ETC2',
+  0x9275: 'COMPRESSED_SRGB8_ETC2',
+  0x9276: 'COMPRESSED_RGB8_PUNCHTHROUGH_ALPHA1_ETC2',
+  0x9277: 'COMPRESSED_SRGB8_PUNCHTHROUGH_ALPHA1_ETC2',
+  0x9278: 'COMPRESSED_RGBA8_ETC2_EAC',
+  0x9279: 'COMPRESSED_SRGB8_ALPHA8_ETC2_EAC',
+  0x8c00: 'COMPRESSED_RGB_PVRTC_4BPPV1_IMG',
+  0x8c01: 'COMPRESSED_RGB_PVRTC_2BPPV1_IMG',
+  0x8c02: 'COMPRESSED_RGBA_PVRTC_4BPPV1_IMG',
+  0x8c03: 'COMPRESSED_RGBA_PVRTC_2BPPV1_IMG',
+};
+
+/** ASTC block footprints in enum order, shared by OpenGL and Vulkan */
+const ASTC_BLOCKS = [
+  '4x4',
+  '5x4',
+  '5x5',
+  '6x5',
+  '6x6',
+  '8x5',
+  '8x6',
+  '8x8',
+  '10x5',
+  '10x6',
+  '10x8',
+  '10x10',
+  '12x10',
+  '12x12',
+] as const;
+
+ASTC_BLOCKS.forEach((block, i) => {
+  GL_COMPRESSED_FORMATS[0x93b0 + i] = `COMPRESSED_RGBA_ASTC_${block}_KHR`;
+  GL_COMPRESSED_FORMATS[0x93d0 + i] = `COMPRESSED_SRGB8_ALPHA8_ASTC_${block}_KHR`;
+});
+
+/**
+ * Common uncompressed OpenGL sized internal formats, by glInternalFormat
+ */
+const GL_FORMATS: Record<number, string> = {
+  0x8229: 'R8',
+  0x822b: 'RG8',
+  0x8051: 'RGB8',
+  0x8058: 'RGBA8',
+  0x8c41: 'SRGB8',
+  0x8c43: 'SRGB8_ALPHA8',
+  0x822d: 'R16F',
+  0x822f: 'RG16F',
+  0x881b: 'RGB16F',
+  0x881a: 'RGBA16F',
+  0x822e: 'R32F',
+  0x8230: 'RG32F',
+  0x8815: 'RGB32F',
+  0x8814: 'RGBA32F',
+  0x8c3a: 'R11F_G11F_B10F',
+  0x8c3d: 'RGB9_E5',
+  0x8059: 'RGB10_A2',
+};
+
+/**
+ * Common uncompressed Vulkan formats, by vkFormat
+ */
+const VK_FORMATS: Record<number, string> = {
+  9: 'R8_UNORM',
+  10: 'R8_SNORM',
+  15: 'R8_SRGB',
+  16: 'R8G8_UNORM',
+  23: 'R8G8B8_UNORM',
+  29: 'R8G8B8_SRGB',
+  37: 'R8G8B8A8_UNORM',
+  38: 'R8G8B8A8_SNORM',
+  43: 'R8G8B8A8_SRGB',
+  44: 'B8G8R8A8_UNORM',
+  50: 'B8G8R8A8_SRGB',
+  64: 'A2B10G10R10_UNORM_PACK32',
+  70: 'R16_UNORM',
+  76: 'R16_SFLOAT',
+  77: 'R16G16_UNORM',
+  83: 'R16G16_SFLOAT',
+  91: 'R16G16B16A16_UNORM',
+  97: 'R16G16B16A16_SFLOAT',
+  100: 'R32_SFLOAT',
+  103: 'R32G32_SFLOAT',
+  106: 'R32G32B32_SFLOAT',
+  109: 'R32G32B32A32_SFLOAT',
+  122: 'B10G11R11_UFLOAT_PACK32',
+  123: 'E5B9G9R9_UFLOAT_PACK32',
+};
+
+/**
+ * Block-compressed Vulkan formats, by vkFormat
+ */
+const VK_COMPRESSED_FORMATS: Record<number, string> = {
+  131: 'BC1_RGB_UNORM_BLOCK',
+  132: 'BC1_RGB_SRGB_BLOCK',
+  133: 'BC1_RGBA_UNORM_BLOCK',
+  134: 'BC1_RGBA_SRGB_BLOCK',
+  135: 'BC2_UNORM_BLOCK',
+  136: 'BC2_SRGB_BLOCK',
+  137: 'BC3_UNORM_BLOCK',
+  138: 'BC3_SRGB_BLOCK',
+  139: 'BC4_UNORM_BLOCK',
+  140: 'BC4_SNORM_BLOCK',
+  141: 'BC5_UNORM_BLOCK',
+  142: 'BC5_SNORM_BLOCK',
+  143: 'BC6H_UFLOAT_BLOCK',
+  144: 'BC6H_SFLOAT_BLOCK',
+  145: 'BC7_UNORM_BLOCK',
+  146: 'BC7_SRGB_BLOCK',
+  147: 'ETC2_R8G8B8_UNORM_BLOCK',
+  148: 'ETC2_R8G8B8_SRGB_BLOCK',
+  149: 'ETC2_R8G8B8A1_UNORM_BLOCK',
+  150: 'ETC2_R8G8B8A1_SRGB_BLOCK',
+  151: 'ETC2_R8G8B8A8_UNORM_BLOCK',
+  152: 'ETC2_R8G8B8A8_SRGB_BLOCK',
+  153: 'EAC_R11_UNORM_BLOCK',
+  154: 'EAC_R11_SNORM_BLOCK',
+  155: 'EAC_R11G11_UNORM_BLOCK',
+  156: 'EAC_R11G11_SNORM_BLOCK',
+  1000054000: 'PVRTC1_2BPP_UNORM_BLOCK_IMG',
+  1000054001: 'PVRTC1_4BPP_UNORM_BLOCK_IMG',
+  1000054002: 'PVRTC2_2BPP_UNORM_BLOCK_IMG',
+  1000054003: 'PVRTC2_4BPP_UNORM_BLOCK_IMG',
+  1000054004: 'PVRTC1_2BPP_SRGB_BLOCK_IMG',
+  1000054005: 'PVRTC1_4BPP_SRGB_BLOCK_IMG',
+  1000054006: 'PVRTC2_2BPP_SRGB_BLOCK_IMG',
+  1000054007: 'PVRTC2_4BPP_SRGB_BLOCK_IMG',
+};
+
+ASTC_BLOCKS.forEach((block, i) => {
+  VK_COMPRESSED_FORMATS[157 + i * 2] = `ASTC_${block}_UNORM_BLOCK`;
+  VK_COMPRESSED_FORMATS[158 + i * 2] = `ASTC_${block}_SRGB_BLOCK`;
+});
+
+/**
+ * Data Format Descriptor colour models of the universal formats that
+ * leave vkFormat undefined
+ */
+const DFD_COLOR_MODELS: Record<number, string> = {
+  163: 'ETC1S',
+  166: 'UASTC',
+};
+
+/**
+ * KTX 2 supercompression schemes
+ */
+const SUPERCOMPRESSION_SCHEMES: Record<number, string> = {
+  1: 'BasisLZ',
+  2: 'Zstandard',
+  3: 'ZLIB',
+};
+
+/**
+ * Image size and texture layout shared by both KTX versions
+ */
+interface KtxLayout {
+  width: number;
+  height: number;
+  depth: number;
+  layers: number;
+  faces: number;
+  levels: number;
+}
+
+/**
+ * Build the result common to both versions. A zero height marks a 1D
+ * texture, and zero layers or levels mean a plain texture and a single stored
+ * level respectively.
+ */
+function toResult(
+  type: string,
+  mime: string,
+  layout: KtxLayout,
+  format: { format?: string; compressed?: boolean },
+  supercompression?: string
+): ParseResult | null {
+  if (layout.width === 0) {
+    return null;
+  }
+
+  const texture: TextureInfo = {
+    ...format,
+    mipLevels: Math.max(1, layout.levels),
+    cubemap: layout.faces === CUBEMAP_FACES,
+    array: layout.layers > 0,
+    layers: Math.max(1, layout.layers),
+    ...defined({ depth: layout.depth > 0 ? layout.depth : undefined, supercompression }),
+  };
+
+  return {
+    width: layout.width,
+    height: Math.max(1, layout.height),
+    type,
+    mime,
+    wUnits: 'px',
+    hUnits: 'px',
+    ...defined({ colorSpace: texture.format?.includes('SRGB') ? 'sRGB' : undefined }),
+    texture,
+  };
+}
+
+/**
+ * Parse a KTX 1 header, which may be written in either byte order
+ */
+function parseKTX1(buffer: Buffer): ParseResult | null {
+  if (buffer.length < KTX1_HEADER_SIZE) {
+    return null;
+  }
+
+  const endianness = buffer.readUInt32LE(KTX1_IDENTIFIER.length);
+  const littleEndian = endianness === KTX1_ENDIANNESS;
+  if (!littleEndian && buffer.readUInt32BE(KTX1_IDENTIFIER.length) !== KTX1_ENDIANNESS) {
+    return null;
+  }
+
+  const reader = new BufferReader(buffer, littleEndian);
+  reader.seek(KTX1_IDENTIFIER.length + 4);
+  const glType = reader.readUInt32();
+  reader.skip(8); // glTypeSize and glFormat
+  const glInternalFormat = reader.readUInt32();
+  reader.skip(4); // glBaseInternalFormat
+
+  const layout: KtxLayout = {
+    width: reader.readUInt32(),
+    height: reader.readUInt32(),
+    depth: reader.readUInt32(),
+    layers: reader.readUInt32(),
+    faces: reader.readUInt32(),
+    levels: reader.readUInt32(),
+  };
+
+  // Compressed textures have no pixel data type
+  const compressed = glType === 0;
+  const format = compressed
+    ? GL_COMPRESSED_FORMATS[glInternalFormat]
+    : GL_FORMATS[glInternalFormat];
+
+  return toResult('ktx', 'image/ktx', layout, { compressed, ...defined({ format }) });
+}
+
+/**
+ * Read the colour model from the basic block of a KTX 2 Data Format Descriptor
+ */
+function readDfdColorModel(buffer: Buffer, offset: number, length: number): number | undefined {
+  // Total size, then the block header's vendor, type, version and size words
+  const colorModelOffset = offset + 12;
+  if (length < 13 || colorModelOffset >= buffer.length) {
+    return undefined;
+  }
+  return buffer[colorModelOffset];
+}
+
+/**
+ * Parse a KTX 2 header
+ */
+function parseKTX2(buffer: Buffer): ParseResult | null {
+  if (buffer.length < KTX2_HEADER_SIZE) {
+    return null;
+  }
+
+  const reader = new BufferReader(buffer, true); // KTX 2 uses little-endian
+  reader.seek(KTX2_IDENTIFIER.length);
+  const vkFormat = reader.readUInt32();
+  reader.skip(4); // typeSize
+
+  const layout: KtxLayout = {
+    width: reader.readUInt32(),
+    height: reader.readUInt32(),
+    depth: reader.readUInt32(),
+    layers: reader.readUInt32(),
+    faces: reader.readUInt32(),
+    levels: reader.readUInt32(),
+  };
+  const supercompressionScheme = reader.readUInt32();
+  const dfdOffset = reader.readUInt32();
+  const dfdLength = reader.readUInt32();
+
+  let format: { format?: string; compressed?: boolean };
+  if (VK_COMPRESSED_FORMATS[vkFormat]) {
+    format = { format: VK_COMPRESSED_FORMATS[vkFormat], compressed: true };
+  } else if (vkFormat === 0) {
+    // Basis Universal textures leave vkFormat undefined; the descriptor's
+    // colour model names them
+    const universal = DFD_COLOR_MODELS[readDfdColorModel(buffer, dfdOffset, dfdLength) ?? -1];
+    format = universal ? { format: universal, compressed: true } : {};
+  } else {
+    format = { compressed: false, ...defined({ format: VK_FORMATS[vkFormat] }) };
+  }
+
+  return toResult(
+    'ktx2',
+    'image/ktx2',
+    layout,
+    format,
+    SUPERCOMPRESSION_SCHEMES[supercompressionScheme]
+  );
+}
+
+/**
+ * Parse Khronos texture formats: KTX 1 and KTX 2
+ */
+export function parseKTX(buffer: Buffer): ParseResult | null {
+  if (buffer.length < KTX1_IDENTIFIER.length) {
+    return null;
+  }
+
+  const identifier = buffer.subarray(0, KTX1_IDENTIFIER.length);
+  if (identifier.equals(KTX1_IDENTIFIER)) {
+    return parseKTX1(buffer);
+  }
+  if (identifier.equals(KTX2_IDENTIFIER)) {
+    return parseKTX2(buffer);
+  }
+  return null;
+}
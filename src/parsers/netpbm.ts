@@ -0,0 +1,211 @@
+import { defined, type ParseResult } from '../types.js';
+
+/** How far into the file to look for the end of a header */
+const HEADER_SCAN_LIMIT = 1024;
+
+/**
+ * Image type, MIME type and fixed sample layout per magic number. PBM has no
+ * maxval, and PAM declares its layout in the header instead.
+ */
+const FORMATS: Record<
+  string,
+  { type: string; mime: string; channels?: number; colorSpace?: string; hasMaxval: boolean }
+> = {
+  P1: { type: 'pbm', mime: 'image/x-portable-bitmap', channels: 1, hasMaxval: false },
+  P4: { type: 'pbm', mime: 'image/x-portable-bitmap', channels: 1, hasMaxval: false },
+  P2: {
+    type: 'pgm',
+    mime: 'image/x-portable-graymap',
+    channels: 1,
+    colorSpace: 'Grayscale',
+    hasMaxval: true,
+  },
+  P5: {
+    type: 'pgm',
+    mime: 'image/x-portable-graymap',
+    channels: 1,
+    colorSpace: 'Grayscale',
+    hasMaxval: true,
+  },
+  P3: {
+    type: 'ppm',
+    mime: 'image/x-portable-pixmap',
+    channels: 3,
+    colorSpace: 'RGB',
+    hasMaxval: true,
+  },
+  P6: {
+    type: 'ppm',
+    mime: 'image/x-portable-pixmap',
+    channels: 3,
+    colorSpace: 'RGB',
+    hasMaxval: true,
+  },
+  P7: { type: 'pam', mime: 'image/x-portable-arbitrarymap', hasMaxval: true },
+  PF: {
+    type: 'pfm',
+    mime: 'image/x-portable-floatmap',
+    channels: 3,
+    colorSpace: 'RGB',
+    hasMaxval: false,
+  },
+  Pf: {
+    type: 'pfm',
+    mime: 'image/x-portable-floatmap',
+    channels: 1,
+    colorSpace: 'Grayscale',
+    hasMaxval: false,
+  },
+};
+
+/**
+ * Color space per PAM tuple type, without any _ALPHA suffix
+ */
+const COLOR_SPACE_BY_TUPLE_TYPE: Record<string, string> = {
+  BLACKANDWHITE: 'Grayscale',
+  GRAYSCALE: 'Grayscale',
+  RGB: 'RGB',
+};
+
+/**
+ * Split a header into whitespace-separated tokens, dropping `#` comments,
+ * which run to the end of the line
+ */
+function tokenize(header: string): string[] {
+  return header
+    .split(/\r?\n|\r/)
+    .map((line) => line.replace(/#.*/, ''))
+    .join('\n')
+    .split(/\s+/)
+    .filter((token) => token.length > 0);
+}
+
+/**
+ * Parse a decimal header field, rejecting anything but plain digits
+ */
+function parseField(token: string | undefined): number | null {
+  return token !== undefined && /^\d+$/.test(token) ? Number(token) : null;
+}
+
+/**
+ * Bits needed to hold samples up to maxval
+ */
+function bitDepthForMaxval(maxval: number): number {
+  return Math.ceil(Math.log2(maxval + 1));
+}
+
+/**
+ * Parse the PAM header: one `KEYWORD value` pair per line up to ENDHDR
+ */
+function parsePamHeader(header: string): {
+  width: number | null;
+  height: number | null;
+  depth: number | null;
+  maxval: number | null;
+  tupleType?: string;
+} {
+  const fields = new Map<string, string>();
+  const tupleTypes: string[] = [];
+
+  for (const line of header.split(/\r?\n|\r/).slice(1)) {
+    const [keyword, ...values] = tokenize(line);
+    if (keyword === 'ENDHDR') {
+      break;
+    }
+    if (keyword === 'TUPLTYPE') {
+      // Repeated TUPLTYPE lines are concatenated with a space
+      tupleTypes.push(values.join(' '));
+    } else if (keyword) {
+      fields.set(keyword, values[0] ?? '');
+    }
+  }
+
+  return {
+    width: parseField(fields.get('WIDTH')),
+    height: parseField(fields.get('HEIGHT')),
+    depth: parseField(fields.get('DEPTH')),
+    maxval: parseField(fields.get('MAXVAL')),
+    ...defined({ tupleType: tupleTypes.length > 0 ? tupleTypes.join(' ') : undefined }),
+  };
+}
+
+/**
+ * Parse a PAM (P7) file
+ */
+function parsePam(header: string): ParseResult | null {
+  const { width, height, depth, maxval, tupleType } = parsePamHeader(header);
+
+  if (!width || !height || !depth || !maxval || maxval > 65535) {
+    return null;
+  }
+
+  const hasAlpha = tupleType?.endsWith('_ALPHA');
+  const baseType = hasAlpha ? tupleType?.slice(0, -'_ALPHA'.length) : tupleType;
+
+  return {
+    width,
+    height,
+    type: 'pam',
+    mime: 'image/x-portable-arbitrarymap',
+    wUnits: 'px',
+    hUnits: 'px',
+    ...defined({
+      colorSpace: baseType ? COLOR_SPACE_BY_TUPLE_TYPE[baseType] : undefined,
+      bitDepth: bitDepthForMaxval(maxval),
+      channels: depth,
+      // Without a tuple type the meaning of the channels is unknown
+      hasAlpha: tupleType ? hasAlpha : undefined,
+      sampleFormat: 'uint',
+    }),
+  };
+}
+
+/**
+ * Parse the Netpbm family: PBM, PGM and PPM in plain (P1-P3) and raw (P4-P6)
+ * form, PAM (P7) and PFM (PF/Pf)
+ */
+export function parseNetpbm(buffer: Buffer): ParseResult | null {
+  if (buffer.length < 3) {
+    return null;
+  }
+
+  const header = buffer.subarray(0, HEADER_SCAN_LIMIT).toString('latin1');
+  const magic = header.slice(0, 2);
+  const format = FORMATS[magic];
+
+  // The magic number must be followed by whitespace
+  if (!format || !/\s/.test(header[2] ?? '')) {
+    return null;
+  }
+
+  if (magic === 'P7') {
+    return parsePam(header);
+  }
+
+  const tokens = tokenize(header.slice(2));
+  const width = parseField(tokens[0]);
+  const height = parseField(tokens[1]);
+  const maxval = format.hasMaxval ? parseField(tokens[2]) : null;
+
+  if (!width || !height || (format.hasMaxval && (!maxval || maxval > 65535))) {
+    return null;
+  }
+
+  // PFM stores 32-bit IEEE floats; the scale line only gives their byte order
+  const floating = format.type === 'pfm';
+
+  return {
+    width,
+    height,
+    type: format.type,
+    mime: format.mime,
+    wUnits: 'px',
+    hUnits: 'px',
+    ...defined({
+      colorSpace: format.colorSpace,
+      bitDepth: floating ? 32 : maxval ? bitDepthForMaxval(maxval) : 1,
+      channels: format.channels,
+      sampleFormat: floating ? 'float' : 'uint',
+    }),
+  };
+}
@@ -1,5 +1,19 @@
-import { defined, type ParseResult } from '../types.js';
+import {
+  defined,
+  type AnimationFrame,
+  type AnimationInfo,
+  type ExifInfo,
+  type HdrInfo,
+  type ParseOptions,
+  type ParseResult,
+} from '../types.js';
 import { BufferReader } from '../utils/buffer-reader.js';
+import {
+  describeCicp,
+  getColorSpaceFromPrimaries,
+  readMasteringDisplay,
+} from '../utils/color-space.js';
+import { orientedSize, readExifBlock, readExifInfo, readOrientation } from '../utils/exif.js';
 
 /**
  * PNG signature
@@ -17,10 +31,43 @@ const MAX_ICC_NAME_LENGTH = 79;
 /** Metres per inch, for converting pHYs pixels-per-metre to DPI */
 const METRES_PER_INCH = 0.0254;
 
+/** cLLi light levels are stored in units of 0.0001 cd/m² */
+const LIGHT_LEVEL_UNITS = 10000;
+
+/** fcTL dispose_op and blend_op values */
+const DISPOSE_OPS: readonly AnimationFrame['dispose'][] = ['none', 'background', 'previous'];
+const BLEND_OPS: readonly AnimationFrame['blend'][] = ['source', 'over'];
+
+/**
+ * Parse an APNG frame control chunk
+ */
+function parseFcTL(reader: BufferReader): AnimationFrame {
+  reader.skip(4); // Sequence number
+  const width = reader.readUInt32();
+  const height = reader.readUInt32();
+  const x = reader.readUInt32();
+  const y = reader.readUInt32();
+
+  // The delay is a fraction of a second; a zero denominator means 1/100
+  const delayNumerator = reader.readUInt16();
+  const delayDenominator = reader.readUInt16() || 100;
+  const dispose = DISPOSE_OPS[reader.readUInt8()];
+  const blend = BLEND_OPS[reader.readUInt8()];
+
+  return {
+    x,
+    y,
+    width,
+    height,
+    duration: Math.round((delayNumerator * 1000) / delayDenominator),
+    ...defined({ blend, dispose }),
+  };
+}
+
 /**
  * Parse PNG image format
  */
-export function parsePNG(buffer: Buffer): ParseResult | null {
+export function parsePNG(buffer: Buffer, options: ParseOptions = {}): ParseResult | null {
   if (buffer.length < 24 || !buffer.subarray(0, 8).equals(PNG_SIGNATURE)) {
     return null;
   }
@@ -37,6 +84,14 @@ export function parsePNG(buffer: Buffer): ParseResult | null {
   let colorSpace: string | undefined;
   let iccProfile: string | undefined;
   let gamma: number | undefined;
+  let hdr: HdrInfo = {};
+  let cicpColorSpace: string | undefined;
+  let orientation: number | undefined;
+  let exifDetails: ExifInfo | undefined;
+  let animationControl: { frames: number; loops: number } | undefined;
+  let sawImageData = false;
+  let includesDefaultImage = false;
+  const frames: AnimationFrame[] = [];
 
   while (reader.remaining() >= 12) {
     const chunkLength = reader.readUInt32();
@@ -97,6 +152,60 @@ export function parsePNG(buffer: Buffer): ParseResult | null {
           gamma = reader.readUInt32() / 100000;
         }
         break;
+
+      case 'cICP':
+        // Colour primaries, transfer function, matrix coefficients and the full range flag
+        if (chunkLength === 4) {
+          const colorPrimaries = reader.readUInt8();
+          const transfer = reader.readUInt8();
+          const matrix = reader.readUInt8();
+          const fullRange = reader.readUInt8() === 1;
+          hdr = { ...hdr, ...describeCicp(colorPrimaries, transfer, matrix, fullRange) };
+          cicpColorSpace = getColorSpaceFromPrimaries(colorPrimaries);
+        }
+        break;
+
+      case 'mDCv':
+        if (chunkLength === 24) {
+          hdr = { ...hdr, masteringDisplay: readMasteringDisplay(reader, 'rgb') };
+        }
+        break;
+
+      case 'cLLi':
+        if (chunkLength === 8) {
+          hdr = {
+            ...hdr,
+            maxCLL: reader.readUInt32() / LIGHT_LEVEL_UNITS,
+            maxFALL: reader.readUInt32() / LIGHT_LEVEL_UNITS,
+          };
+        }
+        break;
+
+      case 'eXIf': {
+        const exif = readExifBlock(reader.readBytes(chunkLength));
+        orientation = exif ? readOrientation(exif) : undefined;
+        exifDetails = exif && options.exif ? readExifInfo(exif) : undefined;
+        break;
+      }
+
+      case 'acTL':
+        // Only valid before the image data
+        if (chunkLength === 8 && !sawImageData) {
+          animationControl = { frames: reader.readUInt32(), loops: reader.readUInt32() };
+        }
+        break;
+
+      case 'fcTL':
+        if (chunkLength === 26) {
+          // A frame control chunk before the image data makes the default image the first frame
+          includesDefaultImage ||= !sawImageData;
+          frames.push(parseFcTL(reader));
+        }
+        break;
+
+      case 'IDAT':
+        sawImageData = true;
+        break;
     }
 
     // Skip any unread chunk data plus the CRC
@@ -111,6 +220,22 @@ export function parsePNG(buffer: Buffer): ParseResult | null {
     return null;
   }
 
+  // The acTL chunk precedes the image data, so a static PNG is known once IDAT
+  // is reached; like GIF, that is reported only with a full scan
+  const animated = animationControl ? true : options.fullScan && sawImageData ? false : undefined;
+
+  // The total duration is known only when every frame control is within the buffer
+  const animation: AnimationInfo | undefined = animationControl && {
+    frames: animationControl.frames,
+    loops: animationControl.loops,
+    delays: frames.map(({ duration }) => duration),
+    ...(frames.length >= animationControl.frames
+      ? { duration: frames.reduce((sum, { duration }) => sum + duration, 0) }
+      : {}),
+    includesDefaultImage,
+    frameDetails: frames,
+  };
+
   return {
     width,
     height,
@@ -118,6 +243,19 @@ export function parsePNG(buffer: Buffer): ParseResult | null {
     mime: 'image/png',
     wUnits: 'px',
     hUnits: 'px',
-    ...defined({ wResolution, hResolution, bitDepth, channels, colorSpace, iccProfile, gamma }),
+    ...defined({
+      wResolution,
+      hResolution,
+      bitDepth,
+      channels,
+      // cICP takes precedence over iCCP, sRGB and gAMA, whichever order they come in
+      colorSpace: cicpColorSpace ?? colorSpace,
+      iccProfile,
+      gamma,
+    }),
+    ...defined({ animated, animation, orientation }),
+    ...(exifDetails && Object.keys(exifDetails).length > 0 ? { exif: exifDetails } : {}),
+    ...(orientation ? orientedSize(width, height, orientation) : {}),
+    ...(Object.keys(hdr).length > 0 ? { hdr } : {}),
   };
 }
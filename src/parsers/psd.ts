@@ -0,0 +1,169 @@
+import { defined, type ParseResult } from '../types.js';
+import { BufferReader } from '../utils/buffer-reader.js';
+import { identifyIccProfile } from '../utils/color-space.js';
+
+/** Size of the fixed file header */
+const HEADER_SIZE = 26;
+
+/**
+ * Image resource IDs this parser reads
+ */
+const RESOURCES = {
+  RESOLUTION_INFO: 0x03ed,
+  ICC_PROFILE: 0x040f,
+} as const;
+
+/** Signatures that may open an image resource block */
+const RESOURCE_SIGNATURES = new Set(['8BIM', '8B64', 'MeSa', 'AgHg', 'PHUT', 'DCSR']);
+
+/**
+ * Image type per header version: 1 for PSD, 2 for the large document format
+ */
+const TYPE_BY_VERSION: Record<number, string> = { 1: 'psd', 2: 'psb' };
+
+/**
+ * Color space per header color mode
+ */
+const COLOR_SPACE_BY_MODE: Record<number, string> = {
+  0: 'Bitmap',
+  1: 'Grayscale',
+  2: 'Indexed',
+  3: 'RGB',
+  4: 'CMYK',
+  7: 'Multichannel',
+  8: 'Duotone',
+  9: 'Lab',
+};
+
+/**
+ * Read ResolutionInfo. Resolutions are 16.16 fixed-point pixels per inch
+ * whatever unit Photoshop displays them in.
+ */
+function parseResolutionInfo(
+  reader: BufferReader,
+  size: number
+): { wResolution?: number; hResolution?: number } {
+  if (size < 16 || !reader.canRead(16)) {
+    return {};
+  }
+
+  const horizontal = reader.readUInt32() / 65536;
+  reader.skip(4); // Display units for horizontal resolution and width
+  const vertical = reader.readUInt32() / 65536;
+
+  if (horizontal <= 0 || vertical <= 0) {
+    return {};
+  }
+
+  return { wResolution: Math.round(horizontal), hResolution: Math.round(vertical) };
+}
+
+/**
+ * Walk the image resources section for resolution and the ICC profile
+ */
+function parseImageResources(
+  reader: BufferReader,
+  end: number
+): { wResolution?: number; hResolution?: number; colorSpace?: string; iccProfile?: string } {
+  let resolution: { wResolution?: number; hResolution?: number } = {};
+  let profile: { colorSpace?: string; iccProfile?: string } = {};
+
+  while (reader.getPosition() + 12 <= end && reader.canRead(12)) {
+    if (!RESOURCE_SIGNATURES.has(reader.readString(4, 'latin1'))) {
+      break;
+    }
+
+    const id = reader.readUInt16();
+    // Pascal string name, padded so length byte plus text is even
+    const nameLength = reader.readUInt8();
+    reader.skip(nameLength + ((nameLength + 1) % 2));
+
+    if (!reader.canRead(4)) {
+      break;
+    }
+
+    const size = reader.readUInt32();
+    const dataStart = reader.getPosition();
+
+    if (dataStart + size > end || !reader.canRead(size)) {
+      break;
+    }
+
+    if (id === RESOURCES.RESOLUTION_INFO) {
+      resolution = parseResolutionInfo(reader, size);
+    } else if (id === RESOURCES.ICC_PROFILE && size > 0) {
+      const identified = identifyIccProfile(reader.readBytes(size));
+      profile = {
+        iccProfile: identified.iccProfile ?? 'Embedded ICC Profile',
+        ...defined({ colorSpace: identified.colorSpace }),
+      };
+    }
+
+    // Resource data is padded to an even length
+    reader.seek(Math.min(dataStart + size + (size % 2), reader.getBuffer().length));
+  }
+
+  return { ...resolution, ...profile };
+}
+
+/**
+ * Parse Photoshop PSD and PSB image formats
+ */
+export function parsePSD(buffer: Buffer): ParseResult | null {
+  if (buffer.length < HEADER_SIZE) {
+    return null;
+  }
+
+  const reader = new BufferReader(buffer); // Photoshop uses big-endian
+
+  if (reader.readString(4, 'latin1') !== '8BPS') {
+    return null;
+  }
+
+  const type = TYPE_BY_VERSION[reader.readUInt16()];
+  if (!type) {
+    return null;
+  }
+
+  reader.skip(6); // Reserved
+  const channels = reader.readUInt16();
+  const height = reader.readUInt32();
+  const width = reader.readUInt32();
+  const bitDepth = reader.readUInt16();
+  const colorMode = reader.readUInt16();
+
+  if (width === 0 || height === 0 || channels === 0) {
+    return null;
+  }
+
+  let resources: ReturnType<typeof parseImageResources> = {};
+
+  // Skip the color mode data section to reach the image resources
+  if (reader.canRead(4)) {
+    const colorModeDataLength = reader.readUInt32();
+    reader.skip(colorModeDataLength);
+
+    if (reader.canRead(4)) {
+      const resourcesLength = reader.readUInt32();
+      resources = parseImageResources(reader, reader.getPosition() + resourcesLength);
+    }
+  }
+
+  return {
+    width,
+    height,
+    type,
+    mime: 'image/vnd.adobe.photoshop',
+    wUnits: 'px',
+    hUnits: 'px',
+    ...defined({
+      wResolution: resources.wResolution,
+      hResolution: resources.hResolution,
+      // An embedded profile says more about the colour space than the mode does
+      colorSpace: resources.colorSpace ?? COLOR_SPACE_BY_MODE[colorMode],
+      iccProfile: resources.iccProfile,
+      bitDepth: bitDepth > 0 ? bitDepth : undefined,
+      channels,
+    }),
+  };
+}
@@ -0,0 +1,114 @@
+import { defined, type ParseResult } from '../types.js';
+
+/** Programs whose name may follow the `#?` that opens the header */
+const SIGNATURES = ['#?RADIANCE', '#?RGBE'];
+
+/** How far into the file to look for the end of the header */
+const HEADER_SCAN_LIMIT = 8192;
+
+/** Resolution string: two signed axes, the first one varying slowest */
+const RESOLUTION_PATTERN = /^([-+])([XY]) (\d+) ([-+])([XY]) (\d+)$/;
+
+/**
+ * Channel layout per FORMAT header value
+ */
+const FORMATS: Record<string, { channelNames: string[]; colorSpace: string }> = {
+  '32-bit_rle_rgbe': { channelNames: ['R', 'G', 'B'], colorSpace: 'RGB' },
+  '32-bit_rle_xyze': { channelNames: ['X', 'Y', 'Z'], colorSpace: 'XYZ' },
+};
+
+/**
+ * Read a positive number from a `NAME=value` header line
+ */
+function parseNumber(value: string): number | undefined {
+  const number = Number.parseFloat(value);
+  return Number.isFinite(number) && number > 0 ? number : undefined;
+}
+
+/**
+ * Parse Radiance RGBE (.hdr) image format. Pixels are decoded to floats from
+ * a shared-exponent encoding, so samples are reported as 32-bit float.
+ */
+export function parseRadiance(buffer: Buffer): ParseResult | null {
+  const text = buffer.subarray(0, HEADER_SCAN_LIMIT).toString('latin1');
+  const lines = text.split('\n');
+
+  if (!SIGNATURES.includes(lines[0]?.trimEnd() ?? '')) {
+    return null;
+  }
+
+  let format = '32-bit_rle_rgbe';
+  let gamma: number | undefined;
+  let pixelAspect: number | undefined;
+  let index = 1;
+
+  // Header variables run up to a blank line
+  for (; index < lines.length && lines[index] !== ''; index++) {
+    const line = lines[index] ?? '';
+    const separator = line.indexOf('=');
+    if (line.startsWith('#') || separator === -1) {
+      continue;
+    }
+
+    const name = line.slice(0, separator).trim();
+    const value = line.slice(separator + 1).trim();
+    if (name === 'FORMAT') {
+      format = value;
+    } else if (name === 'GAMMA') {
+      gamma = parseNumber(value);
+    } else if (name === 'PIXASPECT') {
+      // Values on repeated lines multiply
+      const ratio = parseNumber(value);
+      if (ratio) pixelAspect = (pixelAspect ?? 1) * ratio;
+    }
+  }
+
+  // The resolution string follows the blank line and must be complete
+  if (index + 2 > lines.length) {
+    return null;
+  }
+
+  const match = RESOLUTION_PATTERN.exec(lines[index + 1] ?? '');
+  const layout = FORMATS[format];
+  if (!match || !layout) {
+    return null;
+  }
+
+  const [, slowSign, slowAxis, slowSize, fastSign, fastAxis, fastSize] = match;
+  if (slowAxis === fastAxis) {
+    return null;
+  }
+
+  // Rotated files list X first, storing columns instead of rows; either way
+  // the X extent is the width
+  const xFirst = slowAxis === 'X';
+  const width = Number(xFirst ? slowSize : fastSize);
+  const height = Number(xFirst ? fastSize : slowSize);
+  const ySign = xFirst ? fastSign : slowSign;
+  const xSign = xFirst ? slowSign : fastSign;
+
+  if (width === 0 || height === 0) {
+    return null;
+  }
+
+  return {
+    width,
+    height,
+    type: 'hdr',
+    mime: 'image/vnd.radiance',
+    wUnits: 'px',
+    hUnits: 'px',
+    ...defined({
+      colorSpace: layout.colorSpace,
+      gamma,
+      bitDepth: 32,
+      channels: 3,
+      sampleFormat: 'float',
+      // Y grows upwards, so a decreasing Y starts at the top
+      origin: `${ySign === '-' ? 'top' : 'bottom'}-${xSign === '+' ? 'left' : 'right'}`,
+      // PIXASPECT is pixel height over width
+      pixelAspectRatio: pixelAspect ? 1 / pixelAspect : undefined,
+      channelNames: [...layout.channelNames],
+    }),
+  };
+}
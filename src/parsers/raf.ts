@@ -0,0 +1,81 @@
+import { defined, type ParseResult } from '../types.js';
+import { BufferReader } from '../utils/buffer-reader.js';
+import { describeRaw, readJpegSize } from './raw.js';
+
+/** Fujifilm RAF magic */
+const RAF_MAGIC = 'FUJIFILMCCD-RAW ';
+
+/** Layout of the RAF header */
+const MODEL_OFFSET = 28;
+const MODEL_LENGTH = 32;
+const DIRECTORY_OFFSET = 84;
+
+/** CFA header record holding the full raw size, as height then width */
+const RAW_IMAGE_FULL_SIZE = 0x100;
+
+/**
+ * Read the full raw size from the CFA header's records
+ */
+function readRawSize(
+  buffer: Buffer,
+  offset: number,
+  length: number
+): { width: number; height: number } | null {
+  const end = Math.min(offset + length, buffer.length);
+  if (offset <= 0 || offset + 4 > end) {
+    return null;
+  }
+
+  const reader = new BufferReader(buffer); // RAF uses big-endian
+  reader.seek(offset);
+  const count = reader.readUInt32();
+
+  for (let i = 0; i < count && reader.getPosition() + 4 <= end; i++) {
+    const tag = reader.readUInt16();
+    const size = reader.readUInt16();
+    if (reader.getPosition() + size > end) {
+      break;
+    }
+
+    if (tag === RAW_IMAGE_FULL_SIZE && size >= 4) {
+      const height = reader.readUInt16();
+      const width = reader.readUInt16();
+      return width && height ? { width, height } : null;
+    }
+    reader.skip(size);
+  }
+
+  return null;
+}
+
+/**
+ * Parse Fujifilm RAW format (RAF). The header points at an embedded JPEG
+ * preview and at the CFA header describing the sensor data.
+ */
+export function parseRAF(buffer: Buffer): ParseResult | null {
+  if (buffer.length < DIRECTORY_OFFSET + 16 || buffer.toString('latin1', 0, 16) !== RAF_MAGIC) {
+    return null;
+  }
+
+  const reader = new BufferReader(buffer);
+  const modelField = buffer.subarray(MODEL_OFFSET, MODEL_OFFSET + MODEL_LENGTH);
+  const terminator = modelField.indexOf(0);
+  const model = modelField.toString('latin1', 0, terminator < 0 ? MODEL_LENGTH : terminator).trim();
+
+  reader.seek(DIRECTORY_OFFSET);
+  const jpegOffset = reader.readUInt32();
+  const jpegLength = reader.readUInt32();
+  const cfaHeaderOffset = reader.readUInt32();
+  const cfaHeaderLength = reader.readUInt32();
+
+  return describeRaw(
+    'raf',
+    'image/x-fuji-raf',
+    defined({
+      make: 'FUJIFILM',
+      model: model || undefined,
+      raw: readRawSize(buffer, cfaHeaderOffset, cfaHeaderLength) ?? undefined,
+      preview: readJpegSize(buffer, jpegOffset, jpegLength) ?? undefined,
+    })
+  );
+}
@@ -0,0 +1,320 @@
+import { defined, type ParseResult, type RawInfo } from '../types.js';
+import { BufferReader } from '../utils/buffer-reader.js';
+import {
+  readAscii,
+  readBytes,
+  readIfd,
+  readNumber,
+  readNumbers,
+  type Ifd,
+  type TiffHeader,
+} from '../utils/ifd.js';
+import { parseJPEG } from './jpeg.js';
+
+/** Version field of classic TIFF, and of the RAW formats with their own magic */
+const TIFF_VERSION = 42;
+const RW2_VERSION = 0x55; // 'IIU\0'
+const ORF_VERSIONS = [0x4f52, 0x5352]; // 'IIRO', 'MMOR' and 'IIRS'
+
+/** Most directories to visit, guarding against offset loops */
+const MAX_IFDS = 32;
+
+/**
+ * MIME type per RAW type
+ */
+export const RAW_MIME_TYPES = {
+  dng: 'image/x-adobe-dng',
+  cr2: 'image/x-canon-cr2',
+  nef: 'image/x-nikon-nef',
+  arw: 'image/x-sony-arw',
+  orf: 'image/x-olympus-orf',
+  rw2: 'image/x-panasonic-rw2',
+} as const;
+
+type TiffRawType = keyof typeof RAW_MIME_TYPES;
+
+/**
+ * TIFF and EXIF tags that locate the sensor data and previews
+ */
+const RAW_TAGS = {
+  NEW_SUBFILE_TYPE: 0x00fe,
+  IMAGE_WIDTH: 0x0100,
+  IMAGE_LENGTH: 0x0101,
+  PHOTOMETRIC_INTERPRETATION: 0x0106,
+  MAKE: 0x010f,
+  MODEL: 0x0110,
+  SUB_IFDS: 0x014a,
+  JPEG_INTERCHANGE_FORMAT: 0x0201,
+  JPEG_INTERCHANGE_FORMAT_LENGTH: 0x0202,
+  EXIF_IFD: 0x8769,
+  MAKER_NOTE: 0x927c,
+  DNG_VERSION: 0xc612,
+} as const;
+
+/** Panasonic RW2 tags in IFD0 */
+const RW2_TAGS = {
+  SENSOR_WIDTH: 0x0002,
+  SENSOR_HEIGHT: 0x0003,
+  JPG_FROM_RAW: 0x002e,
+} as const;
+
+/** Canon maker note SensorInfo tag; values 1 and 2 are the sensor width and height */
+const CANON_SENSOR_INFO = 0x00e0;
+
+/** PhotometricInterpretation values of sensor data: CFA and LinearRaw */
+const RAW_PHOTOMETRICS = [32803, 34892];
+
+/**
+ * Width and height of an image in the file
+ */
+interface Size {
+  width: number;
+  height: number;
+}
+
+/**
+ * A RAW file recognised from its TIFF structure
+ */
+interface TiffRaw {
+  type: TiffRawType;
+  header: TiffHeader;
+  ifd0: Ifd;
+}
+
+/**
+ * Identify a TIFF-based RAW file: from its magic for CR2, ORF and RW2, from
+ * the DNGVersion tag for DNG, and from the camera maker for NEF and ARW.
+ * Returns null for plain TIFF files.
+ */
+export function identifyRaw(buffer: Buffer): TiffRaw | null {
+  if (buffer.length < 8) {
+    return null;
+  }
+
+  const byteOrder = buffer.toString('latin1', 0, 2);
+  if (byteOrder !== 'II' && byteOrder !== 'MM') {
+    return null;
+  }
+
+  const reader = new BufferReader(buffer, byteOrder === 'II');
+  reader.skip(2);
+  const version = reader.readUInt16();
+  const header: TiffHeader = {
+    littleEndian: byteOrder === 'II',
+    bigTiff: false,
+    ifdOffset: reader.readUInt32(),
+  };
+
+  const ifd0 = readIfd(buffer, header, header.ifdOffset);
+  if (!ifd0) {
+    return null;
+  }
+
+  if (version === RW2_VERSION) {
+    return { type: 'rw2', header, ifd0 };
+  }
+  if (ORF_VERSIONS.includes(version)) {
+    return { type: 'orf', header, ifd0 };
+  }
+  if (version !== TIFF_VERSION) {
+    return null;
+  }
+
+  // CR2 marks itself right after the TIFF header
+  if (buffer.toString('latin1', 8, 10) === 'CR' && buffer[10] === 2) {
+    return { type: 'cr2', header, ifd0 };
+  }
+  if (ifd0.entries.has(RAW_TAGS.DNG_VERSION)) {
+    return { type: 'dng', header, ifd0 };
+  }
+
+  const make = readAscii(buffer, ifd0, RAW_TAGS.MAKE) ?? '';
+  if (make.startsWith('NIKON')) {
+    return { type: 'nef', header, ifd0 };
+  }
+  if (make.startsWith('SONY')) {
+    return { type: 'arw', header, ifd0 };
+  }
+
+  return null;
+}
+
+/**
+ * Read the size of an embedded JPEG from its SOF marker, when that is
+ * within the buffer
+ */
+export function readJpegSize(buffer: Buffer, offset: number, length: number): Size | null {
+  if (offset <= 0 || offset >= buffer.length) {
+    return null;
+  }
+
+  const jpeg = parseJPEG(buffer.subarray(offset, Math.min(offset + length, buffer.length)));
+  return jpeg ? { width: jpeg.width, height: jpeg.height } : null;
+}
+
+/**
+ * Pick the image with the largest area
+ */
+export function largestSize(sizes: readonly Size[]): Size | undefined {
+  return sizes.reduce<Size | undefined>(
+    (best, size) => (!best || size.width * size.height > best.width * best.height ? size : best),
+    undefined
+  );
+}
+
+/**
+ * Read the sensor size from a Canon maker note directory
+ */
+export function readCanonSensorSize(tiff: Buffer, header: TiffHeader, ifd: Ifd): Size | null {
+  const entry = ifd.entries.get(CANON_SENSOR_INFO);
+  const [, width, height] = entry ? readNumbers(tiff, header, entry, 3) : [];
+  return width && height ? { width, height } : null;
+}
+
+/**
+ * Find the maker note directory through the EXIF IFD. Only maker notes laid
+ * out as a plain IFD with offsets from the TIFF header, like Canon's, read
+ * correctly.
+ */
+function readMakerNote(tiff: Buffer, header: TiffHeader, ifd0: Ifd): Ifd | null {
+  const exifOffset = readNumber(tiff, header, ifd0, RAW_TAGS.EXIF_IFD);
+  const exif = exifOffset ? readIfd(tiff, header, exifOffset) : null;
+  const makerNote = exif?.entries.get(RAW_TAGS.MAKER_NOTE);
+  return makerNote ? readIfd(tiff, header, makerNote.valueOffset) : null;
+}
+
+/**
+ * Visit IFD0, the directories chained after it and their SubIFDs
+ */
+function readAllIfds(tiff: Buffer, header: TiffHeader, ifd0: Ifd): Ifd[] {
+  const ifds: Ifd[] = [];
+  const visited = new Set<number>([header.ifdOffset]);
+  const pending: Ifd[] = [ifd0];
+
+  for (let ifd = pending.shift(); ifd && ifds.length < MAX_IFDS; ifd = pending.shift()) {
+    ifds.push(ifd);
+
+    const subIfds = ifd.entries.get(RAW_TAGS.SUB_IFDS);
+    const offsets = subIfds ? readNumbers(tiff, header, subIfds) : [];
+    for (const offset of [...offsets, ifd.nextIfdOffset]) {
+      if (offset > 0 && !visited.has(offset)) {
+        visited.add(offset);
+        const next = readIfd(tiff, header, offset);
+        if (next) pending.push(next);
+      }
+    }
+  }
+
+  return ifds;
+}
+
+/**
+ * Sort the images of a TIFF-structured RAW file into sensor data and
+ * previews. ORF and RW2 store the sensor data in IFD0 without marking it.
+ */
+function readImages(
+  tiff: Buffer,
+  { type, header, ifd0 }: TiffRaw
+): { raw: Size[]; previews: Size[] } {
+  const raw: Size[] = [];
+  const previews: Size[] = [];
+
+  for (const ifd of readAllIfds(tiff, header, ifd0)) {
+    const width = readNumber(tiff, header, ifd, RAW_TAGS.IMAGE_WIDTH);
+    const height = readNumber(tiff, header, ifd, RAW_TAGS.IMAGE_LENGTH);
+    const photometric = readNumber(tiff, header, ifd, RAW_TAGS.PHOTOMETRIC_INTERPRETATION);
+    const fullResolution = (readNumber(tiff, header, ifd, RAW_TAGS.NEW_SUBFILE_TYPE) ?? 0) === 0;
+
+    if (width && height) {
+      const isRaw =
+        ((type === 'orf' || type === 'rw2') && ifd === ifd0) ||
+        (photometric !== undefined && RAW_PHOTOMETRICS.includes(photometric) && fullResolution);
+      (isRaw ? raw : previews).push({ width, height });
+    }
+
+    // Previews stored as a JPEG stream rather than as strips or tiles
+    const jpegOffset = readNumber(tiff, header, ifd, RAW_TAGS.JPEG_INTERCHANGE_FORMAT);
+    const jpegLength = readNumber(tiff, header, ifd, RAW_TAGS.JPEG_INTERCHANGE_FORMAT_LENGTH);
+    const jpeg = jpegOffset && jpegLength ? readJpegSize(tiff, jpegOffset, jpegLength) : null;
+    if (jpeg) previews.push(jpeg);
+  }
+
+  if (type === 'cr2') {
+    // The CR2 raw IFD has no size tags; the maker note records the sensor size
+    const makerNote = readMakerNote(tiff, header, ifd0);
+    const sensor = makerNote ? readCanonSensorSize(tiff, header, makerNote) : null;
+    if (sensor) raw.push(sensor);
+  } else if (type === 'rw2') {
+    const width = readNumber(tiff, header, ifd0, RW2_TAGS.SENSOR_WIDTH);
+    const height = readNumber(tiff, header, ifd0, RW2_TAGS.SENSOR_HEIGHT);
+    if (width && height) raw.push({ width, height });
+
+    const jpgFromRaw = ifd0.entries.get(RW2_TAGS.JPG_FROM_RAW);
+    const jpeg = jpgFromRaw ? readJpegSize(tiff, jpgFromRaw.valueOffset, jpgFromRaw.count) : null;
+    if (jpeg) previews.push(jpeg);
+  }
+
+  return { raw, previews };
+}
+
+/**
+ * Build the result for a RAW file. Width and height are those of the sensor
+ * data, or of the largest preview when the sensor data is not described
+ * within the buffer.
+ */
+export function describeRaw(
+  type: string,
+  mime: string,
+  info: { make?: string; model?: string; raw?: Size; preview?: Size; dngVersion?: string }
+): ParseResult | null {
+  const size = info.raw ?? info.preview;
+  if (!size || size.width <= 0 || size.height <= 0) {
+    return null;
+  }
+
+  const raw: RawInfo = defined({
+    make: info.make,
+    model: info.model,
+    rawWidth: info.raw?.width,
+    rawHeight: info.raw?.height,
+    previewWidth: info.preview?.width,
+    previewHeight: info.preview?.height,
+    dngVersion: info.dngVersion,
+  });
+
+  return {
+    width: size.width,
+    height: size.height,
+    type,
+    mime,
+    wUnits: 'px',
+    hUnits: 'px',
+    raw,
+  };
+}
+
+/**
+ * Parse TIFF-based camera RAW formats: DNG, CR2, NEF, ARW, ORF and RW2
+ */
+export function parseRAW(buffer: Buffer): ParseResult | null {
+  const identified = identifyRaw(buffer);
+  if (!identified) {
+    return null;
+  }
+
+  const { type, ifd0 } = identified;
+  const { raw, previews } = readImages(buffer, identified);
+  const dngVersion = readBytes(buffer, ifd0, RAW_TAGS.DNG_VERSION);
+
+  return describeRaw(
+    type,
+    RAW_MIME_TYPES[type],
+    defined({
+      make: readAscii(buffer, ifd0, RAW_TAGS.MAKE),
+      model: readAscii(buffer, ifd0, RAW_TAGS.MODEL),
+      raw: largestSize(raw),
+      preview: largestSize(previews),
+      dngVersion: dngVersion?.length === 4 ? [...dngVersion].join('.') : undefined,
+    })
+  );
+}
@@ -0,0 +1,213 @@
+import { defined, type ParseResult } from '../types.js';
+import { BufferReader } from '../utils/buffer-reader.js';
+
+/** Size of the fixed file header */
+const HEADER_SIZE = 18;
+
+/** Size of the TGA 2.0 footer */
+const FOOTER_SIZE = 26;
+
+/** Signature closing a TGA 2.0 footer */
+const FOOTER_SIGNATURE = 'TRUEVISION-XFILE.\0';
+
+/** Size of a TGA 2.0 extension area */
+const EXTENSION_AREA_SIZE = 495;
+
+/** Image types, with 8 added for their run-length encoded variants */
+const IMAGE_TYPE = { COLOR_MAPPED: 1, TRUE_COLOR: 2, GRAYSCALE: 3 } as const;
+
+/** Valid colour map entry sizes */
+const COLOR_MAP_ENTRY_SIZES = new Set([15, 16, 24, 32]);
+
+/**
+ * Valid pixel depths per image type
+ */
+const PIXEL_DEPTHS: Record<number, readonly number[]> = {
+  [IMAGE_TYPE.COLOR_MAPPED]: [8, 16],
+  [IMAGE_TYPE.TRUE_COLOR]: [15, 16, 24, 32],
+  [IMAGE_TYPE.GRAYSCALE]: [8, 16],
+};
+
+/**
+ * Color space per image type
+ */
+const COLOR_SPACE_BY_TYPE: Record<number, string> = {
+  [IMAGE_TYPE.COLOR_MAPPED]: 'Indexed',
+  [IMAGE_TYPE.TRUE_COLOR]: 'RGB',
+  [IMAGE_TYPE.GRAYSCALE]: 'Grayscale',
+};
+
+/**
+ * Corner of the first stored pixel, indexed by descriptor bits 4 (right to
+ * left) and 5 (top to bottom)
+ */
+const ORIGINS = ['bottom-left', 'bottom-right', 'top-left', 'top-right'] as const;
+
+/** Extension area attribute types that declare real alpha data */
+const ATTRIBUTES_ALPHA = new Set([3, 4]);
+
+/**
+ * Fields of the 18-byte TGA header
+ */
+interface TgaHeader {
+  imageType: number;
+  width: number;
+  height: number;
+  pixelDepth: number;
+  alphaBits: number;
+  origin: (typeof ORIGINS)[number];
+}
+
+/**
+ * Read and sanity-check the header. TGA has no magic number, so every field
+ * with a constrained range is checked to tell it from arbitrary data.
+ */
+export function readTgaHeader(buffer: Buffer): TgaHeader | null {
+  if (buffer.length < HEADER_SIZE) {
+    return null;
+  }
+
+  const reader = new BufferReader(buffer, true); // TGA uses little-endian
+  reader.skip(1); // ID length
+  const colorMapType = reader.readUInt8();
+  const rawImageType = reader.readUInt8();
+  reader.skip(4); // First colour map entry and colour map length
+  const colorMapEntrySize = reader.readUInt8();
+  reader.skip(4); // X and Y origin
+  const width = reader.readUInt16();
+  const height = reader.readUInt16();
+  const pixelDepth = reader.readUInt8();
+  const descriptor = reader.readUInt8();
+
+  // Run-length encoded variants share the layout of their base type
+  const imageType = rawImageType > 8 ? rawImageType - 8 : rawImageType;
+  const depths = PIXEL_DEPTHS[imageType];
+  const alphaBits = descriptor & 0x0f;
+
+  if (!depths?.includes(pixelDepth)) {
+    return null;
+  }
+
+  // Colour-mapped images need a map; others may carry an unused one
+  if (imageType === IMAGE_TYPE.COLOR_MAPPED ? colorMapType !== 1 : colorMapType > 1) {
+    return null;
+  }
+  if (colorMapType === 1 && !COLOR_MAP_ENTRY_SIZES.has(colorMapEntrySize)) {
+    return null;
+  }
+
+  // The top two descriptor bits must be zero, and alpha must fit in a pixel
+  if ((descriptor & 0xc0) !== 0 || alphaBits > pixelDepth / 2 || width === 0 || height === 0) {
+    return null;
+  }
+
+  return {
+    imageType,
+    width,
+    height,
+    pixelDepth,
+    alphaBits,
+    origin: ORIGINS[(descriptor >> 4) & 0x03] ?? 'bottom-left',
+  };
+}
+
+/**
+ * Read the TGA 2.0 extension area, when the whole file including its footer
+ * is in the buffer
+ */
+function parseExtensionArea(buffer: Buffer): {
+  pixelAspectRatio?: number;
+  gamma?: number;
+  attributesType?: number;
+} {
+  if (buffer.length < HEADER_SIZE + FOOTER_SIZE) {
+    return {};
+  }
+
+  const footer = buffer.subarray(buffer.length - FOOTER_SIZE);
+  if (footer.toString('latin1', 8) !== FOOTER_SIGNATURE) {
+    return {};
+  }
+
+  const offset = footer.readUInt32LE(0);
+  if (offset < HEADER_SIZE || offset + EXTENSION_AREA_SIZE > buffer.length - FOOTER_SIZE) {
+    return {};
+  }
+
+  const reader = new BufferReader(buffer, true);
+  reader.seek(offset);
+  if (reader.readUInt16() !== EXTENSION_AREA_SIZE) {
+    return {};
+  }
+
+  reader.skip(472); // Author, comments, timestamps, job, software and key colour
+  const aspectNumerator = reader.readUInt16();
+  const aspectDenominator = reader.readUInt16();
+  const gammaNumerator = reader.readUInt16();
+  const gammaDenominator = reader.readUInt16();
+  reader.skip(12); // Colour correction, postage stamp and scan line offsets
+  const attributesType = reader.readUInt8();
+
+  // A zero denominator marks a field as unused
+  return defined({
+    pixelAspectRatio:
+      aspectDenominator > 0 && aspectNumerator > 0
+        ? aspectNumerator / aspectDenominator
+        : undefined,
+    gamma: gammaDenominator > 0 ? gammaNumerator / gammaDenominator : undefined,
+    attributesType,
+  });
+}
+
+/**
+ * Parse Truevision TGA image format, including the TGA 2.0 extension area
+ */
+export function parseTGA(buffer: Buffer): ParseResult | null {
+  const header = readTgaHeader(buffer);
+  if (!header) {
+    return null;
+  }
+
+  const { imageType, pixelDepth, alphaBits } = header;
+  const extension = parseExtensionArea(buffer);
+
+  // Attribute types 0-2 say any alpha bits hold no meaningful data
+  const hasAlpha =
+    extension.attributesType !== undefined
+      ? alphaBits > 0 && ATTRIBUTES_ALPHA.has(extension.attributesType)
+      : alphaBits > 0;
+
+  let bitDepth: number;
+  let channels: number;
+  if (imageType === IMAGE_TYPE.TRUE_COLOR) {
+    // 15/16-bit pixels hold five bits per colour channel
+    bitDepth = pixelDepth <= 16 ? 5 : 8;
+    channels = hasAlpha ? 4 : 3;
+  } else if (imageType === IMAGE_TYPE.GRAYSCALE) {
+    // 16-bit grayscale pairs an 8-bit value with 8 bits of alpha
+    bitDepth = 8;
+    channels = pixelDepth === 16 && hasAlpha ? 2 : 1;
+  } else {
+    bitDepth = pixelDepth;
+    channels = 1;
+  }
+
+  return {
+    width: header.width,
+    height: header.height,
+    type: 'tga',
+    mime: 'image/x-tga',
+    wUnits: 'px',
+    hUnits: 'px',
+    ...defined({
+      colorSpace: COLOR_SPACE_BY_TYPE[imageType],
+      gamma: extension.gamma,
+      bitDepth,
+      channels,
+      hasAlpha,
+      alphaBits,
+      origin: header.origin,
+      pixelAspectRatio: extension.pixelAspectRatio,
+    }),
+  };
+}
@@ -0,0 +1,80 @@
+import { defined, type ParseResult } from '../types.js';
+import { identifyIccProfile } from '../utils/color-space.js';
+import { readBytes, readIfd, readNumber, readResolution, readTiffHeader } from '../utils/ifd.js';
+
+/**
+ * Baseline TIFF tags describing the image in IFD0
+ */
+const TIFF_TAGS = {
+  IMAGE_WIDTH: 0x0100,
+  IMAGE_LENGTH: 0x0101,
+  BITS_PER_SAMPLE: 0x0102,
+  PHOTOMETRIC_INTERPRETATION: 0x0106,
+  SAMPLES_PER_PIXEL: 0x0115,
+  ICC_PROFILE: 0x8773,
+} as const;
+
+/**
+ * Color space implied by PhotometricInterpretation
+ */
+const COLOR_SPACE_BY_PHOTOMETRIC: Record<number, string> = {
+  0: 'Grayscale', // WhiteIsZero
+  1: 'Grayscale', // BlackIsZero
+  2: 'RGB',
+  3: 'Indexed', // Palette colour
+  5: 'CMYK', // Separated
+  6: 'YCbCr',
+  8: 'Lab', // CIELab
+  9: 'Lab', // ICCLab
+  10: 'Lab', // ITULab
+};
+
+/**
+ * Parse TIFF and BigTIFF image formats
+ */
+export function parseTIFF(buffer: Buffer): ParseResult | null {
+  const header = readTiffHeader(buffer);
+  if (!header) {
+    return null;
+  }
+
+  const ifd = readIfd(buffer, header, header.ifdOffset);
+  if (!ifd) {
+    return null;
+  }
+
+  const width = readNumber(buffer, header, ifd, TIFF_TAGS.IMAGE_WIDTH);
+  const height = readNumber(buffer, header, ifd, TIFF_TAGS.IMAGE_LENGTH);
+
+  if (!width || !height || width <= 0 || height <= 0) {
+    return null;
+  }
+
+  // BitsPerSample holds one value per sample; report the first
+  const bitDepth = readNumber(buffer, header, ifd, TIFF_TAGS.BITS_PER_SAMPLE);
+  const channels = readNumber(buffer, header, ifd, TIFF_TAGS.SAMPLES_PER_PIXEL);
+  const photometric = readNumber(buffer, header, ifd, TIFF_TAGS.PHOTOMETRIC_INTERPRETATION);
+
+  const iccData = readBytes(buffer, ifd, TIFF_TAGS.ICC_PROFILE);
+  const profile = iccData ? identifyIccProfile(iccData) : {};
+
+  return {
+    width,
+    height,
+    type: 'tiff',
+    mime: 'image/tiff',
+    wUnits: 'px',
+    hUnits: 'px',
+    ...defined({
+      ...readResolution(buffer, header, ifd),
+      bitDepth: bitDepth && bitDepth > 0 ? bitDepth : undefined,
+      channels: channels && channels > 0 ? channels : undefined,
+      // An embedded profile says more about the colour space than the
+      // photometric interpretation does
+      colorSpace:
+        profile.colorSpace ??
+        (photometric !== undefined ? COLOR_SPACE_BY_PHOTOMETRIC[photometric] : undefined),
+      iccProfile: iccData ? (profile.iccProfile ?? 'Embedded ICC Profile') : undefined,
+    }),
+  };
+}
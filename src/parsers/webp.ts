@@ -1,10 +1,37 @@
-import { defined, type ParseResult } from '../types.js';
+import {
+  defined,
+  type AnimationFrame,
+  type AnimationInfo,
+  type ExifInfo,
+  type ParseOptions,
+  type ParseResult,
+} from '../types.js';
 import { BufferReader } from '../utils/buffer-reader.js';
 import { identifyIccProfile } from '../utils/color-space.js';
+import { orientedSize, readExifBlock, readExifInfo, readOrientation } from '../utils/exif.js';
 
 /** How much of an ICC profile to read when looking for its description */
 const ICC_SCAN_LIMIT = 512;
 
+/** Length of the ANMF frame header that precedes the frame's image data */
+const ANMF_HEADER_LENGTH = 16;
+
+/** VP8X feature flags */
+const ALPHA_FLAG = 0x10;
+const ANIMATION_FLAG = 0x02;
+
+/** ANMF flags: no alpha-blending, and disposal to the background colour */
+const NO_BLEND_FLAG = 0x02;
+const DISPOSE_FLAG = 0x01;
+
+/**
+ * Read a 3-byte little-endian integer
+ */
+function readUInt24(reader: BufferReader): number {
+  const bytes = reader.readBytes(3);
+  return (bytes[0] ?? 0) | ((bytes[1] ?? 0) << 8) | ((bytes[2] ?? 0) << 16);
+}
+
 /**
  * Parse WebP VP8 chunk
  */
@@ -55,7 +82,7 @@ function parseVP8L(reader: BufferReader): { width: number; height: number } | nu
  */
 function parseVP8X(
   reader: BufferReader
-): { width: number; height: number; hasAlpha: boolean } | null {
+): { width: number; height: number; hasAlpha: boolean; animated: boolean } | null {
   if (!reader.canRead(10)) {
     return null;
   }
@@ -63,29 +90,58 @@ function parseVP8X(
   // Read flags byte
   const flags = reader.readUInt8();
 
-  // Extract flag bits
-  const hasAlpha = (flags & 0x10) !== 0; // Bit 4: Alpha channel
-
   // Skip reserved bits (3 bytes)
   reader.skip(3);
 
-  // Read canvas width and height (3 bytes each, little-endian)
-  const widthBytes = reader.readBytes(3);
-  const heightBytes = reader.readBytes(3);
+  // Canvas width and height are stored minus one
+  const width = readUInt24(reader) + 1;
+  const height = readUInt24(reader) + 1;
 
-  // Convert 3-byte little-endian to number and add 1
-  const width =
-    ((widthBytes[0] ?? 0) | ((widthBytes[1] ?? 0) << 8) | ((widthBytes[2] ?? 0) << 16)) + 1;
-  const height =
-    ((heightBytes[0] ?? 0) | ((heightBytes[1] ?? 0) << 8) | ((heightBytes[2] ?? 0) << 16)) + 1;
+  return {
+    width,
+    height,
+    hasAlpha: (flags & ALPHA_FLAG) !== 0,
+    animated: (flags & ANIMATION_FLAG) !== 0,
+  };
+}
+
+/**
+ * Parse WebP ANIM chunk: the background colour, stored as BGRA, and the
+ * loop count
+ */
+function parseANIM(reader: BufferReader): { backgroundColor: string; loops: number } {
+  const [blue = 0, green = 0, red = 0, alpha = 0] = reader.readBytes(4);
+  const backgroundColor = `#${Buffer.from([red, green, blue, alpha]).toString('hex')}`;
+  return { backgroundColor, loops: reader.readUInt16() };
+}
+
+/**
+ * Parse the header of a WebP ANMF chunk
+ */
+function parseANMF(reader: BufferReader): AnimationFrame {
+  // Offsets are stored halved, and the frame size minus one
+  const x = readUInt24(reader) * 2;
+  const y = readUInt24(reader) * 2;
+  const width = readUInt24(reader) + 1;
+  const height = readUInt24(reader) + 1;
+  const duration = readUInt24(reader);
+  const flags = reader.readUInt8();
 
-  return { width, height, hasAlpha };
+  return {
+    x,
+    y,
+    width,
+    height,
+    duration,
+    blend: flags & NO_BLEND_FLAG ? 'source' : 'over',
+    dispose: flags & DISPOSE_FLAG ? 'background' : 'none',
+  };
 }
 
 /**
  * Parse WebP image format
  */
-export function parseWebP(buffer: Buffer): ParseResult | null {
+export function parseWebP(buffer: Buffer, options: ParseOptions = {}): ParseResult | null {
   if (buffer.length < 12) {
     return null;
   }
@@ -97,8 +153,8 @@ export function parseWebP(buffer: Buffer): ParseResult | null {
     return null;
   }
 
-  // Skip file size
-  reader.skip(4);
+  // The RIFF size counts the data after it
+  const riffEnd = 8 + reader.readUInt32();
 
   // Check WebP signature
   if (reader.readString(4) !== 'WEBP') {
@@ -108,15 +164,22 @@ export function parseWebP(buffer: Buffer): ParseResult | null {
   let width: number | undefined;
   let height: number | undefined;
   let hasAlpha = false;
+  let animated = false;
   let sawVP8X = false;
   let colorSpace: string | undefined;
   let iccProfileName: string | undefined;
+  let anim: { backgroundColor: string; loops: number } | undefined;
+  let orientation: number | undefined;
+  let exifDetails: ExifInfo | undefined;
+  const frames: AnimationFrame[] = [];
 
   while (reader.canRead(8)) {
     const chunkId = reader.readString(4);
     const chunkSize = reader.readUInt32();
 
-    if (!reader.canRead(chunkSize)) {
+    // Frame headers are read even when the frame's image data runs past the buffer
+    const requiredSize = chunkId === 'ANMF' ? Math.min(chunkSize, ANMF_HEADER_LENGTH) : chunkSize;
+    if (!reader.canRead(requiredSize)) {
       break;
     }
 
@@ -151,6 +214,7 @@ export function parseWebP(buffer: Buffer): ParseResult | null {
             width = vp8xData.width;
             height = vp8xData.height;
             hasAlpha = vp8xData.hasAlpha;
+            animated = vp8xData.animated;
             sawVP8X = true;
           }
         }
@@ -167,10 +231,33 @@ export function parseWebP(buffer: Buffer): ParseResult | null {
         }
         break;
       }
+
+      case 'EXIF': {
+        const exif = readExifBlock(reader.readBytes(chunkSize));
+        orientation = exif ? readOrientation(exif) : undefined;
+        exifDetails = exif && options.exif ? readExifInfo(exif) : undefined;
+        break;
+      }
+
+      case 'ANIM':
+        if (!anim && chunkSize >= 6) {
+          anim = parseANIM(reader);
+        }
+        break;
+
+      case 'ANMF':
+        if (chunkSize >= ANMF_HEADER_LENGTH) {
+          frames.push(parseANMF(reader));
+        }
+        break;
     }
 
     // Move to next chunk (pad to even byte boundary)
-    reader.seek(chunkStart + ((chunkSize + 1) & ~1));
+    const nextChunk = chunkStart + chunkSize + (chunkSize % 2);
+    if (nextChunk > buffer.length) {
+      break;
+    }
+    reader.seek(nextChunk);
   }
 
   // After processing all chunks, return the result if we have dimensions
@@ -178,6 +265,22 @@ export function parseWebP(buffer: Buffer): ParseResult | null {
     return null;
   }
 
+  // Frames past the end of the buffer are not counted, so a cut-off file
+  // gets no total duration
+  const truncated = buffer.length < riffEnd;
+  const animation: AnimationInfo | undefined = animated
+    ? {
+        frames: frames.length,
+        ...defined({ loops: anim?.loops }),
+        delays: frames.map(({ duration }) => duration),
+        ...defined({
+          duration: truncated ? undefined : frames.reduce((sum, { duration }) => sum + duration, 0),
+        }),
+        ...defined({ backgroundColor: anim?.backgroundColor }),
+        frameDetails: frames,
+      }
+    : undefined;
+
   return {
     width,
     height,
@@ -187,5 +290,9 @@ export function parseWebP(buffer: Buffer): ParseResult | null {
     hUnits: 'px',
     ...defined({ colorSpace, iccProfile: iccProfileName }),
     channels: hasAlpha ? 4 : 3, // RGBA or RGB
+    animated,
+    ...defined({ animation, orientation }),
+    ...(exifDetails && Object.keys(exifDetails).length > 0 ? { exif: exifDetails } : {}),
+    ...(orientation ? orientedSize(width, height, orientation) : {}),
   };
 }
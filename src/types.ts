@@ -12,6 +12,300 @@ declare const __PACKAGE_VERSION__: string;
 export const PACKAGE_NAME = __PACKAGE_NAME__;
 export const PACKAGE_VERSION = __PACKAGE_VERSION__;
 
+/**
+ * GPU texture layout, reported by texture containers such as DDS and KTX
+ */
+export interface TextureInfo {
+  /** Pixel format name (e.g., 'BC7_UNORM', 'ASTC_4x4_SRGB_BLOCK') */
+  format?: string;
+  /** Whether the pixel format is block-compressed */
+  compressed?: boolean;
+  /** Number of mip levels stored, including the base level */
+  mipLevels: number;
+  /** Whether the texture is a cubemap */
+  cubemap: boolean;
+  /** Whether the texture is an array texture */
+  array: boolean;
+  /** Number of array layers (cubes, for cubemap arrays); 1 when not an array */
+  layers: number;
+  /** Depth in pixels of a volume texture */
+  depth?: number;
+  /** Supercompression applied over the texture data (e.g., 'Zstandard') */
+  supercompression?: string;
+}
+
+/**
+ * Pixel-space rectangle of an OpenEXR window, with inclusive bounds
+ */
+export interface ExrWindow {
+  xMin: number;
+  yMin: number;
+  xMax: number;
+  yMax: number;
+}
+
+/**
+ * OpenEXR layout, reported for the first part of multi-part files
+ */
+export interface ExrInfo {
+  /** Bounds of the stored pixels, which give the reported width and height */
+  dataWindow: ExrWindow;
+  /** Bounds of the intended display area */
+  displayWindow?: ExrWindow;
+  /** Whether pixels are stored in tiles rather than scanlines */
+  tiled: boolean;
+  /** Tile size, for tiled images */
+  tileWidth?: number;
+  tileHeight?: number;
+  /** Whether the file holds deep (multiple samples per pixel) data */
+  deep: boolean;
+  /** Whether the file has the multi-part layout */
+  multipart: boolean;
+  /** Number of parts, when all part headers are within the buffer */
+  parts?: number;
+}
+
+/**
+ * Horizontal and vertical resolution in DPI
+ */
+export interface Resolution {
+  wResolution: number;
+  hResolution: number;
+}
+
+/**
+ * JPEG 2000 resolution boxes, each converted to DPI
+ */
+export interface Jp2Info {
+  /** Resolution the image was captured at, from resc */
+  captureResolution?: Resolution;
+  /** Resolution the image should be displayed at, from resd */
+  displayResolution?: Resolution;
+}
+
+/**
+ * One image of a multi-image icon file
+ */
+export interface IconEntry {
+  /** Width in pixels */
+  width: number;
+  /** Height in pixels */
+  height: number;
+  /** Element type (ICNS OSType, e.g., 'ic10') */
+  type?: string;
+  /** Display scale: 2 for retina variants */
+  scale?: number;
+  /** Encoding of the image data (e.g., 'png', 'bmp', 'jp2', 'argb') */
+  format?: string;
+  /** Size of the image data in bytes */
+  bytes?: number;
+  /** Bits per pixel */
+  bitCount?: number;
+  /** Palette entries, for indexed images */
+  colors?: number;
+  /** Cursor hotspot, in pixels from the top-left corner */
+  hotspotX?: number;
+  hotspotY?: number;
+}
+
+/**
+ * Placement and compositing of one animation frame on the canvas
+ */
+export interface AnimationFrame {
+  /** Offset of the frame's top-left corner on the canvas, in pixels */
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  /** Display time in milliseconds */
+  duration: number;
+  /** Whether the frame is alpha-blended over the canvas ('over') or replaces it ('source') */
+  blend?: 'over' | 'source';
+  /** How the frame's area is cleared before the next frame is drawn */
+  dispose?: 'none' | 'background' | 'previous';
+}
+
+/**
+ * Animation timing for animated formats
+ */
+export interface AnimationInfo {
+  /** Number of frames stored */
+  frames: number;
+  /** Number of times the animation plays; 0 means forever */
+  loops?: number;
+  /** Display time of each step in milliseconds */
+  delays?: number[];
+  /** Total time of one play-through in milliseconds */
+  duration?: number;
+  /** Frame index shown at each step, when frames are reused or reordered */
+  sequence?: number[];
+  /** Canvas background colour as '#rrggbbaa', where declared */
+  backgroundColor?: string;
+  /** Placement of each frame, for formats that composite frames onto a canvas */
+  frameDetails?: AnimationFrame[];
+  /** Whether the static default image is also the first frame (APNG) */
+  includesDefaultImage?: boolean;
+}
+
+/**
+ * Camera RAW details
+ */
+export interface RawInfo {
+  /** Camera maker (e.g., 'Canon') */
+  make?: string;
+  /** Camera model (e.g., 'Canon EOS R5') */
+  model?: string;
+  /** Size of the full-resolution sensor data, when its header is within the bytes read */
+  rawWidth?: number;
+  rawHeight?: number;
+  /** Size of the largest embedded preview image */
+  previewWidth?: number;
+  previewHeight?: number;
+  /** DNG specification version (e.g., '1.4.0.0'), for DNG files */
+  dngVersion?: string;
+}
+
+/**
+ * Transformations a viewer applies to the decoded image before display, in
+ * the order listed
+ */
+export interface ImageTransform {
+  /** Crop to the clean aperture: its size, and its centre's offset from the image centre */
+  cleanAperture?: {
+    width: number;
+    height: number;
+    horizontalOffset: number;
+    verticalOffset: number;
+  };
+  /** Anticlockwise rotation in degrees (0, 90, 180 or 270) */
+  rotation?: number;
+  /** Mirroring: 'horizontal' swaps left and right, 'vertical' swaps top and bottom */
+  mirror?: 'horizontal' | 'vertical';
+}
+
+/**
+ * An image stored alongside the primary image: an alpha plane, depth map or
+ * thumbnail
+ */
+export interface AuxiliaryImage {
+  /** 'alpha', 'depth' or 'thumbnail', or the auxiliary type URN for other kinds */
+  type: string;
+  width?: number;
+  height?: number;
+}
+
+/**
+ * CIE 1931 xy chromaticity coordinates
+ */
+export interface Chromaticity {
+  x: number;
+  y: number;
+}
+
+/**
+ * Colour volume of the display an HDR image was mastered on
+ */
+export interface MasteringDisplay {
+  red: Chromaticity;
+  green: Chromaticity;
+  blue: Chromaticity;
+  whitePoint: Chromaticity;
+  /** Luminance range in cd/m² */
+  maxLuminance: number;
+  minLuminance: number;
+}
+
+/**
+ * High dynamic range signalling: coding-independent code points (CICP, ITU-T
+ * H.273), content light levels and the mastering display
+ */
+export interface HdrInfo {
+  /** Transfer function named from its code point (e.g., 'PQ', 'HLG', 'sRGB') */
+  transfer?: string;
+  /** CICP colour primaries, transfer characteristics and matrix coefficients code points */
+  colorPrimaries?: number;
+  transferCharacteristics?: number;
+  matrixCoefficients?: number;
+  /** Whether samples use the full range rather than the limited (video) range */
+  fullRange?: boolean;
+  /** Maximum content light level, in cd/m² */
+  maxCLL?: number;
+  /** Maximum frame-average light level, in cd/m² */
+  maxFALL?: number;
+  masteringDisplay?: MasteringDisplay;
+}
+
+/**
+ * Camera and capture details from EXIF metadata
+ */
+export interface ExifInfo {
+  make?: string;
+  model?: string;
+  lensModel?: string;
+  software?: string;
+  /** Capture time as written, 'YYYY:MM:DD HH:MM:SS' in local time */
+  dateTimeOriginal?: string;
+  /** Offset of the capture time from UTC (e.g., '+09:00') */
+  offsetTimeOriginal?: string;
+  /** Offset from UTC of the time the image was digitized */
+  offsetTimeDigitized?: string;
+  /** Offset from UTC of the time the file was last changed */
+  offsetTime?: string;
+  /** Exposure time in seconds */
+  exposureTime?: number;
+  fNumber?: number;
+  /** ISO speed (PhotographicSensitivity) */
+  iso?: number;
+  /** Focal length in millimetres */
+  focalLength?: number;
+  /** Flash tag value: bit 0 is set when the flash fired; the others give its return, mode and function */
+  flash?: number;
+}
+
+/**
+ * An image listed in a JPEG's Multi-Picture Format (MPF) index
+ */
+export interface EmbeddedImage {
+  /**
+   * MP type: 'primary', 'large-thumbnail-vga', 'large-thumbnail-full-hd',
+   * 'panorama', 'disparity', 'multi-angle' or 'unspecified', or the hex type
+   * code for others
+   */
+  type: string;
+  /** Size of the image data in bytes */
+  size: number;
+  /** Offset of the image data from the start of the file */
+  offset: number;
+  /** Image size, when the image is a JPEG within the bytes read */
+  width?: number;
+  height?: number;
+}
+
+/**
+ * A gain map: a secondary image that maps the base image to an alternate
+ * rendition, usually SDR to HDR (Ultra HDR JPEG, ISO 21496-1)
+ */
+export interface GainMapInfo {
+  /** Size of the gain map image, when it is within the bytes read */
+  width?: number;
+  height?: number;
+  /** Version of the `hdrgm` XMP metadata (e.g., '1.0') */
+  version?: string;
+  /** Log2 display headroom from which the gain map starts to apply, and at which it applies fully */
+  hdrCapacityMin?: number;
+  hdrCapacityMax?: number;
+  /** Log2 gains at the lowest and highest gain map values: one value, or one per RGB channel */
+  gainMapMin?: number[];
+  gainMapMax?: number[];
+  /** Gamma the gain map values are encoded with, per channel */
+  gamma?: number[];
+  /** Offsets added to the SDR and HDR renditions before the gain is computed, per channel */
+  offsetSdr?: number[];
+  offsetHdr?: number[];
+  /** Whether the base image is the HDR rendition, the gain map producing the SDR one */
+  baseRenditionIsHdr?: boolean;
+}
+
 /**
  * Image specifications extracted from an image file
  */
@@ -48,6 +342,60 @@ export interface ImageSpecs {
   bitDepth?: number;
   /** Number of color channels */
   channels?: number;
+  /** Chroma subsampling of the coded image (e.g., '4:2:0') */
+  chromaSubsampling?: string;
+  /** Whether the image has an alpha channel, where the format declares it */
+  hasAlpha?: boolean;
+  /** Whether samples are unsigned integers or floating point, where the format declares it */
+  sampleFormat?: 'uint' | 'float';
+  /** Number of alpha bits per pixel, where the format declares it */
+  alphaBits?: number;
+  /** Corner of the first stored pixel (e.g., 'top-left'), where the format declares it */
+  origin?: string;
+  /** Pixel aspect ratio as width over height, where the format declares it */
+  pixelAspectRatio?: number;
+  /** Texture layout for GPU texture containers */
+  texture?: TextureInfo;
+  /** Channel names in storage order (e.g., ['B', 'G', 'R']), where the format names them */
+  channelNames?: string[];
+  /** Compression method (e.g., 'PIZ'), where the format declares it */
+  compression?: string;
+  /** OpenEXR layout */
+  exr?: ExrInfo;
+  /**
+   * JPEG 2000 capture and display resolutions; `wResolution`/`hResolution`
+   * give the capture resolution when both are present
+   */
+  jp2?: Jp2Info;
+  /** Every image of a multi-image icon file */
+  icons?: IconEntry[];
+  /** Cursor hotspot of the reported image, in pixels from the top-left corner */
+  hotspot?: { x: number; y: number };
+  /** Whether the image is animated, where determined */
+  animated?: boolean;
+  /** Animation timing, for animated images */
+  animation?: AnimationInfo;
+  /** Whether the image, or any frame of it, is stored interlaced */
+  interlaced?: boolean;
+  /** Camera RAW details: sensor and preview sizes, camera maker and model */
+  raw?: RawInfo;
+  /** Crop, rotation and mirroring applied for display, where the format declares them */
+  transform?: ImageTransform;
+  /** EXIF orientation (1-8), where the image carries EXIF metadata */
+  orientation?: number;
+  /** Size of the image as displayed, after `transform` or `orientation` is applied */
+  displayWidth?: number;
+  displayHeight?: number;
+  /** Alpha planes, depth maps and thumbnails stored alongside the image */
+  auxiliaryImages?: AuxiliaryImage[];
+  /** Transfer function, content light levels and mastering display, where the format signals them */
+  hdr?: HdrInfo;
+  /** Gain map stored alongside the base image, with its size and parameters where readable */
+  gainMap?: GainMapInfo;
+  /** Every image of a multi-picture JPEG, the primary image first */
+  embeddedImages?: EmbeddedImage[];
+  /** Camera and capture details from EXIF metadata, with the `exif` option */
+  exif?: ExifInfo;
 }
 
 /**
@@ -62,6 +410,23 @@ export interface ImageSpecsOptions {
   maxBytes?: number;
   /** User agent string for HTTP requests */
   userAgent?: string;
+  /**
+   * Walk the whole file for details past the headers, such as GIF animation
+   * frames (default: false). Unless `maxBytes` is set, up to 16MB is read.
+   */
+  fullScan?: boolean;
+  /** Read camera and capture details from EXIF metadata into `exif` (default: false) */
+  exif?: boolean;
+}
+
+/**
+ * Options passed through to parsers
+ */
+export interface ParseOptions {
+  /** Walk the whole buffer for details past the headers */
+  fullScan?: boolean;
+  /** Read camera and capture details from EXIF metadata */
+  exif?: boolean;
 }
 
 /**
@@ -94,6 +459,57 @@ export interface ParseResult {
   bitDepth?: number;
   /** Number of color channels */
   channels?: number;
+  /** Chroma subsampling */
+  chromaSubsampling?: string;
+  /** Whether the image has an alpha channel */
+  hasAlpha?: boolean;
+  /** Sample format: unsigned integer or floating point */
+  sampleFormat?: 'uint' | 'float';
+  /** Alpha bits per pixel */
+  alphaBits?: number;
+  /** Corner of the first stored pixel */
+  origin?: string;
+  /** Pixel aspect ratio (width / height) */
+  pixelAspectRatio?: number;
+  /** Texture layout */
+  texture?: TextureInfo;
+  /** Channel names */
+  channelNames?: string[];
+  /** Compression method */
+  compression?: string;
+  /** OpenEXR layout */
+  exr?: ExrInfo;
+  /** JPEG 2000 capture and display resolutions */
+  jp2?: Jp2Info;
+  /** Every image of a multi-image icon file */
+  icons?: IconEntry[];
+  /** Cursor hotspot of the reported image, in pixels from the top-left corner */
+  hotspot?: { x: number; y: number };
+  /** Whether the image is animated */
+  animated?: boolean;
+  /** Animation timing, for animated images */
+  animation?: AnimationInfo;
+  /** Whether any frame is interlaced */
+  interlaced?: boolean;
+  /** Camera RAW details */
+  raw?: RawInfo;
+  /** Crop, rotation and mirroring applied for display */
+  transform?: ImageTransform;
+  /** EXIF orientation (1-8) */
+  orientation?: number;
+  /** Size of the image as displayed */
+  displayWidth?: number;
+  displayHeight?: number;
+  /** Alpha planes, depth maps and thumbnails stored alongside the image */
+  auxiliaryImages?: AuxiliaryImage[];
+  /** HDR signalling */
+  hdr?: HdrInfo;
+  /** Gain map stored alongside the base image */
+  gainMap?: GainMapInfo;
+  /** Every image of a multi-picture JPEG */
+  embeddedImages?: EmbeddedImage[];
+  /** Camera and capture details from EXIF metadata */
+  exif?: ExifInfo;
 }
 
 /**
@@ -117,7 +533,7 @@ export function defined<T extends object>(obj: T): Defined<T> {
 /**
  * Parser function signature
  */
-export type Parser = (buffer: Buffer) => ParseResult | null;
+export type Parser = (buffer: Buffer, options?: ParseOptions) => ParseResult | null;
 
 /**
  * Input source type - can be URL string, Buffer, or Readable stream
@@ -160,4 +576,6 @@ export const DEFAULT_OPTIONS: Required<ImageSpecsOptions> = {
   headers: {},
   maxBytes: 65536, // 64KB
   userAgent: `image-specs/${PACKAGE_VERSION}`,
+  fullScan: false,
+  exif: false,
 };
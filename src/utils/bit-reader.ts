@@ -0,0 +1,46 @@
+/**
+ * BitReader for bit-packed headers, reading least significant bits first
+ */
+export class BitReader {
+  private readonly buffer: Buffer;
+  private bitPosition = 0;
+
+  constructor(buffer: Buffer, byteOffset = 0) {
+    this.buffer = buffer;
+    this.bitPosition = byteOffset * 8;
+  }
+
+  /**
+   * Read an unsigned integer of up to 32 bits
+   */
+  readBits(count: number): number {
+    if (this.bitPosition + count > this.buffer.length * 8) {
+      throw new Error('Attempt to read past buffer');
+    }
+
+    let value = 0;
+    for (let i = 0; i < count; i++) {
+      const byte = this.buffer[this.bitPosition >>> 3] ?? 0;
+      const bit = (byte >>> (this.bitPosition & 7)) & 1;
+      // Multiply rather than shift so 32-bit values stay unsigned
+      value += bit * 2 ** i;
+      this.bitPosition++;
+    }
+
+    return value;
+  }
+
+  /**
+   * Read a single bit as a boolean
+   */
+  readBool(): boolean {
+    return this.readBits(1) === 1;
+  }
+
+  /**
+   * Skip bits
+   */
+  skipBits(count: number): void {
+    this.bitPosition = Math.min(this.bitPosition + count, this.buffer.length * 8);
+  }
+}
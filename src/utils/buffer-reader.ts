@@ -52,6 +52,20 @@ export class BufferReader {
     return value;
   }
 
+  /**
+   * Read unsigned 64-bit integer. Values above 2^53 lose precision, which is
+   * harmless for the offsets and sizes this is used for since no buffer is
+   * that large.
+   */
+  readUInt64(): number {
+    this.require(8);
+    const value = this.littleEndian
+      ? this.buffer.readBigUInt64LE(this.position)
+      : this.buffer.readBigUInt64BE(this.position);
+    this.position += 8;
+    return Number(value);
+  }
+
   /**
    * Read signed 32-bit integer
    */
@@ -64,6 +78,18 @@ export class BufferReader {
     return value;
   }
 
+  /**
+   * Read 32-bit IEEE 754 float
+   */
+  readFloat32(): number {
+    this.require(4);
+    const value = this.littleEndian
+      ? this.buffer.readFloatLE(this.position)
+      : this.buffer.readFloatBE(this.position);
+    this.position += 4;
+    return value;
+  }
+
   /**
    * Read string
    */
@@ -1,7 +1,8 @@
 /**
  * Common color space utilities
  */
-import { defined } from '../types.js';
+import { defined, type Chromaticity, type HdrInfo, type MasteringDisplay } from '../types.js';
+import type { BufferReader } from './buffer-reader.js';
 
 /**
  * Color space hints, matched in order against a lowercased profile string
@@ -39,6 +40,40 @@ const ICC_PROFILES: readonly { pattern: RegExp; name: string; colorSpace: string
   { pattern: /DCI-P3/, name: 'DCI-P3', colorSpace: 'DCI-P3' },
 ];
 
+/**
+ * Color space implied by CICP colour primaries (ITU-T H.273)
+ */
+const COLOR_SPACE_BY_PRIMARIES: Record<number, string> = {
+  1: 'sRGB', // BT.709
+  9: 'Rec. 2020', // BT.2020
+  11: 'DCI-P3',
+  12: 'Display P3',
+};
+
+/**
+ * Transfer function per CICP transfer characteristics
+ */
+const TRANSFER_FUNCTIONS: Record<number, string> = {
+  1: 'BT.709',
+  4: 'Gamma 2.2',
+  5: 'Gamma 2.8',
+  6: 'BT.601',
+  7: 'SMPTE 240M',
+  8: 'Linear',
+  13: 'sRGB',
+  14: 'BT.2020',
+  15: 'BT.2020',
+  16: 'PQ',
+  17: 'SMPTE 428',
+  18: 'HLG',
+};
+
+/** Mastering display chromaticities are stored in units of 0.00002 */
+const CHROMATICITY_UNITS = 50000;
+
+/** Mastering display luminance is stored in units of 0.0001 cd/m² */
+const LUMINANCE_UNITS = 10000;
+
 /** Signature of the ICC `desc` (text description) record: 'desc' as big-endian uint32 */
 const ICC_DESC_TYPE = 0x64657363;
 
@@ -114,3 +149,55 @@ export function identifyIccProfile(profile: Buffer): { iccProfile?: string; colo
 
   return defined({ iccProfile, colorSpace });
 }
+
+/**
+ * Determine color space from CICP colour primaries
+ */
+export function getColorSpaceFromPrimaries(primaries: number): string | undefined {
+  return COLOR_SPACE_BY_PRIMARIES[primaries];
+}
+
+/**
+ * Describe CICP code points, naming the transfer function where known
+ */
+export function describeCicp(
+  colorPrimaries: number,
+  transferCharacteristics: number,
+  matrixCoefficients: number,
+  fullRange: boolean
+): HdrInfo {
+  return {
+    ...defined({ transfer: TRANSFER_FUNCTIONS[transferCharacteristics] }),
+    colorPrimaries,
+    transferCharacteristics,
+    matrixCoefficients,
+    fullRange,
+  };
+}
+
+/**
+ * Read a mastering display colour volume (SMPTE ST 2086): three primaries,
+ * stored red first in PNG and green first in ISOBMFF, the white point, then
+ * the maximum and minimum luminance. Callers check that its 24 bytes are
+ * available.
+ */
+export function readMasteringDisplay(reader: BufferReader, order: 'rgb' | 'gbr'): MasteringDisplay {
+  const readChromaticity = (): Chromaticity => ({
+    x: reader.readUInt16() / CHROMATICITY_UNITS,
+    y: reader.readUInt16() / CHROMATICITY_UNITS,
+  });
+
+  const first = readChromaticity();
+  const second = readChromaticity();
+  const third = readChromaticity();
+  const [red, green, blue] = order === 'rgb' ? [first, second, third] : [third, first, second];
+
+  return {
+    red,
+    green,
+    blue,
+    whitePoint: readChromaticity(),
+    maxLuminance: reader.readUInt32() / LUMINANCE_UNITS,
+    minLuminance: reader.readUInt32() / LUMINANCE_UNITS,
+  };
+}
@@ -7,6 +7,21 @@ import { parseBMP } from '../parsers/bmp.js';
 import { parseSVG } from '../parsers/svg.js';
 import { parseAVIF } from '../parsers/avif.js';
 import { parseICO } from '../parsers/ico.js';
+import { parseTIFF } from '../parsers/tiff.js';
+import { parseJXL } from '../parsers/jxl.js';
+import { parseJP2 } from '../parsers/jp2.js';
+import { parsePSD } from '../parsers/psd.js';
+import { parseNetpbm } from '../parsers/netpbm.js';
+import { parseTGA, readTgaHeader } from '../parsers/tga.js';
+import { parseDDS } from '../parsers/dds.js';
+import { parseKTX } from '../parsers/ktx.js';
+import { parseEXR } from '../parsers/exr.js';
+import { parseRadiance } from '../parsers/radiance.js';
+import { parseICNS } from '../parsers/icns.js';
+import { parseANI } from '../parsers/ani.js';
+import { RAW_MIME_TYPES, identifyRaw, parseRAW } from '../parsers/raw.js';
+import { parseRAF } from '../parsers/raf.js';
+import { parseCR3 } from '../parsers/cr3.js';
 
 /**
  * Image format detector entry
@@ -33,20 +48,62 @@ function matchesSignature(buffer: Buffer, signature: string | number[], offset =
 }
 
 /**
- * AVIF is an ISOBMFF file whose ftyp box declares an 'avif' or 'avis' brand
+ * TIFF signature: byte order mark followed by version 42, or 43 for BigTIFF
  */
-function isAVIF(buffer: Buffer): boolean {
+function isTIFF(buffer: Buffer): boolean {
+  return (
+    matchesSignature(buffer, [0x49, 0x49, 0x2a, 0x00]) ||
+    matchesSignature(buffer, [0x4d, 0x4d, 0x00, 0x2a]) ||
+    matchesSignature(buffer, [0x49, 0x49, 0x2b, 0x00]) ||
+    matchesSignature(buffer, [0x4d, 0x4d, 0x00, 0x2b])
+  );
+}
+
+/**
+ * Check whether an ISOBMFF file's ftyp box declares any of the given brands
+ */
+function hasBrand(buffer: Buffer, brands: readonly string[]): boolean {
   if (!matchesSignature(buffer, 'ftyp', 4)) {
     return false;
   }
 
-  const brands = buffer.subarray(8, Math.min(buffer.length, 100)).toString('ascii');
-  return brands.includes('avif') || brands.includes('avis');
+  const declared = buffer.subarray(8, Math.min(buffer.length, 100)).toString('ascii');
+  return brands.some((brand) => declared.includes(brand));
+}
+
+/**
+ * Netpbm signature: P1-P7, PF or Pf followed by whitespace
+ */
+function isNetpbm(buffer: Buffer): boolean {
+  return /^P[1-7Ff]\s/.test(buffer.subarray(0, 3).toString('latin1'));
 }
 
 /**
- * Detector registry, ordered by reliability: binary signatures first, and the
- * text-based SVG check last because it is the least precise
+ * CUR signature: a cursor directory with at least one entry. The first four
+ * bytes alone also begin uncompressed TGA files, whose colour map start
+ * index would be read as the count.
+ */
+function isCUR(buffer: Buffer): boolean {
+  return (
+    matchesSignature(buffer, [0x00, 0x00, 0x02, 0x00]) &&
+    buffer.length >= 6 &&
+    buffer.readUInt16LE(4) > 0
+  );
+}
+
+/** ftyp brands of AVIF stills and sequences */
+const AVIF_BRANDS = ['avif', 'avis'];
+
+/** ftyp brands of HEVC-coded HEIF stills and sequences */
+const HEIC_BRANDS = ['heic', 'heix', 'hevc', 'hevx'];
+
+/** Generic HEIF brands, also listed by AVIF and HEIC files */
+const HEIF_BRANDS = ['mif1', 'msf1'];
+
+/**
+ * Detector registry, ordered by reliability: binary signatures first, then the
+ * text-based SVG check, and last TGA, which has no signature and is recognised
+ * only by a plausible header
  */
 const DETECTORS: readonly Detector[] = [
   { ext: 'jpg', parser: parseJPEG, validate: (b) => matchesSignature(b, [0xff, 0xd8]) },
@@ -71,7 +128,68 @@ const DETECTORS: readonly Detector[] = [
     parser: parseICO,
     validate: (b) => matchesSignature(b, [0x00, 0x00, 0x01, 0x00]),
   },
-  { ext: 'avif', parser: parseAVIF, validate: isAVIF },
+  {
+    ext: 'cur',
+    parser: parseICO,
+    validate: isCUR,
+  },
+  {
+    ext: 'ani',
+    parser: parseANI,
+    validate: (b) => matchesSignature(b, 'RIFF') && matchesSignature(b, 'ACON', 8),
+  },
+  { ext: 'icns', parser: parseICNS, validate: (b) => matchesSignature(b, 'icns') },
+  // TIFF-based RAW files pass the TIFF check too, so identify them first
+  ...Object.keys(RAW_MIME_TYPES).map((ext) => ({
+    ext,
+    parser: parseRAW,
+    validate: (b: Buffer) => identifyRaw(b)?.type === ext,
+  })),
+  { ext: 'tiff', parser: parseTIFF, validate: isTIFF },
+  { ext: 'raf', parser: parseRAF, validate: (b) => matchesSignature(b, 'FUJIFILMCCD-RAW ') },
+  { ext: 'psd', parser: parsePSD, validate: (b) => matchesSignature(b, '8BPS') },
+  { ext: 'exr', parser: parseEXR, validate: (b) => matchesSignature(b, [0x76, 0x2f, 0x31, 0x01]) },
+  { ext: 'dds', parser: parseDDS, validate: (b) => matchesSignature(b, 'DDS ') },
+  {
+    ext: 'ktx',
+    parser: parseKTX,
+    validate: (b) =>
+      matchesSignature(b, [0xab, 0x4b, 0x54, 0x58, 0x20, 0x31, 0x31, 0xbb, 0x0d, 0x0a, 0x1a, 0x0a]),
+  },
+  {
+    ext: 'ktx2',
+    parser: parseKTX,
+    validate: (b) =>
+      matchesSignature(b, [0xab, 0x4b, 0x54, 0x58, 0x20, 0x32, 0x30, 0xbb, 0x0d, 0x0a, 0x1a, 0x0a]),
+  },
+  {
+    ext: 'jxl',
+    parser: parseJXL,
+    validate: (b) =>
+      matchesSignature(b, [0xff, 0x0a]) ||
+      matchesSignature(b, [0x00, 0x00, 0x00, 0x0c, 0x4a, 0x58, 0x4c, 0x20, 0x0d, 0x0a, 0x87, 0x0a]),
+  },
+  {
+    ext: 'jp2',
+    parser: parseJP2,
+    validate: (b) =>
+      matchesSignature(
+        b,
+        [0x00, 0x00, 0x00, 0x0c, 0x6a, 0x50, 0x20, 0x20, 0x0d, 0x0a, 0x87, 0x0a]
+      ) || matchesSignature(b, [0xff, 0x4f, 0xff, 0x51]),
+  },
+  { ext: 'cr3', parser: parseCR3, validate: (b) => matchesSignature(b, 'ftypcrx ', 4) },
+  // AVIF and HEIC files also declare the generic HEIF brands, so check for
+  // their specific brands first
+  { ext: 'avif', parser: parseAVIF, validate: (b) => hasBrand(b, AVIF_BRANDS) },
+  { ext: 'heic', parser: parseAVIF, validate: (b) => hasBrand(b, HEIC_BRANDS) },
+  { ext: 'heif', parser: parseAVIF, validate: (b) => hasBrand(b, HEIF_BRANDS) },
+  { ext: 'pnm', parser: parseNetpbm, validate: isNetpbm },
+  {
+    ext: 'hdr',
+    parser: parseRadiance,
+    validate: (b) => matchesSignature(b, '#?RADIANCE') || matchesSignature(b, '#?RGBE'),
+  },
   {
     ext: 'svg',
     parser: parseSVG,
@@ -80,6 +198,7 @@ const DETECTORS: readonly Detector[] = [
       return head.includes('<svg') || head.includes('<!DOCTYPE svg');
     },
   },
+  { ext: 'tga', parser: parseTGA, validate: (b) => readTgaHeader(b) !== null },
 ];
 
 /**
@@ -93,7 +212,8 @@ export function detectFormat(buffer: Buffer): Parser | null {
  * Get all parsers in order (for fallback)
  */
 export function getAllParsers(): readonly Parser[] {
-  return DETECTORS.map((detector) => detector.parser);
+  // Some parsers serve several formats, so list each one once
+  return [...new Set(DETECTORS.map((detector) => detector.parser))];
 }
 
 /**
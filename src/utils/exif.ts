@@ -0,0 +1,135 @@
+/**
+ * EXIF blocks: TIFF structures embedded in JPEG APP1 segments, PNG eXIf and
+ * WebP EXIF chunks, and HEIF Exif items
+ */
+import { defined, type ExifInfo } from '../types.js';
+import {
+  FIELD_TYPES,
+  IFD_TAGS,
+  readBytes,
+  readIfd,
+  readNumber,
+  readTiffHeader,
+  type Ifd,
+  type TiffHeader,
+} from './ifd.js';
+
+/** Identifier preceding the TIFF header in JPEG APP1, and in some chunks and items */
+export const EXIF_IDENTIFIER = 'Exif\0\0';
+
+/**
+ * Camera and capture tags, in IFD0 and in the Exif IFD it points to
+ */
+const EXIF_TAGS = {
+  MAKE: 0x010f,
+  MODEL: 0x0110,
+  SOFTWARE: 0x0131,
+  EXPOSURE_TIME: 0x829a,
+  F_NUMBER: 0x829d,
+  EXIF_IFD: 0x8769,
+  ISO: 0x8827,
+  DATE_TIME_ORIGINAL: 0x9003,
+  OFFSET_TIME: 0x9010,
+  OFFSET_TIME_ORIGINAL: 0x9011,
+  OFFSET_TIME_DIGITIZED: 0x9012,
+  FLASH: 0x9209,
+  FOCAL_LENGTH: 0x920a,
+  LENS_MODEL: 0xa434,
+} as const;
+
+/** Field types text is stored as: ASCII, or bytes by writers that skip the terminator */
+const TEXT_TYPES: readonly number[] = [FIELD_TYPES.ASCII, FIELD_TYPES.BYTE, FIELD_TYPES.UNDEFINED];
+
+/**
+ * The TIFF data of an EXIF block and its first directory
+ */
+export interface ExifBlock {
+  tiff: Buffer;
+  header: TiffHeader;
+  ifd0: Ifd;
+}
+
+/**
+ * Open an EXIF block: TIFF data, with or without the `Exif\0\0` identifier
+ */
+export function readExifBlock(data: Buffer): ExifBlock | null {
+  const tiff =
+    data.toString('latin1', 0, EXIF_IDENTIFIER.length) === EXIF_IDENTIFIER
+      ? data.subarray(EXIF_IDENTIFIER.length)
+      : data;
+  const header = readTiffHeader(tiff);
+  if (!header || header.bigTiff) {
+    return null;
+  }
+
+  const ifd0 = readIfd(tiff, header, header.ifdOffset);
+  return ifd0 ? { tiff, header, ifd0 } : null;
+}
+
+/**
+ * Read the Orientation tag: 1 is upright, 2-4 mirror or rotate by 180
+ * degrees, and 5-8 transpose the image
+ */
+export function readOrientation({ tiff, header, ifd0 }: ExifBlock): number | undefined {
+  const orientation = readNumber(tiff, header, ifd0, IFD_TAGS.ORIENTATION);
+  return orientation !== undefined && orientation >= 1 && orientation <= 8
+    ? orientation
+    : undefined;
+}
+
+/**
+ * Size of an image displayed with an EXIF orientation, which swaps the sides
+ * for orientations 5-8
+ */
+export function orientedSize(
+  width: number,
+  height: number,
+  orientation: number
+): { displayWidth: number; displayHeight: number } {
+  return orientation >= 5
+    ? { displayWidth: height, displayHeight: width }
+    : { displayWidth: width, displayHeight: height };
+}
+
+/**
+ * Read a text tag up to its null terminator, trimmed
+ */
+function readText(tiff: Buffer, ifd: Ifd, tag: number): string | undefined {
+  const entry = ifd.entries.get(tag);
+  const bytes = entry && TEXT_TYPES.includes(entry.type) ? readBytes(tiff, ifd, tag) : undefined;
+  if (!bytes) {
+    return undefined;
+  }
+
+  const terminator = bytes.indexOf(0);
+  const text = bytes.toString('latin1', 0, terminator < 0 ? bytes.length : terminator).trim();
+  return text || undefined;
+}
+
+/**
+ * Read camera and capture details from IFD0 and the Exif IFD
+ */
+export function readExifInfo({ tiff, header, ifd0 }: ExifBlock): ExifInfo {
+  const exifIfdOffset = readNumber(tiff, header, ifd0, EXIF_TAGS.EXIF_IFD);
+  const exifIfd = exifIfdOffset ? readIfd(tiff, header, exifIfdOffset) : null;
+  const text = (tag: number): string | undefined =>
+    exifIfd ? readText(tiff, exifIfd, tag) : undefined;
+  const number = (tag: number): number | undefined =>
+    exifIfd ? readNumber(tiff, header, exifIfd, tag) : undefined;
+
+  return defined({
+    make: readText(tiff, ifd0, EXIF_TAGS.MAKE),
+    model: readText(tiff, ifd0, EXIF_TAGS.MODEL),
+    lensModel: text(EXIF_TAGS.LENS_MODEL),
+    software: readText(tiff, ifd0, EXIF_TAGS.SOFTWARE),
+    dateTimeOriginal: text(EXIF_TAGS.DATE_TIME_ORIGINAL),
+    offsetTimeOriginal: text(EXIF_TAGS.OFFSET_TIME_ORIGINAL),
+    offsetTimeDigitized: text(EXIF_TAGS.OFFSET_TIME_DIGITIZED),
+    offsetTime: text(EXIF_TAGS.OFFSET_TIME),
+    exposureTime: number(EXIF_TAGS.EXPOSURE_TIME),
+    fNumber: number(EXIF_TAGS.F_NUMBER),
+    iso: number(EXIF_TAGS.ISO),
+    focalLength: number(EXIF_TAGS.FOCAL_LENGTH),
+    flash: number(EXIF_TAGS.FLASH),
+  });
+}
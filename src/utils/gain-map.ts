@@ -0,0 +1,138 @@
+/**
+ * Gain map metadata, in the two forms it is stored in: the Adobe `hdrgm` XMP
+ * properties (used by Ultra HDR JPEG) and the ISO 21496-1 binary structure
+ * (used by AVIF `tmap` items and JPEG APP2 segments)
+ */
+import { defined, type GainMapInfo } from '../types.js';
+import { BufferReader } from './buffer-reader.js';
+
+/** XML namespace of the Adobe gain map properties */
+const HDRGM_NAMESPACE = 'http://ns.adobe.com/hdr-gain-map/1.0/';
+
+/** ISO 21496-1 flags */
+const ISO_MULTICHANNEL = 0x80;
+const ISO_BACKWARD_DIRECTION = 0x04;
+const ISO_COMMON_DENOMINATOR = 0x08;
+
+/**
+ * Gain map parameters, without the image size
+ */
+export type GainMapMetadata = Omit<GainMapInfo, 'width' | 'height'>;
+
+/**
+ * Read the values of an `hdrgm` property, written as an attribute or as an
+ * element holding a single value or an `rdf:Seq` of per-channel values
+ */
+function readXmpProperty(xmp: string, name: string): string[] | undefined {
+  const attribute = new RegExp(`\\bhdrgm:${name}\\s*=\\s*["']([^"']*)["']`).exec(xmp);
+  if (attribute?.[1] !== undefined) {
+    return [attribute[1].trim()];
+  }
+
+  const element = new RegExp(`<hdrgm:${name}>([\\s\\S]*?)</hdrgm:${name}>`).exec(xmp);
+  const content = element?.[1];
+  if (content === undefined) {
+    return undefined;
+  }
+
+  const items = [...content.matchAll(/<rdf:li[^>]*>([^<]*)<\/rdf:li>/g)].map(([, value = '']) =>
+    value.trim()
+  );
+  return items.length > 0 ? items : [content.trim()];
+}
+
+/**
+ * Read gain map parameters from XMP. Returns null when the packet has neither
+ * `hdrgm` properties nor a GContainer directory item for a gain map.
+ */
+export function parseGainMapXmp(xmp: string): GainMapMetadata | null {
+  if (!xmp.includes(HDRGM_NAMESPACE) && !/Item:Semantic\s*=\s*["']GainMap["']/.test(xmp)) {
+    return null;
+  }
+
+  const numbers = (name: string): number[] | undefined => {
+    const values = readXmpProperty(xmp, name)?.map(Number);
+    return values?.length && values.every(Number.isFinite) ? values : undefined;
+  };
+  const baseRendition = readXmpProperty(xmp, 'BaseRenditionIsHDR')?.[0]?.toLowerCase();
+
+  return defined({
+    version: readXmpProperty(xmp, 'Version')?.[0],
+    hdrCapacityMin: numbers('HDRCapacityMin')?.[0],
+    hdrCapacityMax: numbers('HDRCapacityMax')?.[0],
+    gainMapMin: numbers('GainMapMin'),
+    gainMapMax: numbers('GainMapMax'),
+    gamma: numbers('Gamma'),
+    offsetSdr: numbers('OffsetSDR'),
+    offsetHdr: numbers('OffsetHDR'),
+    baseRenditionIsHdr: baseRendition !== undefined ? baseRendition === 'true' : undefined,
+  });
+}
+
+/**
+ * Read ISO 21496-1 gain map metadata: minimum and writer versions, flags,
+ * the base and alternate HDR headrooms, then per channel the gain range,
+ * gamma and offsets, all as fractions. A structure holding only the versions,
+ * as the base image of a JPEG carries, or one of an unknown version, still
+ * marks the gain map as present.
+ */
+export function parseIsoGainMap(data: Buffer): GainMapMetadata | null {
+  if (data.length < 4) {
+    return null;
+  }
+
+  const reader = new BufferReader(data);
+  const minimumVersion = reader.readUInt16();
+  reader.skip(2); // Writer version
+  if (minimumVersion !== 0 || !reader.canRead(1)) {
+    return {};
+  }
+
+  const flags = reader.readUInt8();
+  const channels = flags & ISO_MULTICHANNEL ? 3 : 1;
+  const commonDenominator = flags & ISO_COMMON_DENOMINATOR ? 1 : 0;
+
+  // Each channel has five fractions, after the two headrooms
+  const fractionSize = commonDenominator ? 4 : 8;
+  if (!reader.canRead(commonDenominator * 4 + (2 + channels * 5) * fractionSize)) {
+    return {};
+  }
+
+  const denominator = commonDenominator ? reader.readUInt32() : 0;
+  const readFraction = (signed: boolean): number => {
+    const numerator = signed ? reader.readInt32() : reader.readUInt32();
+    const divisor = commonDenominator ? denominator : reader.readUInt32();
+    return divisor > 0 ? numerator / divisor : NaN;
+  };
+
+  const baseHeadroom = readFraction(false);
+  const alternateHeadroom = readFraction(false);
+  const channelValues = Array.from({ length: channels }, () => ({
+    gainMapMin: readFraction(true),
+    gainMapMax: readFraction(true),
+    gamma: readFraction(false),
+    baseOffset: readFraction(true),
+    alternateOffset: readFraction(true),
+  }));
+
+  const values = (key: keyof (typeof channelValues)[number]): number[] | undefined => {
+    const list = channelValues.map((channel) => channel[key]);
+    return list.every(Number.isFinite) ? list : undefined;
+  };
+
+  // In the backward direction the base image is the HDR rendition
+  const baseIsHdr = (flags & ISO_BACKWARD_DIRECTION) !== 0;
+  const finite = (value: number): number | undefined =>
+    Number.isFinite(value) ? value : undefined;
+
+  return defined({
+    hdrCapacityMin: finite(baseIsHdr ? alternateHeadroom : baseHeadroom),
+    hdrCapacityMax: finite(baseIsHdr ? baseHeadroom : alternateHeadroom),
+    gainMapMin: values('gainMapMin'),
+    gainMapMax: values('gainMapMax'),
+    gamma: values('gamma'),
+    offsetSdr: values(baseIsHdr ? 'alternateOffset' : 'baseOffset'),
+    offsetHdr: values(baseIsHdr ? 'baseOffset' : 'alternateOffset'),
+    baseRenditionIsHdr: baseIsHdr,
+  });
+}
@@ -0,0 +1,256 @@
+/**
+ * HEIF item structure: the meta box that AVIF and HEIC files describe their
+ * images with. Each image is an item, with properties shared through ipco
+ * and associated with items by ipma.
+ */
+import { BufferReader } from './buffer-reader.js';
+import { readBoxes, type Box } from './isobmff.js';
+
+/**
+ * Where an item's data is stored: in the file (construction method 0) or in
+ * the idat box (construction method 1), as one or more extents
+ */
+export interface ItemLocation {
+  constructionMethod: number;
+  extents: { offset: number; length: number }[];
+}
+
+/**
+ * A typed reference from one item to others (e.g., 'dimg' from a grid to
+ * its tiles, 'auxl' from an alpha plane to its image)
+ */
+export interface ItemReference {
+  type: string;
+  from: number;
+  to: number[];
+}
+
+/**
+ * Contents of a meta box
+ */
+export interface HeifMeta {
+  /** Item ID of the primary image, from pitm */
+  primaryItemId?: number;
+  /** Item type (e.g., 'av01', 'grid', 'Exif') per item ID, from iinf */
+  itemTypes: Map<number, string>;
+  /** Property boxes in ipco order */
+  properties: Box[];
+  /** Indices into `properties` per item ID, from ipma */
+  associations: Map<number, number[]>;
+  /** Item references, from iref */
+  references: ItemReference[];
+  /** Data locations per item ID, from iloc */
+  locations: Map<number, ItemLocation>;
+  /** Payload range of the idat box */
+  idat?: Box;
+}
+
+/**
+ * Read a full box's version and flags, returning a reader over the rest of
+ * its payload. Reads past the box end throw.
+ */
+function openFullBox(
+  buffer: Buffer,
+  box: Box
+): { reader: BufferReader; version: number; flags: number } {
+  const reader = new BufferReader(buffer.subarray(box.start, Math.min(box.end, buffer.length)));
+  const header = reader.readUInt32();
+  return { reader, version: header >>> 24, flags: header & 0xffffff };
+}
+
+/**
+ * Read an unsigned integer of 0, 2, 4 or 8 bytes, as iloc sizes its fields
+ */
+function readSized(reader: BufferReader, bytes: number): number {
+  switch (bytes) {
+    case 2:
+      return reader.readUInt16();
+    case 4:
+      return reader.readUInt32();
+    case 8:
+      return reader.readUInt64();
+    default:
+      return 0;
+  }
+}
+
+function parsePitm(buffer: Buffer, box: Box, meta: HeifMeta): void {
+  const { reader, version } = openFullBox(buffer, box);
+  meta.primaryItemId = version === 0 ? reader.readUInt16() : reader.readUInt32();
+}
+
+function parseIinf(buffer: Buffer, box: Box, meta: HeifMeta): void {
+  const { version } = openFullBox(buffer, box);
+  const entriesStart = box.start + (version === 0 ? 6 : 8);
+
+  for (const infe of readBoxes(buffer, entriesStart, box.end)) {
+    const { reader, version: infeVersion } = openFullBox(buffer, infe);
+    // Versions before 2 have no item type
+    if (infe.type === 'infe' && infeVersion >= 2) {
+      const itemId = infeVersion === 2 ? reader.readUInt16() : reader.readUInt32();
+      reader.skip(2); // Item protection index
+      meta.itemTypes.set(itemId, reader.readString(4, 'latin1'));
+    }
+  }
+}
+
+function parseIpma(buffer: Buffer, box: Box, meta: HeifMeta): void {
+  const { reader, version, flags } = openFullBox(buffer, box);
+  const entryCount = reader.readUInt32();
+
+  for (let i = 0; i < entryCount; i++) {
+    const itemId = version < 1 ? reader.readUInt16() : reader.readUInt32();
+    const count = reader.readUInt8();
+    const indices: number[] = [];
+
+    for (let j = 0; j < count; j++) {
+      // The top bit marks the property essential; indices are 1-based, 0 meaning none
+      const index = flags & 1 ? reader.readUInt16() & 0x7fff : reader.readUInt8() & 0x7f;
+      if (index > 0) indices.push(index - 1);
+    }
+    meta.associations.set(itemId, [...(meta.associations.get(itemId) ?? []), ...indices]);
+  }
+}
+
+function parseIloc(buffer: Buffer, box: Box, meta: HeifMeta): void {
+  const { reader, version } = openFullBox(buffer, box);
+  const sizes = reader.readUInt16();
+  const offsetSize = sizes >> 12;
+  const lengthSize = (sizes >> 8) & 0x0f;
+  const baseOffsetSize = (sizes >> 4) & 0x0f;
+  const indexSize = version >= 1 ? sizes & 0x0f : 0;
+  const itemCount = version < 2 ? reader.readUInt16() : reader.readUInt32();
+
+  for (let i = 0; i < itemCount; i++) {
+    const itemId = version < 2 ? reader.readUInt16() : reader.readUInt32();
+    const constructionMethod = version >= 1 ? reader.readUInt16() & 0x0f : 0;
+    reader.skip(2); // Data reference index
+    const baseOffset = readSized(reader, baseOffsetSize);
+    const extentCount = reader.readUInt16();
+    const extents: ItemLocation['extents'] = [];
+
+    for (let j = 0; j < extentCount; j++) {
+      readSized(reader, indexSize);
+      const offset = baseOffset + readSized(reader, offsetSize);
+      extents.push({ offset, length: readSized(reader, lengthSize) });
+    }
+    meta.locations.set(itemId, { constructionMethod, extents });
+  }
+}
+
+function parseIref(buffer: Buffer, box: Box, meta: HeifMeta): void {
+  const { version } = openFullBox(buffer, box);
+
+  for (const reference of readBoxes(buffer, box.start + 4, box.end)) {
+    const reader = new BufferReader(buffer.subarray(reference.start, reference.end));
+    const readId = (): number => (version === 0 ? reader.readUInt16() : reader.readUInt32());
+    const from = readId();
+    const count = reader.readUInt16();
+    const to = Array.from({ length: count }, readId);
+    meta.references.push({ type: reference.type, from, to });
+  }
+}
+
+/**
+ * Parse the item structure of a meta box. A malformed child box is skipped,
+ * keeping what the others describe.
+ */
+export function parseMeta(buffer: Buffer, metaBox: Box): HeifMeta {
+  const meta: HeifMeta = {
+    itemTypes: new Map(),
+    properties: [],
+    associations: new Map(),
+    references: [],
+    locations: new Map(),
+  };
+
+  // Version and flags precede the child boxes
+  for (const box of readBoxes(buffer, metaBox.start + 4, metaBox.end)) {
+    try {
+      switch (box.type) {
+        case 'pitm':
+          parsePitm(buffer, box, meta);
+          break;
+        case 'iinf':
+          parseIinf(buffer, box, meta);
+          break;
+        case 'iprp':
+          for (const child of readBoxes(buffer, box.start, box.end)) {
+            if (child.type === 'ipco') {
+              meta.properties = readBoxes(buffer, child.start, child.end);
+            } else if (child.type === 'ipma') {
+              parseIpma(buffer, child, meta);
+            }
+          }
+          break;
+        case 'iloc':
+          parseIloc(buffer, box, meta);
+          break;
+        case 'iref':
+          parseIref(buffer, box, meta);
+          break;
+        case 'idat':
+          meta.idat = box;
+          break;
+      }
+    } catch {
+      // Truncated or malformed; keep what was read
+    }
+  }
+
+  return meta;
+}
+
+/**
+ * Properties associated with an item, in association order
+ */
+export function getItemProperties(meta: HeifMeta, itemId: number): Box[] {
+  return (meta.associations.get(itemId) ?? []).flatMap((index) => {
+    const property = meta.properties[index];
+    return property ? [property] : [];
+  });
+}
+
+/**
+ * Items referenced from an item with a reference of the given type
+ */
+export function getReferencedItems(meta: HeifMeta, from: number, type: string): number[] {
+  return meta.references
+    .filter((reference) => reference.from === from && reference.type === type)
+    .flatMap(({ to }) => to);
+}
+
+/**
+ * Read an item's data, when all of it is within the buffer
+ */
+export function readItemData(buffer: Buffer, meta: HeifMeta, itemId: number): Buffer | null {
+  const location = meta.locations.get(itemId);
+  if (!location || location.extents.length === 0) {
+    return null;
+  }
+
+  let base: number;
+  let end: number;
+  if (location.constructionMethod === 0) {
+    base = 0;
+    end = buffer.length;
+  } else if (location.constructionMethod === 1 && meta.idat) {
+    base = meta.idat.start;
+    end = Math.min(meta.idat.end, buffer.length);
+  } else {
+    return null;
+  }
+
+  const parts: Buffer[] = [];
+  for (const { offset, length } of location.extents) {
+    const start = base + offset;
+    // A zero length extends to the end of the source
+    const stop = length > 0 ? start + length : end;
+    if (start > end || stop > end) {
+      return null;
+    }
+    parts.push(buffer.subarray(start, stop));
+  }
+
+  return parts.length === 1 ? (parts[0] ?? null) : Buffer.concat(parts);
+}
@@ -0,0 +1,308 @@
+/**
+ * TIFF image file directory (IFD) utilities, shared by the TIFF parser and
+ * the EXIF blocks embedded in other formats
+ */
+import { BufferReader } from './buffer-reader.js';
+
+/** Centimetres per inch, for converting densities to DPI */
+const CM_PER_INCH = 2.54;
+
+/** Classic TIFF version number */
+const TIFF_VERSION = 42;
+
+/** BigTIFF version number; counts and offsets are 64-bit */
+const BIGTIFF_VERSION = 43;
+
+/**
+ * Tags shared by every TIFF-based structure
+ */
+export const IFD_TAGS = {
+  ORIENTATION: 0x0112,
+  X_RESOLUTION: 0x011a,
+  Y_RESOLUTION: 0x011b,
+  RESOLUTION_UNIT: 0x0128,
+} as const;
+
+/**
+ * TIFF field types
+ */
+export const FIELD_TYPES = {
+  BYTE: 1,
+  ASCII: 2,
+  SHORT: 3,
+  LONG: 4,
+  RATIONAL: 5,
+  SBYTE: 6,
+  UNDEFINED: 7,
+  SSHORT: 8,
+  SLONG: 9,
+  SRATIONAL: 10,
+  IFD: 13,
+  LONG8: 16,
+  IFD8: 18,
+} as const;
+
+/**
+ * Byte size of a single value of each field type. Types missing here (such
+ * as FLOAT and DOUBLE) are skipped when reading a directory.
+ */
+const FIELD_SIZES: Record<number, number> = {
+  [FIELD_TYPES.BYTE]: 1,
+  [FIELD_TYPES.ASCII]: 1,
+  [FIELD_TYPES.SHORT]: 2,
+  [FIELD_TYPES.LONG]: 4,
+  [FIELD_TYPES.RATIONAL]: 8,
+  [FIELD_TYPES.SBYTE]: 1,
+  [FIELD_TYPES.UNDEFINED]: 1,
+  [FIELD_TYPES.SSHORT]: 2,
+  [FIELD_TYPES.SLONG]: 4,
+  [FIELD_TYPES.SRATIONAL]: 8,
+  [FIELD_TYPES.IFD]: 4,
+  [FIELD_TYPES.LONG8]: 8,
+  [FIELD_TYPES.IFD8]: 8,
+};
+
+/**
+ * Byte order and layout of a TIFF structure
+ */
+export interface TiffHeader {
+  littleEndian: boolean;
+  /** BigTIFF uses 64-bit counts and offsets */
+  bigTiff: boolean;
+  /** Offset of IFD0 from the start of the TIFF data */
+  ifdOffset: number;
+}
+
+/**
+ * A directory entry, with its value located but not yet decoded
+ */
+export interface IfdEntry {
+  tag: number;
+  type: number;
+  count: number;
+  /** Offset of the value bytes from the start of the TIFF data */
+  valueOffset: number;
+}
+
+/**
+ * A decoded directory: its entries keyed by tag, and the offset of the next
+ * directory in the chain (0 at the end)
+ */
+export interface Ifd {
+  entries: Map<number, IfdEntry>;
+  nextIfdOffset: number;
+}
+
+/**
+ * Read the TIFF header at the start of `tiff`
+ */
+export function readTiffHeader(tiff: Buffer): TiffHeader | null {
+  if (tiff.length < 8) {
+    return null;
+  }
+
+  const byteOrder = tiff.toString('latin1', 0, 2);
+  if (byteOrder !== 'II' && byteOrder !== 'MM') {
+    return null;
+  }
+
+  const littleEndian = byteOrder === 'II';
+  const reader = new BufferReader(tiff, littleEndian);
+  reader.skip(2);
+  const version = reader.readUInt16();
+
+  if (version === TIFF_VERSION) {
+    return { littleEndian, bigTiff: false, ifdOffset: reader.readUInt32() };
+  }
+
+  // BigTIFF: offset byte size (always 8), a zero pad, then a 64-bit offset
+  if (version === BIGTIFF_VERSION && reader.canRead(12) && reader.readUInt16() === 8) {
+    reader.skip(2);
+    return { littleEndian, bigTiff: true, ifdOffset: reader.readUInt64() };
+  }
+
+  return null;
+}
+
+/**
+ * Read the directory at `offset`. Entries that run past the end of the
+ * buffer are dropped, so a truncated directory still yields its leading tags.
+ */
+export function readIfd(tiff: Buffer, header: TiffHeader, offset: number): Ifd | null {
+  const countSize = header.bigTiff ? 8 : 2;
+  const entrySize = header.bigTiff ? 20 : 12;
+  const inlineSize = header.bigTiff ? 8 : 4;
+
+  if (offset < 8 || offset + countSize > tiff.length) {
+    return null;
+  }
+
+  const reader = new BufferReader(tiff, header.littleEndian);
+  reader.seek(offset);
+  const count = header.bigTiff ? reader.readUInt64() : reader.readUInt16();
+  const entries = new Map<number, IfdEntry>();
+  let entriesRead = 0;
+
+  for (; entriesRead < count && reader.canRead(entrySize); entriesRead++) {
+    const tag = reader.readUInt16();
+    const type = reader.readUInt16();
+    const valueCount = header.bigTiff ? reader.readUInt64() : reader.readUInt32();
+    const fieldOffset = reader.getPosition();
+    const fieldSize = FIELD_SIZES[type];
+
+    if (fieldSize !== undefined && !entries.has(tag)) {
+      // Values that fit in the field are stored inline, anything larger is
+      // referenced by offset
+      const valueOffset =
+        fieldSize * valueCount <= inlineSize
+          ? fieldOffset
+          : header.bigTiff
+            ? reader.readUInt64()
+            : reader.readUInt32();
+      entries.set(tag, { tag, type, count: valueCount, valueOffset });
+    }
+
+    reader.seek(fieldOffset + inlineSize);
+  }
+
+  let nextIfdOffset = 0;
+  if (entriesRead === count && reader.canRead(inlineSize)) {
+    nextIfdOffset = header.bigTiff ? reader.readUInt64() : reader.readUInt32();
+  }
+
+  return { entries, nextIfdOffset };
+}
+
+/**
+ * Read one value of a numeric field type, or NaN for a zero-denominator
+ * rational
+ */
+function readValue(reader: BufferReader, type: number): number {
+  switch (type) {
+    case FIELD_TYPES.BYTE:
+    case FIELD_TYPES.UNDEFINED:
+      return reader.readUInt8();
+    case FIELD_TYPES.SBYTE:
+      return (reader.readUInt8() << 24) >> 24;
+    case FIELD_TYPES.SHORT:
+      return reader.readUInt16();
+    case FIELD_TYPES.SSHORT:
+      return (reader.readUInt16() << 16) >> 16;
+    case FIELD_TYPES.SLONG:
+      return reader.readInt32();
+    case FIELD_TYPES.RATIONAL: {
+      const numerator = reader.readUInt32();
+      const denominator = reader.readUInt32();
+      return denominator > 0 ? numerator / denominator : NaN;
+    }
+    case FIELD_TYPES.SRATIONAL: {
+      const numerator = reader.readInt32();
+      const denominator = reader.readInt32();
+      return denominator !== 0 ? numerator / denominator : NaN;
+    }
+    case FIELD_TYPES.LONG8:
+    case FIELD_TYPES.IFD8:
+      return reader.readUInt64();
+    default:
+      return reader.readUInt32();
+  }
+}
+
+/**
+ * Read up to `limit` numeric values of an entry. Returns an empty array when
+ * the values lie outside the buffer or the field is not numeric.
+ */
+export function readNumbers(
+  tiff: Buffer,
+  header: TiffHeader,
+  entry: IfdEntry,
+  limit = entry.count
+): number[] {
+  const size = FIELD_SIZES[entry.type];
+  const count = Math.min(entry.count, limit);
+  if (
+    size === undefined ||
+    entry.type === FIELD_TYPES.ASCII ||
+    entry.valueOffset + size * count > tiff.length
+  ) {
+    return [];
+  }
+
+  const reader = new BufferReader(tiff, header.littleEndian);
+  reader.seek(entry.valueOffset);
+
+  return Array.from({ length: count }, () => readValue(reader, entry.type));
+}
+
+/**
+ * Read the first numeric value of a tag, if present and well-formed
+ */
+export function readNumber(
+  tiff: Buffer,
+  header: TiffHeader,
+  ifd: Ifd,
+  tag: number
+): number | undefined {
+  const entry = ifd.entries.get(tag);
+  const value = entry ? readNumbers(tiff, header, entry, 1)[0] : undefined;
+  return value !== undefined && Number.isFinite(value) ? value : undefined;
+}
+
+/**
+ * Read the raw value bytes of a tag, if they lie within the buffer
+ */
+export function readBytes(tiff: Buffer, ifd: Ifd, tag: number): Buffer | undefined {
+  const entry = ifd.entries.get(tag);
+  const size = entry ? (FIELD_SIZES[entry.type] ?? 0) * entry.count : 0;
+  if (!entry || size === 0 || entry.valueOffset + size > tiff.length) {
+    return undefined;
+  }
+
+  return tiff.subarray(entry.valueOffset, entry.valueOffset + size);
+}
+
+/**
+ * Read an ASCII tag up to its null terminator, trimmed
+ */
+export function readAscii(tiff: Buffer, ifd: Ifd, tag: number): string | undefined {
+  const entry = ifd.entries.get(tag);
+  const bytes = entry?.type === FIELD_TYPES.ASCII ? readBytes(tiff, ifd, tag) : undefined;
+  if (!bytes) {
+    return undefined;
+  }
+
+  const terminator = bytes.indexOf(0);
+  const text = bytes.toString('latin1', 0, terminator < 0 ? bytes.length : terminator).trim();
+  return text || undefined;
+}
+
+/**
+ * Read XResolution/YResolution and convert them to DPI using ResolutionUnit
+ */
+export function readResolution(
+  tiff: Buffer,
+  header: TiffHeader,
+  ifd: Ifd
+): { wResolution?: number; hResolution?: number } {
+  const xResolution = readNumber(tiff, header, ifd, IFD_TAGS.X_RESOLUTION);
+  const yResolution = readNumber(tiff, header, ifd, IFD_TAGS.Y_RESOLUTION);
+  const resolutionUnit = readNumber(tiff, header, ifd, IFD_TAGS.RESOLUTION_UNIT) ?? 2; // Default to inches
+
+  if (!xResolution || !yResolution) {
+    return {};
+  }
+
+  // Unit 3 is centimetres, unit 2 is inches; anything else is unitless
+  if (resolutionUnit === 3) {
+    return {
+      wResolution: Math.round(xResolution * CM_PER_INCH),
+      hResolution: Math.round(yResolution * CM_PER_INCH),
+    };
+  }
+
+  if (resolutionUnit === 2) {
+    return { wResolution: Math.round(xResolution), hResolution: Math.round(yResolution) };
+  }
+
+  return {};
+}
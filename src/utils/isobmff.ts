@@ -0,0 +1,117 @@
+/**
+ * ISOBMFF (ISO base media file format) box utilities, shared by the formats
+ * built on it
+ */
+import { BufferReader } from './buffer-reader.js';
+
+/**
+ * Parse ISOBMFF box structure
+ */
+export function parseBox(
+  reader: BufferReader,
+  endPosition = reader.getBuffer().length
+): { type: string; size: number; dataOffset: number } | null {
+  const boxStart = reader.getPosition();
+
+  if (endPosition - boxStart < 8 || !reader.canRead(8)) {
+    return null;
+  }
+
+  let size = reader.readUInt32();
+  const type = reader.readString(4);
+  let dataOffset = reader.getPosition();
+
+  // Handle extended size
+  if (size === 1) {
+    if (endPosition - reader.getPosition() < 8 || !reader.canRead(8)) {
+      return null;
+    }
+    // Read 64-bit size (we'll only use the lower 32 bits)
+    reader.skip(4); // Skip upper 32 bits
+    size = reader.readUInt32();
+    dataOffset = reader.getPosition();
+  } else if (size === 0) {
+    // Box extends to the end of its containing box
+    size = endPosition - boxStart;
+  }
+
+  const headerSize = dataOffset - boxStart;
+  if (size < headerSize || size > endPosition - boxStart) {
+    return null;
+  }
+
+  return { type, size, dataOffset };
+}
+
+/**
+ * Find a box of the given type among the siblings starting at the reader's
+ * position, returning the offset and size of its payload
+ */
+export function findBox(
+  reader: BufferReader,
+  endPosition: number,
+  boxType: string
+): { position: number; size: number } | null {
+  while (reader.getPosition() < endPosition) {
+    const boxStart = reader.getPosition();
+    const box = parseBox(reader, endPosition);
+    if (!box) {
+      break;
+    }
+
+    if (box.type === boxType) {
+      return { position: box.dataOffset, size: box.size - (box.dataOffset - boxStart) };
+    }
+
+    reader.seek(boxStart + box.size);
+  }
+
+  return null;
+}
+
+/**
+ * A box, with the range of its payload. The end may lie beyond the buffer.
+ */
+export interface Box {
+  type: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * List the boxes between `start` and `end`, stopping at the end of the buffer
+ */
+export function readBoxes(buffer: Buffer, start: number, end: number): Box[] {
+  const reader = new BufferReader(buffer);
+  const boxes: Box[] = [];
+  let position = start;
+
+  while (position + 8 <= Math.min(end, buffer.length)) {
+    reader.seek(position);
+    const box = parseBox(reader, end);
+    if (!box) {
+      break;
+    }
+
+    boxes.push({ type: box.type, start: box.dataOffset, end: position + box.size });
+    position += box.size;
+  }
+
+  return boxes;
+}
+
+/**
+ * Follow a path of box types down from the boxes in a range
+ */
+export function findPath(buffer: Buffer, start: number, end: number, path: string[]): Box | null {
+  let box: Box | null = { type: '', start, end };
+
+  for (const type of path) {
+    box = readBoxes(buffer, box.start, box.end).find((child) => child.type === type) ?? null;
+    if (!box) {
+      return null;
+    }
+  }
+
+  return box;
+}
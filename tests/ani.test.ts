@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import { parseANI } from '../src/parsers/ani.js';
+import { detectFormat } from '../src/utils/detector.js';
+
+function chunk(id: string, data: Buffer): Buffer {
+  const header = Buffer.alloc(8);
+  header.write(id, 0, 'latin1');
+  header.writeUInt32LE(data.length, 4);
+  const padding = Buffer.alloc(data.length % 2);
+  return Buffer.concat([header, data, padding]);
+}
+
+function riff(...chunks: Buffer[]): Buffer {
+  const body = Buffer.concat([Buffer.from('ACON', 'latin1'), ...chunks]);
+  const header = Buffer.alloc(8);
+  header.write('RIFF', 0, 'latin1');
+  header.writeUInt32LE(body.length, 4);
+  return Buffer.concat([header, body]);
+}
+
+function anih(frames: number, steps: number, displayRate: number, flags = 0x1): Buffer {
+  const data = Buffer.alloc(36);
+  data.writeUInt32LE(36, 0);
+  data.writeUInt32LE(frames, 4);
+  data.writeUInt32LE(steps, 8);
+  data.writeUInt32LE(displayRate, 28);
+  data.writeUInt32LE(flags, 32);
+  return chunk('anih', data);
+}
+
+function values(id: string, ...items: number[]): Buffer {
+  const data = Buffer.alloc(items.length * 4);
+  items.forEach((item, i) => data.writeUInt32LE(item, i * 4));
+  return chunk(id, data);
+}
+
+function cursor(size: number, x: number, y: number): Buffer {
+  const data = Buffer.alloc(22);
+  data.writeUInt16LE(2, 2);
+  data.writeUInt16LE(1, 4);
+  data[6] = size;
+  data[7] = size;
+  data.writeUInt16LE(x, 10);
+  data.writeUInt16LE(y, 12);
+  return chunk('icon', data);
+}
+
+function frames(...icons: Buffer[]): Buffer {
+  return chunk('LIST', Buffer.concat([Buffer.from('fram', 'latin1'), ...icons]));
+}
+
+describe('parseANI', () => {
+  it('reports frames, timing and the largest frame', () => {
+    const result = parseANI(riff(anih(2, 2, 6), frames(cursor(32, 1, 2), cursor(48, 3, 4))));
+
+    expect(result).toEqual({
+      width: 48,
+      height: 48,
+      type: 'ani',
+      mime: 'application/x-navi-animation',
+      wUnits: 'px',
+      hUnits: 'px',
+      hotspot: { x: 3, y: 4 },
+      icons: [
+        { width: 32, height: 32, hotspotX: 1, hotspotY: 2 },
+        { width: 48, height: 48, hotspotX: 3, hotspotY: 4 },
+      ],
+      animation: { frames: 2, loops: 0, delays: [100, 100], duration: 200 },
+    });
+  });
+
+  it('uses per-step rates and the frame sequence', () => {
+    const result = parseANI(
+      riff(
+        anih(2, 3, 10, 0x3),
+        values('rate', 3, 6, 12),
+        values('seq ', 0, 1, 0),
+        frames(cursor(32, 0, 0), cursor(32, 0, 0))
+      )
+    );
+
+    expect(result?.animation).toEqual({
+      frames: 2,
+      loops: 0,
+      delays: [50, 100, 200],
+      duration: 350,
+      sequence: [0, 1, 0],
+    });
+  });
+
+  it('ignores a sequence unless the header flags it', () => {
+    const result = parseANI(riff(anih(1, 2, 10), values('seq ', 0, 0), frames(cursor(32, 0, 0))));
+
+    expect(result?.animation?.sequence).toBeUndefined();
+  });
+
+  it('reads up to chunks whose sizes run past the buffer, however large', () => {
+    const list = frames(cursor(32, 0, 0));
+    list.writeUInt32LE(0x80000000, 4);
+    expect(parseANI(riff(anih(1, 1, 10), list))).toMatchObject({ width: 32, height: 32 });
+
+    const icon = cursor(48, 0, 0);
+    icon.writeUInt32LE(0xffffffff, 4);
+    expect(parseANI(riff(anih(1, 1, 10), frames(icon)))).toMatchObject({ width: 48 });
+  });
+
+  it('returns null without an animation header', () => {
+    expect(parseANI(riff(frames(cursor(32, 0, 0))))).toBeNull();
+  });
+
+  it('is detected from its RIFF form type', () => {
+    expect(detectFormat(riff(anih(1, 1, 10), frames(cursor(32, 0, 0))))).toBe(parseANI);
+  });
+});
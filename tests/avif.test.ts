@@ -0,0 +1,756 @@
+import { describe, it, expect } from 'vitest';
+import { parseAVIF } from '../src/parsers/avif.js';
+
+function isoBox(type: string, ...contents: Buffer[]): Buffer {
+  const data = Buffer.concat(contents);
+  const header = Buffer.alloc(8);
+  header.writeUInt32BE(header.length + data.length);
+  header.write(type, 4, 'ascii');
+  return Buffer.concat([header, data]);
+}
+
+/** A full box: version and flags, then the fields */
+function fullBox(type: string, version: number, flags: number, ...fields: Buffer[]): Buffer {
+  const header = Buffer.alloc(4);
+  header.writeUInt32BE(((version << 24) | flags) >>> 0);
+  return isoBox(type, header, ...fields);
+}
+
+function uint32(...values: number[]): Buffer {
+  const data = Buffer.alloc(values.length * 4);
+  values.forEach((value, i) => data.writeUInt32BE(value, i * 4));
+  return data;
+}
+
+function ftyp(...brands: string[]): Buffer {
+  const [major = 'avif', ...compatible] = brands;
+  return isoBox('ftyp', Buffer.from(major), Buffer.alloc(4), Buffer.from(compatible.join('')));
+}
+
+function ispe(width: number, height: number): Buffer {
+  return fullBox('ispe', 0, 0, uint32(width, height));
+}
+
+function meta(...properties: Buffer[]): Buffer {
+  return fullBox('meta', 0, 0, isoBox('iprp', isoBox('ipco', ...properties)));
+}
+
+function uint16(...values: number[]): Buffer {
+  const data = Buffer.alloc(values.length * 2);
+  values.forEach((value, i) => data.writeUInt16BE(value, i * 2));
+  return data;
+}
+
+interface Items {
+  primary: number;
+  /** Item ID and type of each item */
+  items: readonly [id: number, type: string][];
+  properties: readonly Buffer[];
+  /** 1-based indices into `properties` per item ID */
+  associations: readonly [id: number, indices: number[]][];
+  /** Further boxes in meta, such as iloc, idat and iref */
+  boxes?: readonly Buffer[];
+}
+
+/** A meta box describing items through pitm, iinf and ipma */
+function itemMeta({ primary, items, properties, associations, boxes = [] }: Items): Buffer {
+  const infe = items.map(([id, type]) =>
+    fullBox('infe', 2, 0, uint16(id, 0), Buffer.from(type), Buffer.alloc(1))
+  );
+  const ipma = fullBox(
+    'ipma',
+    0,
+    0,
+    uint32(associations.length),
+    ...associations.map(([id, indices]) =>
+      Buffer.concat([uint16(id), Buffer.from([indices.length, ...indices])])
+    )
+  );
+
+  return fullBox(
+    'meta',
+    0,
+    0,
+    fullBox('pitm', 0, 0, uint16(primary)),
+    fullBox('iinf', 0, 0, uint16(items.length), ...infe),
+    isoBox('iprp', isoBox('ipco', ...properties), ipma),
+    ...boxes
+  );
+}
+
+/** An iloc box (version 1) locating each item in a single extent */
+function iloc(
+  locations: readonly { id: number; constructionMethod: number; offset: number; length: number }[]
+): Buffer {
+  return fullBox(
+    'iloc',
+    1,
+    0,
+    uint16(0x4400, locations.length), // 4-byte offsets and lengths, no base offset or index
+    ...locations.map(({ id, constructionMethod, offset, length }) =>
+      Buffer.concat([uint16(id, constructionMethod, 0, 1), uint32(offset, length)])
+    )
+  );
+}
+
+function iref(type: string, from: number, ...to: number[]): Buffer {
+  return fullBox('iref', 0, 0, isoBox(type, uint16(from, to.length, ...to)));
+}
+
+function pixi(...bitDepths: number[]): Buffer {
+  return fullBox('pixi', 0, 0, Buffer.from([bitDepths.length, ...bitDepths]));
+}
+
+function hvcC(chromaFormat: number, bitDepth: number): Buffer {
+  const data = Buffer.alloc(23);
+  data[16] = 0xfc | chromaFormat;
+  data[17] = 0xf8 | (bitDepth - 8);
+  data[18] = 0xf8 | (bitDepth - 8);
+  return isoBox('hvcC', data);
+}
+
+function auxC(type: string): Buffer {
+  return fullBox('auxC', 0, 0, Buffer.from(type), Buffer.alloc(1));
+}
+
+function int32(...values: number[]): Buffer {
+  const data = Buffer.alloc(values.length * 4);
+  values.forEach((value, i) => data.writeInt32BE(value, i * 4));
+  return data;
+}
+
+function clap(width: number, height: number, horizontalOffset = 0, verticalOffset = 0): Buffer {
+  return isoBox('clap', int32(width, 1, height, 1, horizontalOffset, 1, verticalOffset, 1));
+}
+
+/** An nclx colr box: primaries, transfer and matrix code points, then the full range flag */
+function nclx(primaries: number, transfer: number, matrix: number, fullRange: boolean): Buffer {
+  return isoBox(
+    'colr',
+    Buffer.from('nclx'),
+    uint16(primaries, transfer, matrix),
+    Buffer.from([fullRange ? 0x80 : 0])
+  );
+}
+
+/** BT.2020 primaries in green, blue, red order, then the D65 white point, in units of 0.00002 */
+const BT2020_PRIMARIES = uint16(8500, 39850, 6550, 2300, 35400, 14600, 15635, 16450);
+
+interface Track {
+  handler?: string;
+  width: number;
+  height: number;
+  /** Track duration in movie units; undefined is indefinite */
+  trackDuration?: number;
+  timescale: number;
+  /** Runs of sample durations in media units */
+  samples: readonly [count: number, delta: number][];
+  /** Edit list: the segment duration in movie units, and whether it repeats */
+  edit?: { segmentDuration: number; repeat: boolean };
+}
+
+function trak({
+  handler = 'pict',
+  width,
+  height,
+  trackDuration,
+  timescale,
+  samples,
+  edit,
+}: Track): Buffer {
+  const tkhd = Buffer.alloc(80);
+  tkhd.writeUInt32BE(1, 8); // Track ID
+  tkhd.writeUInt32BE(trackDuration ?? 0xffffffff, 16);
+  tkhd.writeUInt32BE(width * 0x10000, 72);
+  tkhd.writeUInt32BE(height * 0x10000, 76);
+
+  const frames = samples.reduce((sum, [count]) => sum + count, 0);
+  const mediaDuration = samples.reduce((sum, [count, delta]) => sum + count * delta, 0);
+  const stbl = isoBox(
+    'stbl',
+    fullBox('stts', 0, 0, uint32(samples.length, ...samples.flat())),
+    fullBox('stsz', 0, 0, uint32(0, frames, ...Array<number>(frames).fill(100)))
+  );
+
+  return isoBox(
+    'trak',
+    fullBox('tkhd', 0, 1, tkhd),
+    ...(edit
+      ? [
+          isoBox(
+            'edts',
+            fullBox('elst', 0, edit.repeat ? 1 : 0, uint32(1, edit.segmentDuration, 0, 0x10000))
+          ),
+        ]
+      : []),
+    isoBox(
+      'mdia',
+      fullBox('mdhd', 0, 0, uint32(0, 0, timescale, mediaDuration, 0)),
+      fullBox('hdlr', 0, 0, uint32(0), Buffer.from(handler), Buffer.alloc(13)),
+      isoBox('minf', stbl)
+    )
+  );
+}
+
+describe('parseAVIF', () => {
+  describe('image sequences', () => {
+    it('reads the track size, frames, timing and looping', () => {
+      const data = Buffer.concat([
+        ftyp('avis', 'avif', 'msf1'),
+        meta(ispe(320, 240)),
+        isoBox(
+          'moov',
+          trak({
+            width: 640,
+            height: 480,
+            timescale: 1000,
+            samples: [
+              [2, 100],
+              [1, 250],
+            ],
+            edit: { segmentDuration: 450, repeat: true },
+          })
+        ),
+      ]);
+
+      expect(parseAVIF(data)).toEqual({
+        width: 640,
+        height: 480,
+        type: 'avif',
+        mime: 'image/avif',
+        wUnits: 'px',
+        hUnits: 'px',
+        animated: true,
+        animation: { frames: 3, loops: 0, delays: [100, 100, 250], duration: 450 },
+      });
+    });
+
+    it('needs no still primary image', () => {
+      const data = Buffer.concat([
+        ftyp('avis', 'msf1'),
+        isoBox('moov', trak({ width: 64, height: 48, timescale: 30, samples: [[4, 1]] })),
+      ]);
+
+      expect(parseAVIF(data)).toMatchObject({
+        width: 64,
+        height: 48,
+        animated: true,
+        animation: { frames: 4, delays: [33, 33, 33, 33], duration: 133 },
+      });
+      expect(parseAVIF(data)?.animation).not.toHaveProperty('loops');
+    });
+
+    it('counts plays of a repeated edit within a finite track duration', () => {
+      const sequence = (track: Partial<Track>): Buffer =>
+        Buffer.concat([
+          ftyp('avis'),
+          isoBox(
+            'moov',
+            trak({ width: 64, height: 48, timescale: 10, samples: [[2, 5]], ...track })
+          ),
+        ]);
+
+      const repeated = sequence({
+        trackDuration: 3000,
+        edit: { segmentDuration: 1000, repeat: true },
+      });
+      const once = sequence({ edit: { segmentDuration: 1000, repeat: false } });
+
+      expect(parseAVIF(repeated)?.animation?.loops).toBe(3);
+      expect(parseAVIF(once)?.animation?.loops).toBe(1);
+    });
+
+    it('skips tracks that do not hold the image sequence', () => {
+      const data = Buffer.concat([
+        ftyp('avis'),
+        meta(ispe(320, 240)),
+        isoBox(
+          'moov',
+          trak({ handler: 'auxv', width: 32, height: 32, timescale: 10, samples: [[2, 1]] }),
+          trak({ width: 320, height: 240, timescale: 10, samples: [[2, 1]] })
+        ),
+      ]);
+
+      expect(parseAVIF(data)).toMatchObject({ width: 320, height: 240, animated: true });
+    });
+
+    it('reports a single-frame sequence as not animated', () => {
+      const data = Buffer.concat([
+        ftyp('avis'),
+        isoBox('moov', trak({ width: 64, height: 48, timescale: 10, samples: [[1, 1]] })),
+      ]);
+
+      expect(parseAVIF(data)).toMatchObject({ width: 64, height: 48, animated: false });
+      expect(parseAVIF(data)).not.toHaveProperty('animation');
+    });
+  });
+
+  describe('transformative properties', () => {
+    it('crops to the clean aperture before rotating', () => {
+      const data = Buffer.concat([
+        ftyp('avif'),
+        meta(ispe(4032, 3024), clap(4000, 3000, -16, 12), isoBox('irot', Buffer.from([1]))),
+      ]);
+
+      expect(parseAVIF(data)).toEqual({
+        width: 4032,
+        height: 3024,
+        type: 'avif',
+        mime: 'image/avif',
+        wUnits: 'px',
+        hUnits: 'px',
+        transform: {
+          cleanAperture: { width: 4000, height: 3000, horizontalOffset: -16, verticalOffset: 12 },
+          rotation: 90,
+        },
+        displayWidth: 3000,
+        displayHeight: 4000,
+      });
+    });
+
+    it('keeps the size for half turns and mirroring', () => {
+      const data = Buffer.concat([
+        ftyp('avif'),
+        meta(ispe(640, 480), isoBox('irot', Buffer.from([2])), isoBox('imir', Buffer.from([1]))),
+      ]);
+
+      expect(parseAVIF(data)).toMatchObject({
+        transform: { rotation: 180, mirror: 'vertical' },
+        displayWidth: 640,
+        displayHeight: 480,
+      });
+    });
+
+    it('reads a left-right mirror from the vertical axis', () => {
+      const data = Buffer.concat([
+        ftyp('avif'),
+        meta(ispe(64, 48), isoBox('imir', Buffer.from([0]))),
+      ]);
+      expect(parseAVIF(data)?.transform).toEqual({ mirror: 'horizontal' });
+    });
+
+    it('reports pasp as the pixel aspect ratio', () => {
+      const data = Buffer.concat([ftyp('avif'), meta(ispe(64, 48), isoBox('pasp', uint32(4, 3)))]);
+      const result = parseAVIF(data);
+
+      expect(result?.pixelAspectRatio).toBeCloseTo(4 / 3);
+      expect(result).not.toHaveProperty('displayWidth');
+    });
+  });
+
+  describe('primary item', () => {
+    it('uses the properties associated with the primary item', () => {
+      const data = Buffer.concat([
+        ftyp('avif'),
+        itemMeta({
+          primary: 2,
+          items: [
+            [1, 'av01'],
+            [2, 'av01'],
+          ],
+          properties: [ispe(160, 120), pixi(8, 8, 8), ispe(1920, 1440), pixi(10, 10, 10)],
+          associations: [
+            [1, [1, 2]],
+            [2, [3, 4]],
+          ],
+          boxes: [iref('thmb', 1, 2)],
+        }),
+      ]);
+
+      expect(parseAVIF(data)).toMatchObject({
+        width: 1920,
+        height: 1440,
+        bitDepth: 10,
+        channels: 3,
+      });
+    });
+
+    it('reads a grid output size from its item data in idat', () => {
+      const grid = Buffer.from([0, 0, 1, 1, 0x0f, 0xc0, 0x0b, 0xd0]); // 2x2 tiles, 4032x3024
+      const data = Buffer.concat([
+        ftyp('avif'),
+        itemMeta({
+          primary: 1,
+          items: [
+            [1, 'grid'],
+            [2, 'av01'],
+            [3, 'av01'],
+          ],
+          properties: [ispe(2016, 1512), pixi(8, 8, 8)],
+          associations: [
+            [2, [1, 2]],
+            [3, [1, 2]],
+          ],
+          boxes: [
+            iloc([{ id: 1, constructionMethod: 1, offset: 0, length: grid.length }]),
+            iref('dimg', 1, 2, 3),
+            isoBox('idat', grid),
+          ],
+        }),
+      ]);
+
+      // The grid has no pixi of its own, so its tiles' is reported
+      expect(parseAVIF(data)).toMatchObject({ width: 4032, height: 3024, bitDepth: 8 });
+    });
+
+    it('reads 32-bit grid sizes from item data in the file', () => {
+      const grid = Buffer.concat([Buffer.from([0, 1, 0, 1]), uint32(20000, 500)]);
+      const head = ftyp('avif');
+      const metaBox = (offset: number): Buffer =>
+        itemMeta({
+          primary: 1,
+          items: [[1, 'grid']],
+          properties: [],
+          associations: [],
+          boxes: [iloc([{ id: 1, constructionMethod: 0, offset, length: grid.length }])],
+        });
+      // The grid data follows the mdat header
+      const offset = head.length + metaBox(0).length + 8;
+      const data = Buffer.concat([head, metaBox(offset), isoBox('mdat', grid)]);
+
+      expect(parseAVIF(data)).toMatchObject({ width: 20000, height: 500 });
+    });
+
+    it("falls back to an identity transform's source extents", () => {
+      const data = Buffer.concat([
+        ftyp('avif'),
+        itemMeta({
+          primary: 1,
+          items: [
+            [1, 'iden'],
+            [2, 'av01'],
+          ],
+          properties: [ispe(800, 600), isoBox('irot', Buffer.from([3]))],
+          associations: [
+            [1, [2]],
+            [2, [1]],
+          ],
+          boxes: [iref('dimg', 1, 2)],
+        }),
+      ]);
+
+      expect(parseAVIF(data)).toMatchObject({
+        width: 800,
+        height: 600,
+        transform: { rotation: 270 },
+        displayWidth: 600,
+        displayHeight: 800,
+      });
+    });
+  });
+
+  describe('auxiliary images', () => {
+    const ALPHA = 'urn:mpeg:mpegB:cicp:systems:auxiliary:alpha';
+
+    it('reports alpha planes, depth maps and thumbnails of the primary item', () => {
+      const data = Buffer.concat([
+        ftyp('avif'),
+        itemMeta({
+          primary: 1,
+          items: [
+            [1, 'av01'],
+            [2, 'av01'],
+            [3, 'av01'],
+            [4, 'av01'],
+          ],
+          properties: [
+            ispe(1024, 768),
+            pixi(8, 8, 8),
+            auxC(ALPHA),
+            pixi(8),
+            auxC('urn:mpeg:hevc:2015:auxid:2'),
+            ispe(256, 192),
+          ],
+          associations: [
+            [1, [1, 2]],
+            [2, [1, 3, 4]],
+            [3, [5, 6]],
+            [4, [6]],
+          ],
+          boxes: [
+            fullBox(
+              'iref',
+              0,
+              0,
+              isoBox('auxl', uint16(2, 1, 1)),
+              isoBox('auxl', uint16(3, 1, 1)),
+              isoBox('thmb', uint16(4, 1, 1))
+            ),
+          ],
+        }),
+      ]);
+
+      expect(parseAVIF(data)).toMatchObject({
+        width: 1024,
+        height: 768,
+        channels: 4,
+        hasAlpha: true,
+        auxiliaryImages: [
+          { type: 'alpha', width: 1024, height: 768 },
+          { type: 'depth', width: 256, height: 192 },
+          { type: 'thumbnail', width: 256, height: 192 },
+        ],
+      });
+    });
+
+    it('reports no alpha when the primary item has no alpha plane', () => {
+      const data = Buffer.concat([
+        ftyp('avif'),
+        itemMeta({
+          primary: 1,
+          items: [[1, 'av01']],
+          properties: [ispe(64, 48), pixi(8, 8, 8)],
+          associations: [[1, [1, 2]]],
+        }),
+      ]);
+
+      const result = parseAVIF(data);
+      expect(result).toMatchObject({ channels: 3, hasAlpha: false });
+      expect(result).not.toHaveProperty('auxiliaryImages');
+    });
+
+    it('keeps unknown auxiliary types as their URN', () => {
+      const data = Buffer.concat([
+        ftyp('heic', 'mif1'),
+        itemMeta({
+          primary: 1,
+          items: [
+            [1, 'hvc1'],
+            [2, 'hvc1'],
+          ],
+          properties: [ispe(64, 48), auxC('urn:com:apple:photo:2020:aux:hdrgainmap')],
+          associations: [
+            [1, [1]],
+            [2, [1, 2]],
+          ],
+          boxes: [iref('auxl', 2, 1)],
+        }),
+      ]);
+
+      expect(parseAVIF(data)).toMatchObject({
+        hasAlpha: false,
+        auxiliaryImages: [
+          { type: 'urn:com:apple:photo:2020:aux:hdrgainmap', width: 64, height: 48 },
+        ],
+      });
+    });
+  });
+
+  describe('HDR', () => {
+    it('reads nclx code points, content light levels and the mastering display', () => {
+      const data = Buffer.concat([
+        ftyp('avif'),
+        itemMeta({
+          primary: 1,
+          items: [[1, 'av01']],
+          properties: [
+            ispe(3840, 2160),
+            nclx(9, 16, 9, false),
+            isoBox('clli', uint16(1000, 400)),
+            isoBox('mdcv', BT2020_PRIMARIES, uint32(10000000, 50)),
+          ],
+          associations: [[1, [1, 2, 3, 4]]],
+        }),
+      ]);
+
+      expect(parseAVIF(data)).toMatchObject({
+        colorSpace: 'Rec. 2020',
+        hdr: {
+          transfer: 'PQ',
+          colorPrimaries: 9,
+          transferCharacteristics: 16,
+          matrixCoefficients: 9,
+          fullRange: false,
+          maxCLL: 1000,
+          maxFALL: 400,
+          masteringDisplay: {
+            red: { x: 0.708, y: 0.292 },
+            green: { x: 0.17, y: 0.797 },
+            blue: { x: 0.131, y: 0.046 },
+            whitePoint: { x: 0.3127, y: 0.329 },
+            maxLuminance: 1000,
+            minLuminance: 0.005,
+          },
+        },
+      });
+    });
+
+    it('reads nclx alongside an ICC profile, which names the colour space', () => {
+      const profile = Buffer.concat([Buffer.alloc(16), Buffer.from('Display P3')]);
+      const data = Buffer.concat([
+        ftyp('avif'),
+        itemMeta({
+          primary: 1,
+          items: [[1, 'av01']],
+          properties: [
+            ispe(64, 48),
+            nclx(1, 18, 1, true),
+            isoBox('colr', Buffer.from('prof'), profile),
+          ],
+          associations: [[1, [1, 2, 3]]],
+        }),
+      ]);
+
+      expect(parseAVIF(data)).toMatchObject({
+        colorSpace: 'Display P3',
+        hdr: {
+          transfer: 'HLG',
+          colorPrimaries: 1,
+          transferCharacteristics: 18,
+          matrixCoefficients: 1,
+          fullRange: true,
+        },
+      });
+    });
+
+    it('leaves out hdr without nclx, clli or mdcv', () => {
+      const data = Buffer.concat([ftyp('avif'), meta(ispe(64, 48))]);
+      expect(parseAVIF(data)).not.toHaveProperty('hdr');
+    });
+  });
+
+  describe('gain maps', () => {
+    it('reads a tmap derived image built on the primary item', () => {
+      // Version byte, then ISO 21496-1 metadata for one channel over a common denominator of 64
+      const tmap = Buffer.alloc(38);
+      tmap[5] = 0x08;
+      [64, 0, 192, 0, 192, 64, 1, 1].forEach((value, i) => tmap.writeInt32BE(value, 6 + i * 4));
+
+      const data = Buffer.concat([
+        ftyp('avif'),
+        itemMeta({
+          primary: 1,
+          items: [
+            [1, 'av01'],
+            [2, 'av01'],
+            [3, 'tmap'],
+          ],
+          properties: [ispe(1920, 1080), ispe(960, 540)],
+          associations: [
+            [1, [1]],
+            [2, [2]],
+            [3, [1]],
+          ],
+          boxes: [
+            iloc([{ id: 3, constructionMethod: 1, offset: 0, length: tmap.length }]),
+            iref('dimg', 3, 1, 2),
+            isoBox('idat', tmap),
+          ],
+        }),
+      ]);
+
+      expect(parseAVIF(data)).toMatchObject({
+        width: 1920,
+        height: 1080,
+        gainMap: {
+          width: 960,
+          height: 540,
+          hdrCapacityMin: 0,
+          hdrCapacityMax: 3,
+          gainMapMin: [0],
+          gainMapMax: [3],
+          gamma: [1],
+          offsetSdr: [0.015625],
+          offsetHdr: [0.015625],
+          baseRenditionIsHdr: false,
+        },
+      });
+    });
+
+    it('leaves out gainMap without a tmap item', () => {
+      const data = Buffer.concat([
+        ftyp('avif'),
+        itemMeta({
+          primary: 1,
+          items: [[1, 'av01']],
+          properties: [ispe(64, 48)],
+          associations: [[1, [1]]],
+        }),
+      ]);
+      expect(parseAVIF(data)).not.toHaveProperty('gainMap');
+    });
+  });
+
+  describe('EXIF', () => {
+    it('reads the orientation from the Exif item, leaving the display size to irot', () => {
+      const tiff = Buffer.alloc(26);
+      tiff.write('MM', 0, 'ascii');
+      tiff.writeUInt16BE(42, 2);
+      tiff.writeUInt32BE(8, 4);
+      tiff.writeUInt16BE(1, 8);
+      tiff.writeUInt16BE(0x0112, 10); // Orientation, one SHORT
+      tiff.writeUInt16BE(3, 12);
+      tiff.writeUInt32BE(1, 14);
+      tiff.writeUInt16BE(6, 18);
+      // The offset to the TIFF header skips the Exif identifier
+      const exif = Buffer.concat([uint32(6), Buffer.from('Exif\0\0'), tiff]);
+
+      const data = Buffer.concat([
+        ftyp('avif'),
+        itemMeta({
+          primary: 1,
+          items: [
+            [1, 'av01'],
+            [2, 'Exif'],
+          ],
+          properties: [ispe(4032, 3024)],
+          associations: [[1, [1]]],
+          boxes: [
+            iloc([{ id: 2, constructionMethod: 1, offset: 0, length: exif.length }]),
+            iref('cdsc', 2, 1),
+            isoBox('idat', exif),
+          ],
+        }),
+      ]);
+
+      const result = parseAVIF(data);
+      expect(result).toMatchObject({ width: 4032, height: 3024, orientation: 6 });
+      expect(result).not.toHaveProperty('displayWidth');
+    });
+  });
+
+  describe('HEIC', () => {
+    it('reports the chroma format and bit depth from hvcC', () => {
+      const result = parseAVIF(
+        Buffer.concat([ftyp('heic', 'mif1', 'heic'), meta(ispe(4032, 3024), hvcC(1, 10))])
+      );
+
+      expect(result).toEqual({
+        width: 4032,
+        height: 3024,
+        type: 'heic',
+        mime: 'image/heic',
+        wUnits: 'px',
+        hUnits: 'px',
+        bitDepth: 10,
+        channels: 3,
+        chromaSubsampling: '4:2:0',
+      });
+    });
+
+    it.each([
+      { brands: ['mif1', 'heic'], type: 'heic', mime: 'image/heic' },
+      { brands: ['msf1', 'hevc'], type: 'heic', mime: 'image/heic-sequence' },
+      { brands: ['mif1', 'miaf'], type: 'heif', mime: 'image/heif' },
+      { brands: ['msf1'], type: 'heif', mime: 'image/heif-sequence' },
+      { brands: ['mif1', 'avif'], type: 'avif', mime: 'image/avif' },
+    ])('identifies brands $brands as $mime', ({ brands, type, mime }) => {
+      expect(parseAVIF(Buffer.concat([ftyp(...brands), meta(ispe(64, 48))]))).toMatchObject({
+        type,
+        mime,
+      });
+    });
+
+    it('prefers the pixi bit depth over hvcC and reports monochrome as one channel', () => {
+      const result = parseAVIF(
+        Buffer.concat([ftyp('heic'), meta(ispe(64, 48), pixi(12), hvcC(0, 8))])
+      );
+
+      expect(result).toMatchObject({ bitDepth: 12, channels: 1, chromaSubsampling: '4:0:0' });
+    });
+
+    it('rejects files without an AVIF or HEIF brand', () => {
+      expect(parseAVIF(Buffer.concat([ftyp('isom', 'mp41'), meta(ispe(64, 48))]))).toBeNull();
+    });
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { parseArgs } from '../src/cli.js';
+import { formatExposureTime, parseArgs } from '../src/cli.js';
 
 describe('CLI argument parsing', () => {
   it('should treat a bare dash as the stdin source, not an option', () => {
@@ -24,6 +24,18 @@ describe('CLI argument parsing', () => {
     expect(sources).toEqual(['a.png', 'https://example.com/b.jpg']);
   });
 
+  it('should enable full scans', () => {
+    const { options, sources } = parseArgs(['--full-scan', 'a.gif']);
+    expect(options.fullScan).toBe(true);
+    expect(sources).toEqual(['a.gif']);
+  });
+
+  it('should enable EXIF details', () => {
+    const { options, sources } = parseArgs(['--exif', 'a.jpg']);
+    expect(options.exif).toBe(true);
+    expect(sources).toEqual(['a.jpg']);
+  });
+
   it('should parse valued options', () => {
     const { options } = parseArgs([
       '--timeout',
@@ -53,3 +65,13 @@ describe('CLI argument parsing', () => {
     }
   });
 });
+
+describe('CLI output', () => {
+  it('should format exposure times as fractions of a second only when they are', () => {
+    expect(formatExposureTime(1 / 250)).toBe('1/250 s');
+    expect(formatExposureTime(1 / 3)).toBe('1/3 s');
+    expect(formatExposureTime(0.4)).toBe('0.4 s');
+    expect(formatExposureTime(0)).toBe('0 s');
+    expect(formatExposureTime(2)).toBe('2 s');
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+import { parseCR3 } from '../src/parsers/cr3.js';
+import { detectFormat, getImageType } from '../src/utils/detector.js';
+
+const CANON_UUID = Buffer.from('85c0b687820f11e08111f4ce462b6a48', 'hex');
+
+function box(type: string, ...payload: Buffer[]): Buffer {
+  const header = Buffer.alloc(8);
+  header.writeUInt32BE(8 + payload.reduce((sum, part) => sum + part.length, 0), 0);
+  header.write(type, 4, 'latin1');
+  return Buffer.concat([header, ...payload]);
+}
+
+/**
+ * A little-endian TIFF structure with one directory of ASCII or SHORT fields
+ */
+function tiff(fields: [tag: number, value: string | number[]][]): Buffer {
+  const ifdSize = 2 + fields.length * 12 + 4;
+  const values = fields.map(([, value]) => {
+    if (typeof value === 'string') return Buffer.from(`${value}\0`, 'latin1');
+    const data = Buffer.alloc(value.length * 2);
+    value.forEach((n, i) => data.writeUInt16LE(n, i * 2));
+    return data;
+  });
+  const header = Buffer.alloc(8 + ifdSize);
+  header.write('II', 0, 'latin1');
+  header.writeUInt16LE(42, 2);
+  header.writeUInt32LE(8, 4);
+  header.writeUInt16LE(fields.length, 8);
+
+  let offset = header.length;
+  fields.forEach(([tag, value], i) => {
+    const entry = 10 + i * 12;
+    const data = values[i] ?? Buffer.alloc(0);
+    header.writeUInt16LE(tag, entry);
+    header.writeUInt16LE(typeof value === 'string' ? 2 : 3, entry + 2);
+    header.writeUInt32LE(typeof value === 'string' ? data.length : value.length, entry + 4);
+    header.writeUInt32LE(offset, entry + 8);
+    offset += data.length;
+  });
+
+  return Buffer.concat([header, ...values]);
+}
+
+function track(width: number, height: number, codec: 'CMP1' | 'JPEG'): Buffer {
+  const fields = Buffer.alloc(78);
+  fields.writeUInt16BE(width, 24);
+  fields.writeUInt16BE(height, 26);
+  const stsd = box('stsd', Buffer.from([0, 0, 0, 0, 0, 0, 0, 1]), box('CRAW', fields, box(codec)));
+  return box('trak', box('mdia', box('minf', box('stbl', stsd))));
+}
+
+function cr3(...moov: Buffer[]): Buffer {
+  const ftyp = box('ftyp', Buffer.from('crx \0\0\0\x01crx isom', 'latin1'));
+  return Buffer.concat([ftyp, box('moov', ...moov), box('mdat', Buffer.alloc(16))]);
+}
+
+function canon(...children: Buffer[]): Buffer {
+  return box('uuid', CANON_UUID, ...children);
+}
+
+describe('parseCR3', () => {
+  it('reads sizes from the CRAW tracks and the camera from CMT1', () => {
+    const data = cr3(
+      canon(
+        box(
+          'CMT1',
+          tiff([
+            [0x010f, 'Canon'],
+            [0x0110, 'Canon EOS R5'],
+          ])
+        ),
+        box('CMT3', tiff([[0x00e0, [34, 8352, 5586]]]))
+      ),
+      track(8192, 5464, 'JPEG'),
+      track(1624, 1080, 'CMP1'),
+      track(8352, 5586, 'CMP1')
+    );
+
+    expect(parseCR3(data)).toEqual({
+      width: 8352,
+      height: 5586,
+      type: 'cr3',
+      mime: 'image/x-canon-cr3',
+      wUnits: 'px',
+      hUnits: 'px',
+      raw: {
+        make: 'Canon',
+        model: 'Canon EOS R5',
+        rawWidth: 8352,
+        rawHeight: 5586,
+        previewWidth: 8192,
+        previewHeight: 5464,
+      },
+    });
+  });
+
+  it('falls back to the maker note sensor size when the tracks are cut off', () => {
+    const metadata = canon(box('CMT3', tiff([[0x00e0, [34, 6888, 4546]]])));
+    const data = cr3(metadata, track(6000, 4000, 'JPEG'), track(6888, 4546, 'CMP1'));
+    // ftyp (24 bytes) and the moov header precede the Canon metadata
+    const truncated = data.subarray(0, 24 + 8 + metadata.length + 20);
+
+    expect(parseCR3(truncated)).toMatchObject({
+      width: 6888,
+      height: 4546,
+      raw: { rawWidth: 6888, rawHeight: 4546 },
+    });
+  });
+
+  it('returns null for other ISOBMFF files', () => {
+    const avif = Buffer.concat([box('ftyp', Buffer.from('avif\0\0\0\0', 'latin1')), box('moov')]);
+    expect(parseCR3(avif)).toBeNull();
+  });
+
+  it('is detected from its ftyp brand', () => {
+    const data = cr3(track(6000, 4000, 'JPEG'));
+    expect(detectFormat(data)).toBe(parseCR3);
+    expect(getImageType(data)).toBe('cr3');
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { parseICO } from '../src/parsers/ico.js';
+import { detectFormat } from '../src/utils/detector.js';
+
+function cur(...entries: [width: number, height: number, x: number, y: number][]): Buffer {
+  const header = Buffer.from([0x00, 0x00, 0x02, 0x00, entries.length, 0x00]);
+  const directory = Buffer.alloc(entries.length * 16);
+  entries.forEach(([width, height, x, y], i) => {
+    directory[i * 16] = width & 0xff;
+    directory[i * 16 + 1] = height & 0xff;
+    directory.writeUInt16LE(x, i * 16 + 4);
+    directory.writeUInt16LE(y, i * 16 + 6);
+  });
+  return Buffer.concat([header, directory]);
+}
+
+describe('parseICO (cursors)', () => {
+  it('reports the largest cursor and its hotspot', () => {
+    const result = parseICO(cur([32, 32, 4, 2], [48, 48, 6, 3]));
+
+    expect(result).toEqual({
+      width: 48,
+      height: 48,
+      type: 'cur',
+      mime: 'image/x-win-bitmap',
+      wUnits: 'px',
+      hUnits: 'px',
+      hotspot: { x: 6, y: 3 },
+      icons: [
+        { width: 32, height: 32, bytes: 0, hotspotX: 4, hotspotY: 2 },
+        { width: 48, height: 48, bytes: 0, hotspotX: 6, hotspotY: 3 },
+      ],
+    });
+  });
+
+  it('reads a zero size as 256', () => {
+    expect(parseICO(cur([0, 0, 128, 128]))).toMatchObject({ width: 256, height: 256 });
+  });
+
+  it('is detected from its header', () => {
+    const data = cur([32, 32, 0, 0]);
+    expect(detectFormat(data)).toBe(parseICO);
+  });
+});
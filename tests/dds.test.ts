@@ -0,0 +1,148 @@
+import { describe, it, expect } from 'vitest';
+import { parseDDS } from '../src/parsers/dds.js';
+import { detectFormat } from '../src/utils/detector.js';
+
+const DDSD_MIPMAPCOUNT = 0x20000;
+const DDSD_DEPTH = 0x800000;
+const DDPF_ALPHAPIXELS = 0x1;
+const DDPF_FOURCC = 0x4;
+const DDPF_RGB = 0x40;
+
+interface Header {
+  width?: number;
+  height?: number;
+  flags?: number;
+  depth?: number;
+  mipMapCount?: number;
+  pixelFormatFlags?: number;
+  fourCC?: string;
+  rgbBitCount?: number;
+  masks?: [r: number, g: number, b: number, a: number];
+  caps2?: number;
+}
+
+function dds({
+  width = 512,
+  height = 256,
+  flags = 0,
+  depth = 0,
+  mipMapCount = 0,
+  pixelFormatFlags = DDPF_FOURCC,
+  fourCC = 'DXT5',
+  rgbBitCount = 0,
+  masks = [0, 0, 0, 0],
+  caps2 = 0,
+}: Header = {}): Buffer {
+  const data = Buffer.alloc(128);
+  data.write('DDS ', 0, 'latin1');
+  data.writeUInt32LE(124, 4);
+  data.writeUInt32LE(flags, 8);
+  data.writeUInt32LE(height, 12);
+  data.writeUInt32LE(width, 16);
+  data.writeUInt32LE(depth, 24);
+  data.writeUInt32LE(mipMapCount, 28);
+  data.writeUInt32LE(32, 76);
+  data.writeUInt32LE(pixelFormatFlags, 80);
+  data.write(fourCC, 84, 'latin1');
+  data.writeUInt32LE(rgbBitCount, 88);
+  masks.forEach((mask, i) => data.writeUInt32LE(mask, 92 + i * 4));
+  data.writeUInt32LE(caps2, 112);
+  return data;
+}
+
+function dx10(
+  header: Buffer,
+  dxgiFormat: number,
+  { dimension = 3, miscFlag = 0, arraySize = 1 } = {}
+): Buffer {
+  const extension = Buffer.alloc(20);
+  extension.writeUInt32LE(dxgiFormat, 0);
+  extension.writeUInt32LE(dimension, 4);
+  extension.writeUInt32LE(miscFlag, 8);
+  extension.writeUInt32LE(arraySize, 12);
+  return Buffer.concat([header, extension]);
+}
+
+describe('parseDDS', () => {
+  it('reads a FourCC-compressed texture with mip levels', () => {
+    expect(parseDDS(dds({ flags: DDSD_MIPMAPCOUNT, mipMapCount: 10 }))).toEqual({
+      width: 512,
+      height: 256,
+      type: 'dds',
+      mime: 'image/vnd-ms.dds',
+      wUnits: 'px',
+      hUnits: 'px',
+      texture: {
+        format: 'BC3',
+        compressed: true,
+        mipLevels: 10,
+        cubemap: false,
+        array: false,
+        layers: 1,
+      },
+    });
+  });
+
+  it('ignores the mip count unless its flag is set', () => {
+    expect(parseDDS(dds({ mipMapCount: 10 }))?.texture).toMatchObject({ mipLevels: 1 });
+  });
+
+  it('names uncompressed formats from their channel masks', () => {
+    const result = parseDDS(
+      dds({
+        pixelFormatFlags: DDPF_RGB | DDPF_ALPHAPIXELS,
+        fourCC: '\0\0\0\0',
+        rgbBitCount: 32,
+        masks: [0x00ff0000, 0x0000ff00, 0x000000ff, 0xff000000],
+      })
+    );
+
+    expect(result).toMatchObject({
+      hasAlpha: true,
+      texture: { format: 'A8R8G8B8', compressed: false },
+    });
+    expect(
+      parseDDS(
+        dds({
+          pixelFormatFlags: DDPF_RGB,
+          fourCC: '\0\0\0\0',
+          rgbBitCount: 32,
+          masks: [0x00ff0000, 0x0000ff00, 0x000000ff, 0],
+        })
+      )?.texture?.format
+    ).toBe('X8R8G8B8');
+  });
+
+  it('reads legacy cubemaps and volume textures', () => {
+    expect(parseDDS(dds({ caps2: 0xfe00 }))?.texture).toMatchObject({ cubemap: true });
+    expect(parseDDS(dds({ flags: DDSD_DEPTH, depth: 32, caps2: 0x200000 }))?.texture).toMatchObject(
+      {
+        depth: 32,
+        cubemap: false,
+      }
+    );
+  });
+
+  it('reads the DXGI format and array size from the DX10 header', () => {
+    const result = parseDDS(dx10(dds({ fourCC: 'DX10' }), 99, { miscFlag: 0x4, arraySize: 2 }));
+
+    expect(result).toMatchObject({
+      colorSpace: 'sRGB',
+      texture: {
+        format: 'BC7_UNORM_SRGB',
+        compressed: true,
+        cubemap: true,
+        array: true,
+        layers: 2,
+      },
+    });
+  });
+
+  it('returns null when the DX10 header is cut off', () => {
+    expect(parseDDS(dds({ fourCC: 'DX10' }))).toBeNull();
+  });
+
+  it('is detected from its magic number', () => {
+    expect(detectFormat(dds())).toBe(parseDDS);
+  });
+});
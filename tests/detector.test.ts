@@ -70,6 +70,19 @@ describe('Image Detector', () => {
       expect(getImageType(webpBuffer)).toBe('webp');
     });
 
+    it.each([
+      { brands: 'avifmif1miaf', expected: 'avif' },
+      { brands: 'heicmif1heic', expected: 'heic' },
+      { brands: 'mif1miaf', expected: 'heif' },
+    ])('should return $expected for ftyp brands $brands', ({ brands, expected }) => {
+      const ftypBuffer = Buffer.concat([
+        Buffer.from([0x00, 0x00, 0x00, 0x18]),
+        Buffer.from('ftyp'),
+        Buffer.from(brands),
+      ]);
+      expect(getImageType(ftypBuffer)).toBe(expected);
+    });
+
     it('should return svg for SVG', () => {
       const svgBuffer = Buffer.from('<svg xmlns="http://www.w3.org/2000/svg">');
       expect(getImageType(svgBuffer)).toBe('svg');
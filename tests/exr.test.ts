@@ -0,0 +1,135 @@
+import { describe, it, expect } from 'vitest';
+import { parseEXR } from '../src/parsers/exr.js';
+import { detectFormat } from '../src/utils/detector.js';
+
+function attribute(name: string, type: string, value: Buffer): Buffer {
+  const size = Buffer.alloc(4);
+  size.writeInt32LE(value.length);
+  return Buffer.concat([Buffer.from(`${name}\0${type}\0`, 'latin1'), size, value]);
+}
+
+function box2i(xMin: number, yMin: number, xMax: number, yMax: number): Buffer {
+  const value = Buffer.alloc(16);
+  [xMin, yMin, xMax, yMax].forEach((n, i) => value.writeInt32LE(n, i * 4));
+  return value;
+}
+
+function chlist(...channels: [name: string, pixelType: number][]): Buffer {
+  return Buffer.concat([
+    ...channels.map(([name, pixelType]) => {
+      const record = Buffer.alloc(16);
+      record.writeInt32LE(pixelType, 0);
+      record.writeInt32LE(1, 8);
+      record.writeInt32LE(1, 12);
+      return Buffer.concat([Buffer.from(`${name}\0`, 'latin1'), record]);
+    }),
+    Buffer.alloc(1),
+  ]);
+}
+
+function float(value: number): Buffer {
+  const data = Buffer.alloc(4);
+  data.writeFloatLE(value);
+  return data;
+}
+
+function tiledesc(width: number, height: number): Buffer {
+  const value = Buffer.alloc(9);
+  value.writeUInt32LE(width, 0);
+  value.writeUInt32LE(height, 4);
+  return value;
+}
+
+function exr(flags: number, ...headers: Buffer[][]): Buffer {
+  const version = Buffer.alloc(8);
+  Buffer.from([0x76, 0x2f, 0x31, 0x01]).copy(version);
+  version.writeUInt32LE(2 | flags, 4);
+  return Buffer.concat([
+    version,
+    ...headers.map((attributes) => Buffer.concat([...attributes, Buffer.alloc(1)])),
+    // Multi-part headers end with an empty header
+    ...(flags & 0x1000 ? [Buffer.alloc(1)] : []),
+    Buffer.alloc(16),
+  ]);
+}
+
+const SCANLINE_HEADER = [
+  attribute('channels', 'chlist', chlist(['A', 1], ['B', 1], ['G', 1], ['R', 1])),
+  attribute('compression', 'compression', Buffer.from([4])),
+  attribute('dataWindow', 'box2i', box2i(10, 20, 1929, 1099)),
+  attribute('displayWindow', 'box2i', box2i(0, 0, 1919, 1079)),
+  attribute('lineOrder', 'lineOrder', Buffer.from([0])),
+  attribute('pixelAspectRatio', 'float', float(1)),
+];
+
+describe('parseEXR', () => {
+  it('reads a scanline header', () => {
+    expect(parseEXR(exr(0, SCANLINE_HEADER))).toEqual({
+      width: 1920,
+      height: 1080,
+      type: 'exr',
+      mime: 'image/x-exr',
+      wUnits: 'px',
+      hUnits: 'px',
+      bitDepth: 16,
+      channels: 4,
+      hasAlpha: true,
+      sampleFormat: 'float',
+      pixelAspectRatio: 1,
+      channelNames: ['A', 'B', 'G', 'R'],
+      compression: 'PIZ',
+      exr: {
+        dataWindow: { xMin: 10, yMin: 20, xMax: 1929, yMax: 1099 },
+        displayWindow: { xMin: 0, yMin: 0, xMax: 1919, yMax: 1079 },
+        tiled: false,
+        multipart: false,
+        deep: false,
+        parts: 1,
+      },
+    });
+  });
+
+  it('reports the widest pixel type and the tile size of tiled files', () => {
+    const result = parseEXR(
+      exr(0x200, [
+        attribute('channels', 'chlist', chlist(['Z', 2], ['id', 0])),
+        attribute('dataWindow', 'box2i', box2i(0, 0, 511, 255)),
+        attribute('tiles', 'tiledesc', tiledesc(64, 32)),
+      ])
+    );
+
+    expect(result).toMatchObject({
+      width: 512,
+      height: 256,
+      bitDepth: 32,
+      sampleFormat: 'float',
+      hasAlpha: false,
+      exr: { tiled: true, tileWidth: 64, tileHeight: 32 },
+    });
+  });
+
+  it('describes multi-part files by their first part and counts the parts', () => {
+    const part = (type: string) => [
+      attribute('channels', 'chlist', chlist(['Y', 2])),
+      attribute('dataWindow', 'box2i', box2i(0, 0, 99, 49)),
+      attribute('name', 'string', Buffer.from(type)),
+      attribute('type', 'string', Buffer.from(type)),
+    ];
+    const result = parseEXR(exr(0x1000, part('deeptile'), part('scanlineimage')));
+
+    expect(result).toMatchObject({
+      width: 100,
+      height: 50,
+      exr: { tiled: true, deep: true, multipart: true, parts: 2 },
+    });
+  });
+
+  it('returns null when the header is cut off before it ends', () => {
+    const data = exr(0, SCANLINE_HEADER);
+    expect(parseEXR(data.subarray(0, 60))).toBeNull();
+  });
+
+  it('is detected from its magic number', () => {
+    expect(detectFormat(exr(0, SCANLINE_HEADER))).toBe(parseEXR);
+  });
+});
@@ -0,0 +1,163 @@
+import { describe, it, expect } from 'vitest';
+import { parseGIF } from '../src/parsers/gif.js';
+import { getImageSpecs } from '../src/index.js';
+
+interface Frame {
+  /** Delay in hundredths of a second, written as a Graphic Control Extension */
+  delay?: number;
+  interlaced?: boolean;
+  /** Bytes of LZW data, split into sub-blocks */
+  dataLength?: number;
+}
+
+/**
+ * Build a GIF89a with a two-colour global table and the given frames
+ */
+function gif({
+  frames,
+  loopCount,
+  application = 'NETSCAPE2.0',
+  trailer = true,
+}: {
+  frames: readonly Frame[];
+  loopCount?: number;
+  application?: string;
+  trailer?: boolean;
+}): Buffer {
+  const parts = [
+    Buffer.from('GIF89a'),
+    Buffer.from([0x40, 0x01, 0xf0, 0x00]), // 320x240
+    Buffer.from([0x80, 0x00, 0x00]), // Global colour table of two entries
+    Buffer.alloc(6),
+  ];
+
+  if (loopCount !== undefined) {
+    const loop = Buffer.from([0x21, 0xff, 0x0b, ...Buffer.from(application), 3, 1, 0, 0, 0]);
+    loop.writeUInt16LE(loopCount, 16);
+    parts.push(loop);
+  }
+
+  for (const { delay, interlaced = false, dataLength = 4 } of frames) {
+    if (delay !== undefined) {
+      const gce = Buffer.from([0x21, 0xf9, 0x04, 0x00, 0, 0, 0x00, 0x00]);
+      gce.writeUInt16LE(delay, 4);
+      parts.push(gce);
+    }
+
+    const descriptor = Buffer.from([0x2c, 0, 0, 0, 0, 0x40, 0x01, 0xf0, 0x00, 0x00]);
+    descriptor[9] = interlaced ? 0x40 : 0x00;
+    parts.push(descriptor, Buffer.from([0x02]));
+
+    // Sub-blocks of at most 255 bytes, the image data's own 0x21 and 0x3b included
+    for (let remaining = dataLength; remaining > 0; remaining -= 255) {
+      const size = Math.min(remaining, 255);
+      parts.push(Buffer.from([size]), Buffer.alloc(size, 0x3b));
+    }
+    parts.push(Buffer.from([0x00]));
+  }
+
+  if (trailer) {
+    parts.push(Buffer.from([0x3b]));
+  }
+  return Buffer.concat(parts);
+}
+
+const header = {
+  width: 320,
+  height: 240,
+  type: 'gif',
+  mime: 'image/gif',
+  wUnits: 'px',
+  hUnits: 'px',
+};
+
+describe('parseGIF', () => {
+  it('reads only the header without a full scan', () => {
+    const data = gif({ frames: [{ delay: 10 }, { delay: 10 }], loopCount: 0 });
+    expect(parseGIF(data)).toEqual(header);
+  });
+
+  it('counts frames and sums their delays', () => {
+    const data = gif({
+      frames: [{ delay: 10, dataLength: 600 }, { delay: 25 }, { delay: 5 }],
+      loopCount: 0,
+    });
+
+    expect(parseGIF(data, { fullScan: true })).toEqual({
+      ...header,
+      animated: true,
+      interlaced: false,
+      animation: { frames: 3, loops: 0, delays: [100, 250, 50], duration: 400 },
+    });
+  });
+
+  it('counts the first play in the loop count', () => {
+    const data = gif({ frames: [{ delay: 10 }, { delay: 10 }], loopCount: 2 });
+    expect(parseGIF(data, { fullScan: true })?.animation?.loops).toBe(3);
+  });
+
+  it('reads the ANIMEXTS loop extension', () => {
+    const data = gif({
+      frames: [{ delay: 10 }, { delay: 10 }],
+      loopCount: 0,
+      application: 'ANIMEXTS1.0',
+    });
+    expect(parseGIF(data, { fullScan: true })?.animation?.loops).toBe(0);
+  });
+
+  it('plays once without a loop extension, and delays frames without a GCE by 0', () => {
+    const data = gif({ frames: [{ delay: 20 }, {}] });
+    expect(parseGIF(data, { fullScan: true })?.animation).toEqual({
+      frames: 2,
+      loops: 1,
+      delays: [200, 0],
+      duration: 200,
+    });
+  });
+
+  it('reports interlacing of any frame', () => {
+    const data = gif({ frames: [{ delay: 10 }, { delay: 10, interlaced: true }] });
+    expect(parseGIF(data, { fullScan: true })?.interlaced).toBe(true);
+  });
+
+  it('reports a single frame as not animated', () => {
+    const data = gif({ frames: [{ interlaced: true }] });
+    expect(parseGIF(data, { fullScan: true })).toEqual({
+      ...header,
+      animated: false,
+      interlaced: true,
+    });
+  });
+
+  it('reports the frames read when the buffer ends mid-stream', () => {
+    const data = gif({ frames: [{ delay: 10 }, { delay: 10 }, { delay: 10 }], trailer: false });
+    const result = parseGIF(data.subarray(0, data.length - 3), { fullScan: true });
+    expect(result?.animation?.frames).toBe(2);
+    expect(result?.animation).not.toHaveProperty('duration');
+  });
+
+  it('reports a stream cut off in its image data as animated only after a loop extension', () => {
+    const frames = [{ delay: 10, dataLength: 600 }, { delay: 10 }];
+    const looping = gif({ frames, loopCount: 0 });
+    const plain = gif({ frames });
+
+    expect(parseGIF(looping.subarray(0, 300), { fullScan: true })).toMatchObject({
+      animated: true,
+      animation: { loops: 0 },
+    });
+    expect(parseGIF(looping.subarray(0, 300), { fullScan: true })?.animation).not.toHaveProperty(
+      'duration'
+    );
+    expect(parseGIF(plain.subarray(0, 300), { fullScan: true })).toEqual(header);
+  });
+
+  it('is scanned by getImageSpecs when fullScan is set', async () => {
+    const data = gif({ frames: [{ delay: 10 }, { delay: 10 }], loopCount: 0 });
+
+    expect(await getImageSpecs(data)).not.toHaveProperty('animation');
+    expect(await getImageSpecs(data, { fullScan: true })).toMatchObject({
+      animated: true,
+      animation: { frames: 2, duration: 200 },
+    });
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import { parseICNS } from '../src/parsers/icns.js';
+import { detectFormat } from '../src/utils/detector.js';
+
+function element(type: string, data: Buffer): Buffer {
+  const header = Buffer.alloc(8);
+  header.write(type, 0, 'latin1');
+  header.writeUInt32BE(data.length + 8, 4);
+  return Buffer.concat([header, data]);
+}
+
+function icns(...elements: Buffer[]): Buffer {
+  const header = Buffer.alloc(8);
+  header.write('icns', 0, 'latin1');
+  header.writeUInt32BE(8 + elements.reduce((sum, e) => sum + e.length, 0), 4);
+  return Buffer.concat([header, ...elements]);
+}
+
+function png(width: number, height: number): Buffer {
+  const ihdr = Buffer.alloc(25);
+  ihdr.writeUInt32BE(13, 0);
+  ihdr.write('IHDR', 4, 'latin1');
+  ihdr.writeUInt32BE(width, 8);
+  ihdr.writeUInt32BE(height, 12);
+  ihdr[16] = 8;
+  ihdr[17] = 6;
+  return Buffer.concat([Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]), ihdr]);
+}
+
+function toc(...entries: [type: string, length: number][]): Buffer {
+  const data = Buffer.alloc(entries.length * 8);
+  entries.forEach(([type, length], i) => {
+    data.write(type, i * 8, 'latin1');
+    data.writeUInt32BE(length, i * 8 + 4);
+  });
+  return element('TOC ', data);
+}
+
+describe('parseICNS', () => {
+  it('lists every image and reports the largest', () => {
+    const result = parseICNS(
+      icns(
+        element('is32', Buffer.alloc(100)),
+        element('s8mk', Buffer.alloc(256)),
+        element('ic11', png(32, 32)),
+        element('ic07', png(128, 128))
+      )
+    );
+
+    expect(result).toEqual({
+      width: 128,
+      height: 128,
+      type: 'icns',
+      mime: 'image/icns',
+      wUnits: 'px',
+      hUnits: 'px',
+      icons: [
+        { type: 'is32', width: 16, height: 16, scale: 1, bytes: 100, format: 'rgb' },
+        { type: 'ic11', width: 32, height: 32, scale: 2, bytes: 33, format: 'png' },
+        { type: 'ic07', width: 128, height: 128, scale: 1, bytes: 33, format: 'png' },
+      ],
+    });
+  });
+
+  it('prefers the real dimensions of an embedded PNG', () => {
+    expect(parseICNS(icns(element('ic08', png(200, 180))))).toMatchObject({
+      width: 200,
+      height: 180,
+    });
+  });
+
+  it('recognises JPEG 2000 and ARGB payloads', () => {
+    const jp2 = Buffer.from([
+      0x00, 0x00, 0x00, 0x0c, 0x6a, 0x50, 0x20, 0x20, 0x0d, 0x0a, 0x87, 0x0a,
+    ]);
+    const result = parseICNS(icns(element('ic09', jp2), element('ic04', Buffer.from('ARGB....'))));
+
+    expect(result?.icons?.map(({ format }) => format)).toEqual(['jp2', 'argb']);
+  });
+
+  it('lists elements past the end of the buffer from the table of contents', () => {
+    const first = element('ic12', png(64, 64));
+    const data = icns(toc(['ic12', first.length], ['ic10', 500_000]), first);
+
+    expect(parseICNS(data)).toMatchObject({
+      width: 1024,
+      height: 1024,
+      icons: [
+        { type: 'ic12', width: 64, scale: 2 },
+        { type: 'ic10', width: 1024, height: 1024, scale: 2, bytes: 499_992 },
+      ],
+    });
+  });
+
+  it('returns null without any image elements', () => {
+    expect(parseICNS(icns(element('icnV', Buffer.alloc(4))))).toBeNull();
+  });
+
+  it('is detected from its magic number', () => {
+    expect(detectFormat(icns(element('ic07', png(128, 128))))).toBe(parseICNS);
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest';
+import { parseICO } from '../src/parsers/ico.js';
+
+interface Entry {
+  width: number;
+  height: number;
+  colorCount?: number;
+  bitCount?: number;
+  payload: Buffer;
+}
+
+function ico(...entries: Entry[]): Buffer {
+  const header = Buffer.from([0x00, 0x00, 0x01, 0x00, entries.length, 0x00]);
+  const directory = Buffer.alloc(entries.length * 16);
+  let offset = header.length + directory.length;
+
+  entries.forEach(({ width, height, colorCount = 0, bitCount = 0, payload }, i) => {
+    directory[i * 16] = width & 0xff;
+    directory[i * 16 + 1] = height & 0xff;
+    directory[i * 16 + 2] = colorCount;
+    directory.writeUInt16LE(1, i * 16 + 4);
+    directory.writeUInt16LE(bitCount, i * 16 + 6);
+    directory.writeUInt32LE(payload.length, i * 16 + 8);
+    directory.writeUInt32LE(offset, i * 16 + 12);
+    offset += payload.length;
+  });
+
+  return Buffer.concat([header, directory, ...entries.map(({ payload }) => payload)]);
+}
+
+function png(width: number, height: number, bitDepth = 8, colorType = 6): Buffer {
+  const ihdr = Buffer.alloc(25);
+  ihdr.writeUInt32BE(13, 0);
+  ihdr.write('IHDR', 4, 'latin1');
+  ihdr.writeUInt32BE(width, 8);
+  ihdr.writeUInt32BE(height, 12);
+  ihdr[16] = bitDepth;
+  ihdr[17] = colorType;
+  return Buffer.concat([Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]), ihdr]);
+}
+
+function dib(size: number, bitCount: number, colorsUsed = 0): Buffer {
+  const header = Buffer.alloc(40);
+  header.writeUInt32LE(40, 0);
+  header.writeInt32LE(size, 4);
+  header.writeInt32LE(size * 2, 8); // XOR and AND masks
+  header.writeUInt16LE(1, 12);
+  header.writeUInt16LE(bitCount, 14);
+  header.writeUInt32LE(colorsUsed, 32);
+  return header;
+}
+
+describe('parseICO', () => {
+  it('lists every directory entry with its payload format', () => {
+    const result = parseICO(
+      ico(
+        { width: 16, height: 16, colorCount: 16, bitCount: 4, payload: dib(16, 4) },
+        { width: 32, height: 32, bitCount: 32, payload: dib(32, 32) },
+        { width: 0, height: 0, bitCount: 32, payload: png(256, 256) }
+      )
+    );
+
+    expect(result).toEqual({
+      width: 256,
+      height: 256,
+      type: 'ico',
+      mime: 'image/x-icon',
+      wUnits: 'px',
+      hUnits: 'px',
+      icons: [
+        { width: 16, height: 16, bytes: 40, format: 'bmp', bitCount: 4, colors: 16 },
+        { width: 32, height: 32, bytes: 40, format: 'bmp', bitCount: 32 },
+        { width: 256, height: 256, bytes: 33, format: 'png', bitCount: 32 },
+      ],
+    });
+  });
+
+  it('reads sizes above 256 pixels from an embedded PNG', () => {
+    const result = parseICO(ico({ width: 0, height: 0, payload: png(512, 512) }));
+
+    expect(result).toMatchObject({ width: 512, height: 512 });
+  });
+
+  it('prefers the DIB bit count and palette size over the directory', () => {
+    const result = parseICO(ico({ width: 32, height: 32, bitCount: 0, payload: dib(32, 8, 200) }));
+
+    expect(result?.icons).toEqual([
+      { width: 32, height: 32, bytes: 40, format: 'bmp', bitCount: 8, colors: 200 },
+    ]);
+  });
+
+  it('derives PNG bits per pixel from the colour type', () => {
+    const result = parseICO(ico({ width: 48, height: 48, payload: png(48, 48, 4, 3) }));
+
+    expect(result?.icons?.[0]).toMatchObject({ format: 'png', bitCount: 4 });
+  });
+
+  it('keeps directory values when the payload is beyond the buffer', () => {
+    const data = ico({ width: 64, height: 64, colorCount: 0, bitCount: 24, payload: dib(64, 24) });
+
+    expect(parseICO(data.subarray(0, 22))?.icons).toEqual([
+      { width: 64, height: 64, bytes: 40, bitCount: 24 },
+    ]);
+  });
+
+  it('breaks size ties on bit count', () => {
+    const result = parseICO(
+      ico(
+        { width: 32, height: 32, bitCount: 8, payload: dib(32, 8) },
+        { width: 32, height: 32, bitCount: 32, payload: png(32, 32) }
+      )
+    );
+
+    expect(result?.width).toBe(32);
+    expect(result?.icons?.map(({ bitCount }) => bitCount)).toEqual([8, 32]);
+  });
+});
@@ -170,6 +170,30 @@ describe('Image Specs Main API', () => {
       const result = await getImageSpecs('https://example.com/image.png');
       expect(result.url).toBe('https://example.com/image.png');
     });
+
+    it('should not refetch a URL that fails to parse after a full scan', async () => {
+      const { fetchImageHeaders } = await import('../src/http.js');
+      const { readStreamWithTimeout } = await import('../src/stream.js');
+
+      vi.mocked(fetchImageHeaders).mockResolvedValue({
+        stream: Readable.from([]),
+        headers: {},
+        statusCode: 200,
+        url: 'https://example.com/archive.bin',
+      });
+      // A non-image filling every read
+      vi.mocked(readStreamWithTimeout).mockImplementation((_stream, maxBytes) =>
+        Promise.resolve(Buffer.alloc(maxBytes))
+      );
+
+      await expect(
+        getImageSpecs('https://example.com/archive.bin', { fullScan: true })
+      ).rejects.toMatchObject({ code: ErrorCodes.UNSUPPORTED_FORMAT });
+      await expect(
+        getImageSpecs('https://example.com/archive.bin', { maxBytes: 2 * 1024 * 1024 })
+      ).rejects.toMatchObject({ code: ErrorCodes.UNSUPPORTED_FORMAT });
+      expect(fetchImageHeaders).toHaveBeenCalledTimes(2);
+    });
   });
 
   describe('getImageSpecsBatch', () => {
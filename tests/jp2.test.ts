@@ -0,0 +1,155 @@
+import { describe, it, expect } from 'vitest';
+import { parseJP2 } from '../src/parsers/jp2.js';
+import { detectFormat } from '../src/utils/detector.js';
+
+const SIGNATURE = Buffer.from([
+  0x00, 0x00, 0x00, 0x0c, 0x6a, 0x50, 0x20, 0x20, 0x0d, 0x0a, 0x87, 0x0a,
+]);
+
+function box(type: string, ...contents: Buffer[]): Buffer {
+  const data = Buffer.concat(contents);
+  const header = Buffer.alloc(8);
+  header.writeUInt32BE(header.length + data.length);
+  header.write(type, 4, 'ascii');
+  return Buffer.concat([header, data]);
+}
+
+function ihdr(width: number, height: number, components: number, bitDepth: number): Buffer {
+  const data = Buffer.alloc(14);
+  data.writeUInt32BE(height, 0);
+  data.writeUInt32BE(width, 4);
+  data.writeUInt16BE(components, 8);
+  data[10] = bitDepth - 1;
+  data[11] = 7; // Compression type
+  return box('ihdr', data);
+}
+
+function enumeratedColr(enumCS: number): Buffer {
+  const data = Buffer.alloc(7);
+  data[0] = 1;
+  data.writeUInt32BE(enumCS, 3);
+  return box('colr', data);
+}
+
+function resolutionBox(type: 'resc' | 'resd', pixelsPerMetre: number): Buffer {
+  const data = Buffer.alloc(10);
+  // Stored as N/D * 10^E grid points per metre
+  data.writeUInt16BE(pixelsPerMetre, 0);
+  data.writeUInt16BE(1, 2);
+  data.writeUInt16BE(pixelsPerMetre, 4);
+  data.writeUInt16BE(1, 6);
+  return box(type, data);
+}
+
+function siz(width: number, height: number, components: number, bitDepth: number): Buffer {
+  const data = Buffer.alloc(38 + components * 3);
+  data.writeUInt16BE(data.length, 0); // Lsiz
+  data.writeUInt32BE(width + 10, 4); // Xsiz includes the image offset
+  data.writeUInt32BE(height + 20, 8);
+  data.writeUInt32BE(10, 12);
+  data.writeUInt32BE(20, 16);
+  data.writeUInt16BE(components, 36);
+  for (let i = 0; i < components; i++) {
+    data[38 + i * 3] = bitDepth - 1;
+  }
+  return Buffer.concat([Buffer.from([0xff, 0x4f, 0xff, 0x51]), data]);
+}
+
+function jp2(brand: string, ...boxes: Buffer[]): Buffer {
+  return Buffer.concat([
+    SIGNATURE,
+    box('ftyp', Buffer.from(brand), Buffer.alloc(4), Buffer.from(brand)),
+    ...boxes,
+  ]);
+}
+
+describe('parseJP2', () => {
+  it('reads the header, enumerated colour space, and capture and display resolutions', () => {
+    const result = parseJP2(
+      jp2(
+        'jp2 ',
+        box(
+          'jp2h',
+          ihdr(2048, 1536, 3, 8),
+          enumeratedColr(16),
+          box('res ', resolutionBox('resc', 11811), resolutionBox('resd', 2835))
+        )
+      )
+    );
+
+    expect(result).toEqual({
+      width: 2048,
+      height: 1536,
+      type: 'jp2',
+      mime: 'image/jp2',
+      wUnits: 'px',
+      hUnits: 'px',
+      wResolution: 300,
+      hResolution: 300,
+      colorSpace: 'sRGB',
+      bitDepth: 8,
+      channels: 3,
+      jp2: {
+        captureResolution: { wResolution: 300, hResolution: 300 },
+        displayResolution: { wResolution: 72, hResolution: 72 },
+      },
+    });
+  });
+
+  it('falls back to the display resolution', () => {
+    const result = parseJP2(
+      jp2('jp2 ', box('jp2h', ihdr(100, 100, 1, 16), box('res ', resolutionBox('resd', 2835))))
+    );
+
+    expect(result).toMatchObject({ wResolution: 72, hResolution: 72, bitDepth: 16 });
+    expect(result?.jp2).toEqual({ displayResolution: { wResolution: 72, hResolution: 72 } });
+  });
+
+  it('identifies an embedded ICC profile', () => {
+    const profile = Buffer.concat([Buffer.alloc(64), Buffer.from('Adobe RGB (1998)')]);
+    const colr = box('colr', Buffer.from([2, 0, 0]), profile);
+    const result = parseJP2(jp2('jpx ', box('jp2h', ihdr(100, 100, 3, 8), colr)));
+
+    expect(result).toMatchObject({
+      type: 'jpx',
+      mime: 'image/jpx',
+      colorSpace: 'Adobe RGB',
+      iccProfile: 'Adobe RGB (1998)',
+    });
+  });
+
+  it('reads the SIZ marker of a codestream box when there is no header', () => {
+    const codestream = box('jp2c', siz(640, 480, 1, 12));
+    // The codestream box is truncated, as it would be after maxBytes
+    codestream.writeUInt32BE(1_000_000, 0);
+
+    expect(parseJP2(jp2('jp2 ', codestream))).toMatchObject({
+      width: 640,
+      height: 480,
+      channels: 1,
+      bitDepth: 12,
+    });
+  });
+
+  it('reads a bare J2K codestream', () => {
+    expect(parseJP2(siz(640, 480, 3, 8))).toEqual({
+      width: 640,
+      height: 480,
+      type: 'j2k',
+      mime: 'image/j2c',
+      wUnits: 'px',
+      hUnits: 'px',
+      bitDepth: 8,
+      channels: 3,
+    });
+  });
+
+  it('returns null for a file without image header or codestream', () => {
+    expect(parseJP2(jp2('jp2 ', box('xml ', Buffer.from('<x/>'))))).toBeNull();
+  });
+
+  it('is detected from the signature box and from the codestream markers', () => {
+    expect(detectFormat(jp2('jp2 '))).toBe(parseJP2);
+    expect(detectFormat(siz(1, 1, 1, 8))).toBe(parseJP2);
+  });
+});
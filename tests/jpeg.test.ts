@@ -0,0 +1,491 @@
+import { describe, it, expect } from 'vitest';
+import { parseJPEG } from '../src/parsers/jpeg.js';
+import { getImageSpecs } from '../src/index.js';
+
+function segment(marker: number, payload: Buffer): Buffer {
+  const header = Buffer.from([0xff, marker, 0, 0]);
+  header.writeUInt16BE(payload.length + 2, 2);
+  return Buffer.concat([header, payload]);
+}
+
+function sof(width: number, height: number): Buffer {
+  const payload = Buffer.from([8, 0, 0, 0, 0, 3, 1, 0x11, 0, 2, 0x11, 0, 3, 0x11, 0]);
+  payload.writeUInt16BE(height, 1);
+  payload.writeUInt16BE(width, 3);
+  return segment(0xc0, payload);
+}
+
+/** A complete JPEG: SOI, the given segments, a frame header, a stand-in scan and EOI */
+function jpeg(width: number, height: number, ...segments: Buffer[]): Buffer {
+  return Buffer.concat([
+    Buffer.from([0xff, 0xd8]),
+    ...segments,
+    sof(width, height),
+    Buffer.alloc(32, 0x55),
+    Buffer.from([0xff, 0xd9]),
+  ]);
+}
+
+function xmp(description: string): Buffer {
+  return segment(
+    0xe1,
+    Buffer.from(
+      'http://ns.adobe.com/xap/1.0/\0' +
+        '<x:xmpmeta xmlns:x="adobe:ns:meta/"><rdf:RDF>' +
+        `<rdf:Description xmlns:hdrgm="http://ns.adobe.com/hdr-gain-map/1.0/" ${description}` +
+        '</rdf:RDF></x:xmpmeta>'
+    )
+  );
+}
+
+/** Bytes from the start of an MPF segment to its TIFF header: marker, length and identifier */
+const MPF_HEADER_OFFSET = 8;
+
+/** An MPF APP2 segment listing images by attributes, size and offset from its TIFF header */
+function mpf(images: readonly { attributes?: number; size: number; offset: number }[]): Buffer {
+  const tiff = Buffer.alloc(26 + images.length * 16);
+  tiff.write('MM', 0, 'ascii');
+  tiff.writeUInt16BE(42, 2);
+  tiff.writeUInt32BE(8, 4);
+  tiff.writeUInt16BE(1, 8); // One entry: MP Entry, type UNDEFINED
+  tiff.writeUInt16BE(0xb002, 10);
+  tiff.writeUInt16BE(7, 12);
+  tiff.writeUInt32BE(images.length * 16, 14);
+  tiff.writeUInt32BE(26, 18);
+  images.forEach(({ attributes = 0, size, offset }, i) => {
+    tiff.writeUInt32BE(attributes, 26 + i * 16);
+    tiff.writeUInt32BE(size, 26 + i * 16 + 4);
+    tiff.writeUInt32BE(offset, 26 + i * 16 + 8);
+  });
+  return segment(0xe2, Buffer.concat([Buffer.from('MPF\0'), tiff]));
+}
+
+/**
+ * A base image followed by a gain map image, linked by MPF. The MPF segment
+ * comes after the others, so its offset is known before it is built.
+ */
+function withGainMap(width: number, height: number, segments: Buffer[], gainMap: Buffer): Buffer {
+  const mpfStart = 2 + Buffer.concat(segments).length;
+  const build = (offset: number): Buffer =>
+    jpeg(
+      width,
+      height,
+      ...segments,
+      mpf([
+        { size: 0, offset: 0 },
+        { size: gainMap.length, offset },
+      ])
+    );
+  const base = build(0);
+  return Buffer.concat([build(base.length - mpfStart - MPF_HEADER_OFFSET), gainMap]);
+}
+
+/** ISO 21496-1 metadata for one channel, over a common denominator of 64 */
+function isoGainMap(): Buffer {
+  const data = Buffer.alloc(37);
+  data[4] = 0x08; // Common denominator
+  [64, 0, 160, 0, 160, 64, 1, 1].forEach((value, i) => data.writeInt32BE(value, 5 + i * 4));
+  return data;
+}
+
+function iso(metadata: Buffer): Buffer {
+  return segment(0xe2, Buffer.concat([Buffer.from('urn:iso:std:iso:ts:21496:-1\0'), metadata]));
+}
+
+/** TIFF data whose IFD0 holds only an Orientation tag */
+function orientationTiff(orientation: number, littleEndian = false): Buffer {
+  const tiff = Buffer.alloc(26);
+  const writeUInt16 = (value: number, offset: number): number =>
+    littleEndian ? tiff.writeUInt16LE(value, offset) : tiff.writeUInt16BE(value, offset);
+  const writeUInt32 = (value: number, offset: number): number =>
+    littleEndian ? tiff.writeUInt32LE(value, offset) : tiff.writeUInt32BE(value, offset);
+
+  tiff.write(littleEndian ? 'II' : 'MM', 0, 'ascii');
+  writeUInt16(42, 2);
+  writeUInt32(8, 4);
+  writeUInt16(1, 8);
+  writeUInt16(0x0112, 10);
+  writeUInt16(3, 12); // SHORT
+  writeUInt32(1, 14);
+  writeUInt16(orientation, 18);
+  return tiff;
+}
+
+function exif(tiff: Buffer): Buffer {
+  return segment(0xe1, Buffer.concat([Buffer.from('Exif\0\0'), tiff]));
+}
+
+/** A TIFF field: tag, field type, and an ASCII or UNDEFINED string or numeric values */
+type Field = [tag: number, type: number, value: string | readonly number[]];
+
+/**
+ * TIFF data with IFD0 and an Exif IFD it points to. Values that do not fit an
+ * entry follow the directories; rationals are given as numerator, denominator
+ * pairs.
+ */
+function exifTiff(ifd0: readonly Field[], exifIfd: readonly Field[], littleEndian = false): Buffer {
+  const directorySize = (fields: readonly Field[]): number => 2 + fields.length * 12 + 4;
+  const exifIfdOffset = 8 + directorySize(ifd0) + 12;
+  const directories = [[...ifd0, [0x8769, 4, [exifIfdOffset]] as Field], exifIfd];
+  const valuesOffset = exifIfdOffset + directorySize(exifIfd);
+
+  const writeUInt16 = (data: Buffer, value: number, offset: number): number =>
+    littleEndian ? data.writeUInt16LE(value, offset) : data.writeUInt16BE(value, offset);
+  const writeUInt32 = (data: Buffer, value: number, offset: number): number =>
+    littleEndian ? data.writeUInt32LE(value, offset) : data.writeUInt32BE(value, offset);
+  const writeInt32 = (data: Buffer, value: number, offset: number): number =>
+    littleEndian ? data.writeInt32LE(value, offset) : data.writeInt32BE(value, offset);
+
+  const encode = (type: number, value: Field[2]): Buffer => {
+    if (typeof value === 'string') {
+      return Buffer.from(type === 2 ? `${value}\0` : value, 'latin1');
+    }
+    const size = type === 3 ? 2 : 4;
+    const data = Buffer.alloc(value.length * size);
+    value.forEach((number, i) => {
+      if (type === 3) writeUInt16(data, number, i * 2);
+      else if (type === 10) writeInt32(data, number, i * 4);
+      else writeUInt32(data, number, i * 4);
+    });
+    return data;
+  };
+
+  const header = Buffer.alloc(8);
+  header.write(littleEndian ? 'II' : 'MM', 0, 'ascii');
+  writeUInt16(header, 42, 2);
+  writeUInt32(header, 8, 4);
+
+  const values: Buffer[] = [];
+  let valueOffset = valuesOffset;
+  const encoded = directories.map((fields) => {
+    const directory = Buffer.alloc(directorySize(fields));
+    writeUInt16(directory, fields.length, 0);
+    fields.forEach(([tag, type, value], i) => {
+      const data = encode(type, value);
+      const count =
+        typeof value === 'string'
+          ? data.length
+          : value.length / (type === 5 || type === 10 ? 2 : 1);
+      const entry = 2 + i * 12;
+      writeUInt16(directory, tag, entry);
+      writeUInt16(directory, type, entry + 2);
+      writeUInt32(directory, count, entry + 4);
+      if (data.length <= 4) {
+        data.copy(directory, entry + 8);
+      } else {
+        writeUInt32(directory, valueOffset, entry + 8);
+        values.push(data);
+        valueOffset += data.length;
+      }
+    });
+    return directory;
+  });
+
+  return Buffer.concat([header, ...encoded, ...values]);
+}
+
+const CAMERA_IFD0: readonly Field[] = [
+  [0x010f, 2, 'Canon'],
+  [0x0110, 2, 'Canon EOS R5'],
+  [0x0131, 2, 'Firmware Version 1.8.1'],
+];
+
+const CAMERA_EXIF_IFD: readonly Field[] = [
+  [0x829a, 5, [1, 250]],
+  [0x829d, 5, [18, 10]],
+  [0x8827, 3, [400]],
+  [0x9003, 2, '2024:05:17 14:32:08'],
+  [0x9011, 2, '+09:00'],
+  [0x9209, 3, [16]],
+  [0x920a, 5, [50, 1]],
+  [0xa434, 2, 'RF50mm F1.8 STM'],
+];
+
+const CAMERA_DETAILS = {
+  make: 'Canon',
+  model: 'Canon EOS R5',
+  lensModel: 'RF50mm F1.8 STM',
+  software: 'Firmware Version 1.8.1',
+  dateTimeOriginal: '2024:05:17 14:32:08',
+  offsetTimeOriginal: '+09:00',
+  exposureTime: 0.004,
+  fNumber: 1.8,
+  iso: 400,
+  focalLength: 50,
+  flash: 16,
+};
+
+describe('parseJPEG', () => {
+  describe('gain maps', () => {
+    it('reads an Ultra HDR gain map through MPF and hdrgm XMP', () => {
+      const gainMap = jpeg(
+        1008,
+        756,
+        xmp(
+          'hdrgm:Version="1.0" hdrgm:GainMapMin="0" hdrgm:GainMapMax="2.3" hdrgm:Gamma="1" ' +
+            'hdrgm:OffsetSDR="0.015625" hdrgm:OffsetHDR="0.015625" hdrgm:HDRCapacityMin="0" ' +
+            'hdrgm:HDRCapacityMax="2.3" hdrgm:BaseRenditionIsHDR="False"/>'
+        )
+      );
+      const data = withGainMap(4032, 3024, [xmp('hdrgm:Version="1.0"/>')], gainMap);
+
+      expect(parseJPEG(data)).toMatchObject({
+        width: 4032,
+        height: 3024,
+        gainMap: {
+          width: 1008,
+          height: 756,
+          version: '1.0',
+          hdrCapacityMin: 0,
+          hdrCapacityMax: 2.3,
+          gainMapMin: [0],
+          gainMapMax: [2.3],
+          gamma: [1],
+          offsetSdr: [0.015625],
+          offsetHdr: [0.015625],
+          baseRenditionIsHdr: false,
+        },
+      });
+    });
+
+    it('reads per-channel values from rdf:Seq elements', () => {
+      const gainMap = jpeg(
+        100,
+        75,
+        xmp(
+          'hdrgm:Version="1.0"><hdrgm:GainMapMax><rdf:Seq><rdf:li>2</rdf:li><rdf:li>2.5</rdf:li>' +
+            '<rdf:li>3</rdf:li></rdf:Seq></hdrgm:GainMapMax><hdrgm:HDRCapacityMax>3' +
+            '</hdrgm:HDRCapacityMax></rdf:Description>'
+        )
+      );
+      const data = withGainMap(400, 300, [xmp('hdrgm:Version="1.0"/>')], gainMap);
+
+      expect(parseJPEG(data)?.gainMap).toMatchObject({
+        width: 100,
+        height: 75,
+        gainMapMax: [2, 2.5, 3],
+        hdrCapacityMax: 3,
+      });
+    });
+
+    it('reads ISO 21496-1 metadata from APP2', () => {
+      const gainMap = jpeg(100, 75, iso(isoGainMap()));
+      const data = withGainMap(400, 300, [iso(Buffer.alloc(4))], gainMap);
+
+      expect(parseJPEG(data)?.gainMap).toEqual({
+        width: 100,
+        height: 75,
+        hdrCapacityMin: 0,
+        hdrCapacityMax: 2.5,
+        gainMapMin: [0],
+        gainMapMax: [2.5],
+        gamma: [1],
+        offsetSdr: [0.015625],
+        offsetHdr: [0.015625],
+        baseRenditionIsHdr: false,
+      });
+    });
+
+    it('reports the gain map from the base image when it lies past the buffer', () => {
+      const gainMap = jpeg(100, 75, xmp('hdrgm:Version="1.0" hdrgm:HDRCapacityMax="2"/>'));
+      const data = withGainMap(400, 300, [xmp('hdrgm:Version="1.0"/>')], gainMap);
+
+      expect(parseJPEG(data.subarray(0, data.length - gainMap.length))?.gainMap).toEqual({
+        version: '1.0',
+      });
+    });
+
+    it('does not report MPF images without gain map metadata', () => {
+      const data = withGainMap(400, 300, [], jpeg(160, 120));
+      expect(parseJPEG(data)).not.toHaveProperty('gainMap');
+    });
+  });
+
+  describe('multi-picture format', () => {
+    it('lists every image with its type, size, offset and dimensions', () => {
+      const thumbnail = jpeg(640, 480);
+      const disparity = jpeg(1920, 1080);
+      const build = (offsets: readonly number[]): Buffer =>
+        jpeg(
+          1920,
+          1080,
+          mpf([
+            { attributes: 0x20030000, size: 0, offset: 0 },
+            { attributes: 0x00010001, size: thumbnail.length, offset: offsets[0] ?? 0 },
+            { attributes: 0x00020002, size: disparity.length, offset: offsets[1] ?? 0 },
+          ])
+        );
+
+      // The TIFF header follows SOI and the segment's marker, length and identifier
+      const base = build([]);
+      const first = base.length - 2 - MPF_HEADER_OFFSET;
+      const data = Buffer.concat([build([first, first + thumbnail.length]), thumbnail, disparity]);
+
+      expect(parseJPEG(data)?.embeddedImages).toEqual([
+        { type: 'primary', size: 0, offset: 0, width: 1920, height: 1080 },
+        {
+          type: 'large-thumbnail-vga',
+          size: thumbnail.length,
+          offset: base.length,
+          width: 640,
+          height: 480,
+        },
+        {
+          type: 'disparity',
+          size: disparity.length,
+          offset: base.length + thumbnail.length,
+          width: 1920,
+          height: 1080,
+        },
+      ]);
+    });
+
+    it('lists images past the buffer without dimensions, and unknown types by code', () => {
+      const data = jpeg(
+        800,
+        600,
+        mpf([
+          { attributes: 0x00030000, size: 0, offset: 0 },
+          { attributes: 0x00040000, size: 5000, offset: 100000 },
+        ])
+      );
+
+      expect(parseJPEG(data)?.embeddedImages).toEqual([
+        { type: 'primary', size: 0, offset: 0, width: 800, height: 600 },
+        { type: '0x040000', size: 5000, offset: 100000 + 2 + MPF_HEADER_OFFSET },
+      ]);
+    });
+
+    it('reads little-endian MP indexes', () => {
+      const segment = mpf([{ attributes: 0x00030000, size: 0, offset: 0 }]);
+      // Rewrite the TIFF structure in Intel byte order
+      const tiff = segment.subarray(MPF_HEADER_OFFSET);
+      tiff.write('II', 0, 'ascii');
+      tiff.writeUInt16LE(42, 2);
+      tiff.writeUInt32LE(8, 4);
+      tiff.writeUInt16LE(1, 8);
+      tiff.writeUInt16LE(0xb002, 10);
+      tiff.writeUInt16LE(7, 12);
+      tiff.writeUInt32LE(16, 14);
+      tiff.writeUInt32LE(26, 18);
+      tiff.writeUInt32LE(0x00030000, 26);
+
+      expect(parseJPEG(jpeg(320, 240, segment))?.embeddedImages).toEqual([
+        { type: 'primary', size: 0, offset: 0, width: 320, height: 240 },
+      ]);
+    });
+  });
+
+  describe('orientation', () => {
+    it('swaps the display size for orientations 5-8', () => {
+      expect(parseJPEG(jpeg(4032, 3024, exif(orientationTiff(6))))).toMatchObject({
+        width: 4032,
+        height: 3024,
+        orientation: 6,
+        displayWidth: 3024,
+        displayHeight: 4032,
+      });
+    });
+
+    it('keeps the display size for orientations 1-4, in either byte order', () => {
+      expect(parseJPEG(jpeg(640, 480, exif(orientationTiff(3, true))))).toMatchObject({
+        orientation: 3,
+        displayWidth: 640,
+        displayHeight: 480,
+      });
+    });
+
+    it('ignores orientations outside 1-8', () => {
+      const result = parseJPEG(jpeg(640, 480, exif(orientationTiff(9))));
+      expect(result).not.toHaveProperty('orientation');
+      expect(result).not.toHaveProperty('displayWidth');
+    });
+  });
+
+  describe('EXIF details', () => {
+    it('reads camera details from IFD0 and the Exif IFD with the exif option', () => {
+      const data = jpeg(640, 480, exif(exifTiff(CAMERA_IFD0, CAMERA_EXIF_IFD)));
+
+      expect(parseJPEG(data, { exif: true })?.exif).toEqual(CAMERA_DETAILS);
+      expect(parseJPEG(data)).not.toHaveProperty('exif');
+    });
+
+    it('reads the other offset-time tags without taking OffsetTime for the capture time', () => {
+      const data = jpeg(
+        640,
+        480,
+        exif(
+          exifTiff(
+            [],
+            [
+              [0x9003, 2, '2024:05:17 14:32:08'],
+              [0x9010, 2, '-05:00'],
+              [0x9012, 2, '+01:00'],
+            ]
+          )
+        )
+      );
+
+      expect(parseJPEG(data, { exif: true })?.exif).toEqual({
+        dateTimeOriginal: '2024:05:17 14:32:08',
+        offsetTimeDigitized: '+01:00',
+        offsetTime: '-05:00',
+      });
+    });
+
+    it('reads little-endian blocks', () => {
+      const data = jpeg(640, 480, exif(exifTiff(CAMERA_IFD0, CAMERA_EXIF_IFD, true)));
+      expect(parseJPEG(data, { exif: true })?.exif).toEqual(CAMERA_DETAILS);
+    });
+
+    it('reads LONG, SRATIONAL and UNDEFINED fields', () => {
+      const data = jpeg(
+        640,
+        480,
+        exif(
+          exifTiff(
+            [],
+            [
+              [0x829a, 10, [1, 60]],
+              [0x8827, 4, [3200]],
+              [0xa434, 7, 'XF23mmF2 R WR'],
+            ]
+          )
+        )
+      );
+
+      expect(parseJPEG(data, { exif: true })?.exif).toEqual({
+        exposureTime: 1 / 60,
+        iso: 3200,
+        lensModel: 'XF23mmF2 R WR',
+      });
+    });
+
+    it('skips values whose offsets run past the block', () => {
+      const block = exifTiff(CAMERA_IFD0, [[0xa434, 2, 'RF50mm F1.8 STM']]);
+      // Cut the block within the lens model, the last value stored
+      const data = jpeg(640, 480, exif(block.subarray(0, block.length - 4)));
+
+      expect(parseJPEG(data, { exif: true })?.exif).toEqual({
+        make: 'Canon',
+        model: 'Canon EOS R5',
+        software: 'Firmware Version 1.8.1',
+      });
+    });
+
+    it('ignores an Exif IFD pointer outside the block', () => {
+      const block = exifTiff([], CAMERA_EXIF_IFD);
+      block.writeUInt32BE(0xffff, 8 + 2 + 8); // The pointer entry's value
+      const data = jpeg(640, 480, exif(block));
+
+      expect(parseJPEG(data, { exif: true })).not.toHaveProperty('exif');
+    });
+
+    it('is passed the option by getImageSpecs', async () => {
+      const data = jpeg(640, 480, exif(exifTiff(CAMERA_IFD0, [])));
+      expect(await getImageSpecs(data, { exif: true })).toMatchObject({
+        exif: { make: 'Canon', model: 'Canon EOS R5' },
+      });
+    });
+  });
+});
@@ -0,0 +1,140 @@
+import { describe, it, expect } from 'vitest';
+import { parseJXL } from '../src/parsers/jxl.js';
+import { detectFormat } from '../src/utils/detector.js';
+
+/**
+ * Pack fields least significant bit first, as JPEG XL headers are
+ */
+function bitPack(fields: readonly (readonly [value: number, bits: number])[]): Buffer {
+  const bits = fields.flatMap(([value, count]) =>
+    Array.from({ length: count }, (_, i) => Math.floor(value / 2 ** i) % 2)
+  );
+  const buffer = Buffer.alloc(Math.ceil(bits.length / 8));
+  bits.forEach((bit, i) => {
+    buffer[i >> 3]! |= bit << (i & 7);
+  });
+  return buffer;
+}
+
+function codestream(...fields: (readonly [number, number])[]): Buffer {
+  return Buffer.concat([Buffer.from([0xff, 0x0a]), bitPack(fields)]);
+}
+
+function box(type: string, ...contents: Buffer[]): Buffer {
+  const data = Buffer.concat(contents);
+  const header = Buffer.alloc(8);
+  header.writeUInt32BE(header.length + data.length);
+  header.write(type, 4, 'ascii');
+  return Buffer.concat([header, data]);
+}
+
+function container(...boxes: Buffer[]): Buffer {
+  return Buffer.concat([
+    Buffer.from([0x00, 0x00, 0x00, 0x0c, 0x4a, 0x58, 0x4c, 0x20, 0x0d, 0x0a, 0x87, 0x0a]),
+    box('ftyp', Buffer.from('jxl '), Buffer.alloc(4), Buffer.from('jxl ')),
+    ...boxes,
+  ]);
+}
+
+/** 64x64 via the multiple-of-8 shortcut and a 1:1 ratio, all-default metadata */
+const SMALL_DEFAULT = codestream([1, 1], [7, 5], [1, 3], [1, 1]);
+
+/** 1920x1080 with 12-bit samples, an alpha channel and Rec. 2020 primaries */
+const FULL_HD_WIDE_GAMUT = codestream(
+  [0, 1], // small
+  [1, 2], // height selector: 13 bits
+  [1079, 13],
+  [0, 3], // explicit width
+  [1, 2], // width selector: 13 bits
+  [1919, 13],
+  [0, 1], // metadata all_default
+  [0, 1], // extra_fields
+  [0, 1], // float_sample
+  [2, 2], // bits_per_sample: 12
+  [1, 1], // modular_16_bit_buffer_sufficient
+  [1, 2], // one extra channel
+  [1, 1], // default (alpha) extra channel
+  [0, 1], // xyb_encoded
+  [0, 1], // colour all_default
+  [0, 1], // want_icc
+  [0, 2], // colour_space: RGB
+  [1, 2], // white point: D65
+  [2, 2],
+  [7, 4], // primaries: 9 (BT.2100)
+  [0, 32] // transfer function and beyond
+);
+
+describe('parseJXL', () => {
+  it('reads a bare codestream with all-default metadata', () => {
+    expect(parseJXL(SMALL_DEFAULT)).toEqual({
+      width: 64,
+      height: 64,
+      type: 'jxl',
+      mime: 'image/jxl',
+      wUnits: 'px',
+      hUnits: 'px',
+      colorSpace: 'sRGB',
+      bitDepth: 8,
+      channels: 3,
+      hasAlpha: false,
+    });
+  });
+
+  it('reads explicit sizes, bit depth, alpha and colour encoding', () => {
+    expect(parseJXL(FULL_HD_WIDE_GAMUT)).toMatchObject({
+      width: 1920,
+      height: 1080,
+      colorSpace: 'Rec. 2020',
+      bitDepth: 12,
+      channels: 4,
+      hasAlpha: true,
+    });
+  });
+
+  it('derives the width from an aspect ratio shortcut', () => {
+    const result = parseJXL(codestream([0, 1], [1, 2], [1079, 13], [5, 3], [1, 1]));
+
+    expect(result).toMatchObject({ width: 1920, height: 1080 });
+  });
+
+  it('reports metadata only as far as a truncated header goes', () => {
+    // Ends just after the bit depth, before the extra channels
+    const result = parseJXL(FULL_HD_WIDE_GAMUT.subarray(0, 7));
+
+    expect(result).toMatchObject({ width: 1920, height: 1080, bitDepth: 12 });
+    expect(result).not.toHaveProperty('hasAlpha');
+    expect(result).not.toHaveProperty('channels');
+    expect(result).not.toHaveProperty('colorSpace');
+  });
+
+  it('reads the codestream from a jxlc container box', () => {
+    expect(parseJXL(container(box('jxlc', SMALL_DEFAULT)))).toMatchObject({
+      width: 64,
+      height: 64,
+      type: 'jxl',
+    });
+  });
+
+  it('joins a codestream split across jxlp boxes', () => {
+    const first = Buffer.from([0, 0, 0, 0]);
+    const last = Buffer.from([0x80, 0, 0, 1]);
+    const result = parseJXL(
+      container(
+        box('jxll', Buffer.from([5])),
+        box('jxlp', first, FULL_HD_WIDE_GAMUT.subarray(0, 5)),
+        box('jxlp', last, FULL_HD_WIDE_GAMUT.subarray(5))
+      )
+    );
+
+    expect(result).toMatchObject({ width: 1920, height: 1080, bitDepth: 12, hasAlpha: true });
+  });
+
+  it('returns null for a container without a codestream', () => {
+    expect(parseJXL(container(box('jxll', Buffer.from([5]))))).toBeNull();
+  });
+
+  it('is detected from both signatures', () => {
+    expect(detectFormat(SMALL_DEFAULT)).toBe(parseJXL);
+    expect(detectFormat(container(box('jxlc', SMALL_DEFAULT)))).toBe(parseJXL);
+  });
+});
@@ -0,0 +1,140 @@
+import { describe, it, expect } from 'vitest';
+import { parseKTX } from '../src/parsers/ktx.js';
+import { detectFormat } from '../src/utils/detector.js';
+
+interface Layout {
+  width?: number;
+  height?: number;
+  depth?: number;
+  layers?: number;
+  faces?: number;
+  levels?: number;
+}
+
+function ktx1(
+  glType: number,
+  glInternalFormat: number,
+  { width = 1024, height = 1024, depth = 0, layers = 0, faces = 1, levels = 11 }: Layout = {},
+  littleEndian = true
+): Buffer {
+  const data = Buffer.alloc(64);
+  Buffer.from([0xab, 0x4b, 0x54, 0x58, 0x20, 0x31, 0x31, 0xbb, 0x0d, 0x0a, 0x1a, 0x0a]).copy(data);
+  const fields = [
+    0x04030201,
+    glType,
+    1,
+    0,
+    glInternalFormat,
+    0,
+    width,
+    height,
+    depth,
+    layers,
+    faces,
+    levels,
+  ];
+  fields.forEach((value, i) =>
+    littleEndian ? data.writeUInt32LE(value, 12 + i * 4) : data.writeUInt32BE(value, 12 + i * 4)
+  );
+  return data;
+}
+
+function ktx2(
+  vkFormat: number,
+  { width = 2048, height = 2048, depth = 0, layers = 0, faces = 1, levels = 12 }: Layout = {},
+  supercompression = 0,
+  colorModel?: number
+): Buffer {
+  const data = Buffer.alloc(colorModel === undefined ? 80 : 124);
+  Buffer.from([0xab, 0x4b, 0x54, 0x58, 0x20, 0x32, 0x30, 0xbb, 0x0d, 0x0a, 0x1a, 0x0a]).copy(data);
+  const fields = [vkFormat, 1, width, height, depth, layers, faces, levels, supercompression];
+  fields.forEach((value, i) => data.writeUInt32LE(value, 12 + i * 4));
+
+  if (colorModel !== undefined) {
+    data.writeUInt32LE(80, 48);
+    data.writeUInt32LE(44, 52);
+    data.writeUInt32LE(44, 80);
+    data[92] = colorModel;
+  }
+  return data;
+}
+
+describe('parseKTX', () => {
+  it('reads a compressed KTX 1 texture', () => {
+    expect(parseKTX(ktx1(0, 0x93b0))).toEqual({
+      width: 1024,
+      height: 1024,
+      type: 'ktx',
+      mime: 'image/ktx',
+      wUnits: 'px',
+      hUnits: 'px',
+      texture: {
+        format: 'COMPRESSED_RGBA_ASTC_4x4_KHR',
+        compressed: true,
+        mipLevels: 11,
+        cubemap: false,
+        array: false,
+        layers: 1,
+      },
+    });
+  });
+
+  it('reads big-endian KTX 1 files and cubemap arrays', () => {
+    const result = parseKTX(ktx1(0x1401, 0x8c43, { faces: 6, layers: 4, levels: 0 }, false));
+
+    expect(result).toMatchObject({
+      colorSpace: 'sRGB',
+      texture: {
+        format: 'SRGB8_ALPHA8',
+        compressed: false,
+        mipLevels: 1,
+        cubemap: true,
+        array: true,
+        layers: 4,
+      },
+    });
+  });
+
+  it('reads a KTX 2 texture with supercompression', () => {
+    expect(parseKTX(ktx2(145, {}, 2))).toMatchObject({
+      width: 2048,
+      height: 2048,
+      type: 'ktx2',
+      mime: 'image/ktx2',
+      texture: {
+        format: 'BC7_UNORM_BLOCK',
+        compressed: true,
+        mipLevels: 12,
+        supercompression: 'Zstandard',
+      },
+    });
+  });
+
+  it('names Basis Universal textures from the data format descriptor', () => {
+    expect(parseKTX(ktx2(0, {}, 1, 163))?.texture).toMatchObject({
+      format: 'ETC1S',
+      compressed: true,
+      supercompression: 'BasisLZ',
+    });
+    expect(parseKTX(ktx2(0, {}, 0, 166))?.texture).toMatchObject({ format: 'UASTC' });
+  });
+
+  it('reads volume and 1D textures', () => {
+    expect(parseKTX(ktx2(37, { depth: 64 }))?.texture).toMatchObject({
+      format: 'R8G8B8A8_UNORM',
+      depth: 64,
+    });
+    expect(parseKTX(ktx2(37, { height: 0 }))).toMatchObject({ height: 1 });
+  });
+
+  it('rejects a KTX 1 file with a bad endianness marker', () => {
+    const data = ktx1(0, 0x93b0);
+    data.writeUInt32LE(0x12345678, 12);
+    expect(parseKTX(data)).toBeNull();
+  });
+
+  it('is detected from both identifiers', () => {
+    expect(detectFormat(ktx1(0, 0x93b0))).toBe(parseKTX);
+    expect(detectFormat(ktx2(145))).toBe(parseKTX);
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import { parseNetpbm } from '../src/parsers/netpbm.js';
+import { detectFormat } from '../src/utils/detector.js';
+
+function netpbm(header: string, data = Buffer.alloc(16)): Buffer {
+  return Buffer.concat([Buffer.from(header, 'latin1'), data]);
+}
+
+describe('parseNetpbm', () => {
+  it('reads a raw PPM header', () => {
+    expect(parseNetpbm(netpbm('P6\n640 480\n255\n'))).toEqual({
+      width: 640,
+      height: 480,
+      type: 'ppm',
+      mime: 'image/x-portable-pixmap',
+      wUnits: 'px',
+      hUnits: 'px',
+      colorSpace: 'RGB',
+      bitDepth: 8,
+      channels: 3,
+      sampleFormat: 'uint',
+    });
+  });
+
+  it('skips comments and arbitrary whitespace between fields', () => {
+    const header = 'P5 # written by a scanner\n#another comment\n  1024\t\r\n768 # size\n65535\n';
+
+    expect(parseNetpbm(netpbm(header))).toMatchObject({
+      width: 1024,
+      height: 768,
+      type: 'pgm',
+      colorSpace: 'Grayscale',
+      bitDepth: 16,
+      channels: 1,
+    });
+  });
+
+  it('derives the bit depth from maxval', () => {
+    expect(parseNetpbm(netpbm('P2\n4 4\n15\n'))).toMatchObject({ bitDepth: 4 });
+    expect(parseNetpbm(netpbm('P3\n4 4\n1023\n'))).toMatchObject({ bitDepth: 10 });
+  });
+
+  it('reads PBM files as 1-bit without a maxval', () => {
+    expect(parseNetpbm(netpbm('P1\n# bitmap\n8 2\n'))).toMatchObject({
+      width: 8,
+      height: 2,
+      type: 'pbm',
+      mime: 'image/x-portable-bitmap',
+      bitDepth: 1,
+      channels: 1,
+    });
+  });
+
+  it('reads PAM depth and tuple type', () => {
+    const header = 'P7\nWIDTH 227\nHEIGHT 149\nDEPTH 4\nMAXVAL 255\nTUPLTYPE RGB_ALPHA\nENDHDR\n';
+
+    expect(parseNetpbm(netpbm(header))).toEqual({
+      width: 227,
+      height: 149,
+      type: 'pam',
+      mime: 'image/x-portable-arbitrarymap',
+      wUnits: 'px',
+      hUnits: 'px',
+      colorSpace: 'RGB',
+      bitDepth: 8,
+      channels: 4,
+      hasAlpha: true,
+      sampleFormat: 'uint',
+    });
+  });
+
+  it('leaves alpha unknown for a PAM without a tuple type', () => {
+    const result = parseNetpbm(netpbm('P7\nWIDTH 2\nHEIGHT 2\nDEPTH 2\nMAXVAL 3\nENDHDR\n'));
+
+    expect(result).toMatchObject({ channels: 2, bitDepth: 2 });
+    expect(result).not.toHaveProperty('hasAlpha');
+    expect(result).not.toHaveProperty('colorSpace');
+  });
+
+  it('reports PFM as 32-bit float', () => {
+    expect(parseNetpbm(netpbm('PF\n320 240\n-1.0\n'))).toMatchObject({
+      type: 'pfm',
+      mime: 'image/x-portable-floatmap',
+      colorSpace: 'RGB',
+      bitDepth: 32,
+      channels: 3,
+      sampleFormat: 'float',
+    });
+    expect(parseNetpbm(netpbm('Pf\n320 240\n1.0\n'))).toMatchObject({
+      colorSpace: 'Grayscale',
+      channels: 1,
+      sampleFormat: 'float',
+    });
+  });
+
+  it('rejects malformed headers', () => {
+    expect(parseNetpbm(netpbm('P6\n640 x 480\n255\n'))).toBeNull();
+    expect(parseNetpbm(netpbm('P5\n640 480\n70000\n'))).toBeNull();
+    expect(parseNetpbm(netpbm('P7\nWIDTH 2\nHEIGHT 2\nENDHDR\n'))).toBeNull();
+    expect(parseNetpbm(netpbm('P8\n1 1\n255\n'))).toBeNull();
+  });
+
+  it('is detected from its magic number', () => {
+    expect(detectFormat(netpbm('P6\n1 1\n255\n'))).toBe(parseNetpbm);
+    expect(detectFormat(netpbm('Pf 1 1 -1\n'))).toBe(parseNetpbm);
+    expect(detectFormat(netpbm('P6x'))).toBeNull();
+  });
+});
@@ -523,6 +523,7 @@ describe('Image Parsers', () => {
         mime: 'image/x-icon',
         wUnits: 'px',
         hUnits: 'px',
+        icons: [{ width: 32, height: 32, bytes: 1024, bitCount: 32 }],
       });
     });
 
@@ -0,0 +1,233 @@
+import { describe, it, expect } from 'vitest';
+import { parsePNG } from '../src/parsers/png.js';
+
+function chunk(type: string, data: Buffer): Buffer {
+  const size = Buffer.alloc(4);
+  size.writeUInt32BE(data.length);
+  return Buffer.concat([size, Buffer.from(type), data, Buffer.alloc(4)]);
+}
+
+function png(...chunks: Buffer[]): Buffer {
+  const ihdr = Buffer.alloc(13);
+  ihdr.writeUInt32BE(100, 0);
+  ihdr.writeUInt32BE(80, 4);
+  ihdr[8] = 8;
+  ihdr[9] = 6;
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    chunk('IHDR', ihdr),
+    ...chunks,
+    chunk('IEND', Buffer.alloc(0)),
+  ]);
+}
+
+function acTL(frames: number, plays: number): Buffer {
+  const data = Buffer.alloc(8);
+  data.writeUInt32BE(frames, 0);
+  data.writeUInt32BE(plays, 4);
+  return chunk('acTL', data);
+}
+
+interface Frame {
+  width?: number;
+  height?: number;
+  x?: number;
+  y?: number;
+  delay?: [number, number];
+  dispose?: number;
+  blend?: number;
+}
+
+function fcTL({
+  width = 100,
+  height = 80,
+  x = 0,
+  y = 0,
+  delay = [1, 10],
+  dispose = 0,
+  blend = 0,
+}: Frame = {}): Buffer {
+  const data = Buffer.alloc(26);
+  data.writeUInt32BE(width, 4);
+  data.writeUInt32BE(height, 8);
+  data.writeUInt32BE(x, 12);
+  data.writeUInt32BE(y, 16);
+  data.writeUInt16BE(delay[0], 20);
+  data.writeUInt16BE(delay[1], 22);
+  data[24] = dispose;
+  data[25] = blend;
+  return chunk('fcTL', data);
+}
+
+function cICP(primaries: number, transfer: number, matrix: number, fullRange: number): Buffer {
+  return chunk('cICP', Buffer.from([primaries, transfer, matrix, fullRange]));
+}
+
+function uint32(...values: number[]): Buffer {
+  const data = Buffer.alloc(values.length * 4);
+  values.forEach((value, i) => data.writeUInt32BE(value, i * 4));
+  return data;
+}
+
+/** TIFF data whose IFD0 holds only an Orientation tag */
+function orientationTiff(orientation: number, littleEndian = false): Buffer {
+  const tiff = Buffer.alloc(26);
+  const writeUInt16 = (value: number, offset: number): number =>
+    littleEndian ? tiff.writeUInt16LE(value, offset) : tiff.writeUInt16BE(value, offset);
+  const writeUInt32 = (value: number, offset: number): number =>
+    littleEndian ? tiff.writeUInt32LE(value, offset) : tiff.writeUInt32BE(value, offset);
+
+  tiff.write(littleEndian ? 'II' : 'MM', 0, 'ascii');
+  writeUInt16(42, 2);
+  writeUInt32(8, 4);
+  writeUInt16(1, 8);
+  writeUInt16(0x0112, 10);
+  writeUInt16(3, 12); // SHORT
+  writeUInt32(1, 14);
+  writeUInt16(orientation, 18);
+  return tiff;
+}
+
+const imageData = chunk('IDAT', Buffer.alloc(16));
+const frameData = chunk('fdAT', Buffer.alloc(16));
+
+describe('parsePNG', () => {
+  it('reads APNG frame count, plays and frame controls', () => {
+    const data = png(
+      acTL(2, 0),
+      fcTL(),
+      imageData,
+      fcTL({ width: 40, height: 30, x: 10, y: 20, delay: [0, 0], dispose: 2, blend: 1 }),
+      frameData
+    );
+
+    expect(parsePNG(data)).toEqual({
+      width: 100,
+      height: 80,
+      type: 'png',
+      mime: 'image/png',
+      wUnits: 'px',
+      hUnits: 'px',
+      bitDepth: 8,
+      channels: 4,
+      animated: true,
+      animation: {
+        frames: 2,
+        loops: 0,
+        delays: [100, 0],
+        duration: 100,
+        includesDefaultImage: true,
+        frameDetails: [
+          {
+            x: 0,
+            y: 0,
+            width: 100,
+            height: 80,
+            duration: 100,
+            blend: 'source',
+            dispose: 'none',
+          },
+          {
+            x: 10,
+            y: 20,
+            width: 40,
+            height: 30,
+            duration: 0,
+            blend: 'over',
+            dispose: 'previous',
+          },
+        ],
+      },
+    });
+  });
+
+  it('treats a zero delay denominator as hundredths of a second', () => {
+    const data = png(acTL(1, 1), fcTL({ delay: [25, 0] }), imageData);
+    expect(parsePNG(data)?.animation?.delays).toEqual([250]);
+  });
+
+  it('flags a default image that is not part of the animation', () => {
+    const data = png(acTL(1, 2), imageData, fcTL(), frameData);
+
+    expect(parsePNG(data)?.animation).toMatchObject({
+      frames: 1,
+      loops: 2,
+      includesDefaultImage: false,
+    });
+  });
+
+  it('leaves out the duration when frame controls run past the buffer', () => {
+    const data = png(acTL(3, 0), fcTL(), imageData, fcTL(), frameData, fcTL(), frameData);
+    const result = parsePNG(data.subarray(0, data.length - 70));
+
+    expect(result?.animation).toMatchObject({ frames: 3, delays: [100, 100] });
+    expect(result?.animation).not.toHaveProperty('duration');
+  });
+
+  it('reports a PNG as static with a full scan once its image data is reached without acTL', () => {
+    expect(parsePNG(png(imageData), { fullScan: true })).toMatchObject({ animated: false });
+    expect(parsePNG(png(imageData))).not.toHaveProperty('animated');
+    expect(parsePNG(png(), { fullScan: true })).not.toHaveProperty('animated');
+  });
+
+  it('ignores an acTL chunk after the image data', () => {
+    const result = parsePNG(png(imageData, acTL(2, 0)), { fullScan: true });
+    expect(result).toMatchObject({ mime: 'image/png', animated: false });
+    expect(result).not.toHaveProperty('animation');
+  });
+
+  describe('HDR', () => {
+    it('reads cICP, mDCv and cLLi', () => {
+      // BT.2020 primaries in red, green, blue order, then the D65 white point
+      const primaries = Buffer.alloc(16);
+      [35400, 14600, 8500, 39850, 6550, 2300, 15635, 16450].forEach((value, i) =>
+        primaries.writeUInt16BE(value, i * 2)
+      );
+      const data = png(
+        cICP(9, 16, 0, 1),
+        chunk('mDCv', Buffer.concat([primaries, uint32(10000000, 50)])),
+        chunk('cLLi', uint32(10000000, 4000000)),
+        imageData
+      );
+
+      expect(parsePNG(data)).toMatchObject({
+        colorSpace: 'Rec. 2020',
+        hdr: {
+          transfer: 'PQ',
+          colorPrimaries: 9,
+          transferCharacteristics: 16,
+          matrixCoefficients: 0,
+          fullRange: true,
+          maxCLL: 1000,
+          maxFALL: 400,
+          masteringDisplay: {
+            red: { x: 0.708, y: 0.292 },
+            green: { x: 0.17, y: 0.797 },
+            blue: { x: 0.131, y: 0.046 },
+            whitePoint: { x: 0.3127, y: 0.329 },
+            maxLuminance: 1000,
+            minLuminance: 0.005,
+          },
+        },
+      });
+    });
+
+    it('prefers the cICP colour space over an sRGB chunk in either order', () => {
+      const srgb = chunk('sRGB', Buffer.from([0]));
+      expect(parsePNG(png(srgb, cICP(12, 18, 0, 1), imageData))?.colorSpace).toBe('Display P3');
+      expect(parsePNG(png(cICP(12, 18, 0, 1), srgb, imageData))?.colorSpace).toBe('Display P3');
+    });
+
+    it('leaves out hdr without HDR chunks', () => {
+      expect(parsePNG(png(imageData))).not.toHaveProperty('hdr');
+    });
+  });
+
+  it('reads the orientation from an eXIf chunk', () => {
+    expect(parsePNG(png(chunk('eXIf', orientationTiff(8)), imageData))).toMatchObject({
+      orientation: 8,
+      displayWidth: 80,
+      displayHeight: 100,
+    });
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+import { parsePSD } from '../src/parsers/psd.js';
+import { detectFormat } from '../src/utils/detector.js';
+
+interface Header {
+  version?: number;
+  channels?: number;
+  width?: number;
+  height?: number;
+  depth?: number;
+  mode?: number;
+}
+
+function header({
+  version = 1,
+  channels = 3,
+  width = 1200,
+  height = 800,
+  depth = 8,
+  mode = 3,
+}: Header = {}): Buffer {
+  const data = Buffer.alloc(26);
+  data.write('8BPS', 0, 'latin1');
+  data.writeUInt16BE(version, 4);
+  data.writeUInt16BE(channels, 12);
+  data.writeUInt32BE(height, 14);
+  data.writeUInt32BE(width, 18);
+  data.writeUInt16BE(depth, 22);
+  data.writeUInt16BE(mode, 24);
+  return data;
+}
+
+function resource(id: number, data: Buffer, name = ''): Buffer {
+  const nameField = Buffer.alloc(name.length + 1 + ((name.length + 1) % 2));
+  nameField[0] = name.length;
+  nameField.write(name, 1, 'latin1');
+  const fixed = Buffer.alloc(6);
+  fixed.writeUInt16BE(id, 4);
+  fixed.write('8BIM', 0, 'latin1');
+  const size = Buffer.alloc(4);
+  size.writeUInt32BE(data.length);
+  return Buffer.concat([fixed, nameField, size, data, Buffer.alloc(data.length % 2)]);
+}
+
+function resolutionInfo(dpi: number): Buffer {
+  const data = Buffer.alloc(16);
+  data.writeUInt32BE(dpi * 65536, 0);
+  data.writeUInt16BE(1, 4);
+  data.writeUInt16BE(1, 6);
+  data.writeUInt32BE(dpi * 65536, 8);
+  data.writeUInt16BE(1, 12);
+  data.writeUInt16BE(1, 14);
+  return data;
+}
+
+function psd(head: Buffer, ...resources: Buffer[]): Buffer {
+  const colorModeData = Buffer.alloc(4);
+  const body = Buffer.concat(resources);
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(body.length);
+  return Buffer.concat([head, colorModeData, length, body]);
+}
+
+describe('parsePSD', () => {
+  it('reads the header and the ResolutionInfo resource', () => {
+    expect(parsePSD(psd(header(), resource(0x03ed, resolutionInfo(300))))).toEqual({
+      width: 1200,
+      height: 800,
+      type: 'psd',
+      mime: 'image/vnd.adobe.photoshop',
+      wUnits: 'px',
+      hUnits: 'px',
+      wResolution: 300,
+      hResolution: 300,
+      colorSpace: 'RGB',
+      bitDepth: 8,
+      channels: 3,
+    });
+  });
+
+  it('reads PSB files and skips named and odd-sized resources', () => {
+    const profile = Buffer.concat([Buffer.alloc(64), Buffer.from('Display P3'), Buffer.alloc(1)]);
+    const result = parsePSD(
+      psd(
+        header({ version: 2, mode: 4, channels: 5, depth: 16 }),
+        resource(0x0404, Buffer.alloc(3), 'IPTC'),
+        resource(0x040f, profile),
+        resource(0x03ed, resolutionInfo(150))
+      )
+    );
+
+    expect(result).toMatchObject({
+      type: 'psb',
+      colorSpace: 'Display P3',
+      iccProfile: 'Display P3',
+      wResolution: 150,
+      hResolution: 150,
+      bitDepth: 16,
+      channels: 5,
+    });
+  });
+
+  it('maps the colour mode when there is no ICC profile', () => {
+    expect(parsePSD(psd(header({ mode: 9 })))).toMatchObject({ colorSpace: 'Lab' });
+  });
+
+  it('reports the header alone when the resources are cut off', () => {
+    const result = parsePSD(header({ mode: 1, channels: 1 }));
+
+    expect(result).toMatchObject({ width: 1200, height: 800, colorSpace: 'Grayscale' });
+    expect(result).not.toHaveProperty('wResolution');
+  });
+
+  it('rejects unknown versions', () => {
+    expect(parsePSD(psd(header({ version: 3 })))).toBeNull();
+  });
+
+  it('is detected from its signature', () => {
+    expect(detectFormat(header())).toBe(parsePSD);
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { parseRadiance } from '../src/parsers/radiance.js';
+import { detectFormat } from '../src/utils/detector.js';
+
+function hdr(resolution: string, ...variables: string[]): Buffer {
+  const header = ['#?RADIANCE', '# made by a renderer', ...variables, '', resolution, ''].join(
+    '\n'
+  );
+  return Buffer.concat([Buffer.from(header, 'latin1'), Buffer.from([2, 2, 0, 128])]);
+}
+
+describe('parseRadiance', () => {
+  it('reads the header and a standard resolution string', () => {
+    expect(parseRadiance(hdr('-Y 768 +X 1024', 'FORMAT=32-bit_rle_rgbe', 'EXPOSURE=1.0'))).toEqual({
+      width: 1024,
+      height: 768,
+      type: 'hdr',
+      mime: 'image/vnd.radiance',
+      wUnits: 'px',
+      hUnits: 'px',
+      colorSpace: 'RGB',
+      bitDepth: 32,
+      channels: 3,
+      sampleFormat: 'float',
+      origin: 'top-left',
+      channelNames: ['R', 'G', 'B'],
+    });
+  });
+
+  it('takes the width from the X axis in rotated orientations', () => {
+    expect(parseRadiance(hdr('+X 1024 -Y 768'))).toMatchObject({
+      width: 1024,
+      height: 768,
+      origin: 'top-left',
+    });
+    expect(parseRadiance(hdr('-X 1024 +Y 768'))).toMatchObject({
+      width: 1024,
+      height: 768,
+      origin: 'bottom-right',
+    });
+    expect(parseRadiance(hdr('+Y 768 -X 1024'))).toMatchObject({ origin: 'bottom-right' });
+  });
+
+  it('reads XYZE files, gamma and pixel aspect ratio', () => {
+    const result = parseRadiance(
+      hdr('-Y 100 +X 200', 'FORMAT=32-bit_rle_xyze', 'GAMMA=2.2', 'PIXASPECT=2')
+    );
+
+    expect(result).toMatchObject({
+      colorSpace: 'XYZ',
+      channelNames: ['X', 'Y', 'Z'],
+      gamma: 2.2,
+      pixelAspectRatio: 0.5,
+    });
+  });
+
+  it('accepts the RGBE program name', () => {
+    const data = Buffer.from('#?RGBE\nFORMAT=32-bit_rle_rgbe\n\n-Y 2 +X 3\n', 'latin1');
+    expect(parseRadiance(data)).toMatchObject({ width: 3, height: 2 });
+  });
+
+  it('rejects malformed resolution strings and unknown formats', () => {
+    expect(parseRadiance(hdr('-Y 2 -Y 3'))).toBeNull();
+    expect(parseRadiance(hdr('-Y 2 +X'))).toBeNull();
+    expect(parseRadiance(hdr('-Y 2 +X 3', 'FORMAT=48-bit_rle_rgb'))).toBeNull();
+  });
+
+  it('is detected from its header signature', () => {
+    expect(detectFormat(hdr('-Y 2 +X 3'))).toBe(parseRadiance);
+  });
+});
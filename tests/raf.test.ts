@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { parseRAF } from '../src/parsers/raf.js';
+import { detectFormat } from '../src/utils/detector.js';
+
+function jpeg(width: number, height: number): Buffer {
+  const sof = Buffer.from([0xff, 0xc0, 0x00, 0x11, 0x08, 0, 0, 0, 0, 0x03, ...Buffer.alloc(9)]);
+  sof.writeUInt16BE(height, 5);
+  sof.writeUInt16BE(width, 7);
+  return Buffer.concat([Buffer.from([0xff, 0xd8]), sof]);
+}
+
+function cfaHeader(...records: [tag: number, data: Buffer][]): Buffer {
+  const count = Buffer.alloc(4);
+  count.writeUInt32BE(records.length);
+  return Buffer.concat([
+    count,
+    ...records.flatMap(([tag, data]) => {
+      const header = Buffer.alloc(4);
+      header.writeUInt16BE(tag, 0);
+      header.writeUInt16BE(data.length, 2);
+      return [header, data];
+    }),
+  ]);
+}
+
+function shorts(...values: number[]): Buffer {
+  const data = Buffer.alloc(values.length * 2);
+  values.forEach((value, i) => data.writeUInt16BE(value, i * 2));
+  return data;
+}
+
+function raf(model: string, preview: Buffer, cfa: Buffer): Buffer {
+  const header = Buffer.alloc(100);
+  header.write('FUJIFILMCCD-RAW 0201FF383501', 0, 'latin1');
+  header.write(model, 28, 'latin1');
+  header.writeUInt32BE(100, 84);
+  header.writeUInt32BE(preview.length, 88);
+  header.writeUInt32BE(100 + preview.length, 92);
+  header.writeUInt32BE(cfa.length, 96);
+  return Buffer.concat([header, preview, cfa]);
+}
+
+describe('parseRAF', () => {
+  it('reads the raw size from the CFA header and sizes the preview', () => {
+    const data = raf(
+      'X-T5',
+      jpeg(7728, 5152),
+      cfaHeader([0x130, shorts(0)], [0x100, shorts(5184, 7752)])
+    );
+
+    expect(parseRAF(data)).toEqual({
+      width: 7752,
+      height: 5184,
+      type: 'raf',
+      mime: 'image/x-fuji-raf',
+      wUnits: 'px',
+      hUnits: 'px',
+      raw: {
+        make: 'FUJIFILM',
+        model: 'X-T5',
+        rawWidth: 7752,
+        rawHeight: 5184,
+        previewWidth: 7728,
+        previewHeight: 5152,
+      },
+    });
+  });
+
+  it('falls back to the preview size when the CFA header is past the buffer', () => {
+    const preview = jpeg(6000, 4000);
+    const data = raf('X100V', preview, cfaHeader([0x100, shorts(4018, 6160)]));
+
+    const result = parseRAF(data.subarray(0, 100 + preview.length));
+    expect(result).toMatchObject({ width: 6000, height: 4000 });
+    expect(result?.raw?.rawWidth).toBeUndefined();
+  });
+
+  it('returns null for other files', () => {
+    expect(parseRAF(Buffer.alloc(200))).toBeNull();
+  });
+
+  it('is detected from its magic', () => {
+    expect(detectFormat(raf('X-T5', jpeg(10, 10), cfaHeader()))).toBe(parseRAF);
+  });
+});
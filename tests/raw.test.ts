@@ -0,0 +1,343 @@
+import { describe, it, expect } from 'vitest';
+import { parseRAW } from '../src/parsers/raw.js';
+import { parseTIFF } from '../src/parsers/tiff.js';
+import { detectFormat, getImageType } from '../src/utils/detector.js';
+
+const BYTE = 1;
+const ASCII = 2;
+const SHORT = 3;
+const LONG = 4;
+const UNDEFINED = 7;
+
+/**
+ * Field values: numbers of the field type, text, raw bytes, the offsets of
+ * other directories or appended blobs, or a directory the value itself is
+ * (as a maker note is)
+ */
+type Values =
+  | readonly number[]
+  | string
+  | Buffer
+  | { ifds: readonly number[] }
+  | { blob: number }
+  | { directory: number };
+
+interface Field {
+  tag: number;
+  type: number;
+  values: Values;
+}
+
+interface Directory {
+  fields: readonly Field[];
+  /** Index of the directory chained after this one */
+  next?: number;
+}
+
+function sizeOf({ type, values }: Field): number {
+  if (typeof values === 'string') return values.length + 1;
+  if (Buffer.isBuffer(values)) return values.length;
+  if ('directory' in values) return 0;
+  if ('blob' in values) return 4;
+  if ('ifds' in values) return values.ifds.length * 4;
+  return values.length * (type === SHORT ? 2 : type === LONG ? 4 : 1);
+}
+
+/**
+ * Build a TIFF-structured file: the header, each directory followed by its
+ * out-of-line values, then the blobs
+ */
+function tiffRaw({
+  version = 42,
+  extraHeader = Buffer.alloc(0),
+  directories,
+  blobs = [],
+}: {
+  version?: number;
+  extraHeader?: Buffer;
+  directories: readonly Directory[];
+  blobs?: readonly Buffer[];
+}): Buffer {
+  const offsets: number[] = [];
+  let length = 8 + extraHeader.length;
+  for (const { fields } of directories) {
+    offsets.push(length);
+    length += 6 + fields.length * 12;
+    for (const field of fields) {
+      const size = sizeOf(field);
+      if (size > 4) length += size + (size % 2);
+    }
+  }
+
+  const blobOffsets: number[] = [];
+  for (const blob of blobs) {
+    blobOffsets.push(length);
+    length += blob.length;
+  }
+
+  const buffer = Buffer.alloc(length);
+  buffer.write('II', 0, 'latin1');
+  buffer.writeUInt16LE(version, 2);
+  buffer.writeUInt32LE(8 + extraHeader.length, 4);
+  extraHeader.copy(buffer, 8);
+  blobs.forEach((blob, index) => blob.copy(buffer, blobOffsets[index] ?? 0));
+
+  directories.forEach(({ fields, next }, index) => {
+    const start = offsets[index] ?? 0;
+    let dataOffset = start + 6 + fields.length * 12;
+    buffer.writeUInt16LE(fields.length, start);
+
+    fields.forEach((field, i) => {
+      const entry = start + 2 + i * 12;
+      const { type, values } = field;
+      const size = sizeOf(field);
+      buffer.writeUInt16LE(field.tag, entry);
+      buffer.writeUInt16LE(type, entry + 2);
+
+      if (typeof values === 'object' && 'directory' in values) {
+        const target = directories[values.directory];
+        buffer.writeUInt32LE(6 + (target?.fields.length ?? 0) * 12, entry + 4);
+        buffer.writeUInt32LE(offsets[values.directory] ?? 0, entry + 8);
+        return;
+      }
+
+      let target = entry + 8;
+      if (size > 4) {
+        buffer.writeUInt32LE(dataOffset, entry + 8);
+        target = dataOffset;
+        dataOffset += size + (size % 2);
+      }
+
+      if (typeof values === 'string' || Buffer.isBuffer(values)) {
+        buffer.writeUInt32LE(size, entry + 4);
+        if (typeof values === 'string') buffer.write(values, target, 'latin1');
+        else values.copy(buffer, target);
+        return;
+      }
+
+      const numbers =
+        'ifds' in values
+          ? values.ifds.map((ifd) => offsets[ifd] ?? 0)
+          : 'blob' in values
+            ? [blobOffsets[values.blob] ?? 0]
+            : values;
+      buffer.writeUInt32LE(numbers.length, entry + 4);
+      numbers.forEach((value, n) => {
+        if (type === SHORT) buffer.writeUInt16LE(value, target + n * 2);
+        else if (type === LONG) buffer.writeUInt32LE(value, target + n * 4);
+        else buffer[target + n] = value;
+      });
+    });
+
+    const nextOffset = next !== undefined ? (offsets[next] ?? 0) : 0;
+    buffer.writeUInt32LE(nextOffset, start + 2 + fields.length * 12);
+  });
+
+  return buffer;
+}
+
+function jpeg(width: number, height: number): Buffer {
+  const sof = Buffer.from([0xff, 0xc0, 0x00, 0x11, 0x08, 0, 0, 0, 0, 0x03, ...Buffer.alloc(9)]);
+  sof.writeUInt16BE(height, 5);
+  sof.writeUInt16BE(width, 7);
+  return Buffer.concat([Buffer.from([0xff, 0xd8]), sof]);
+}
+
+const size = (width: number, height: number): Field[] => [
+  { tag: 0x0100, type: LONG, values: [width] },
+  { tag: 0x0101, type: LONG, values: [height] },
+];
+const subfileType = (value: number): Field => ({ tag: 0x00fe, type: LONG, values: [value] });
+const photometric = (value: number): Field => ({ tag: 0x0106, type: SHORT, values: [value] });
+const make = (value: string): Field => ({ tag: 0x010f, type: ASCII, values: value });
+const model = (value: string): Field => ({ tag: 0x0110, type: ASCII, values: value });
+const subIfds = (...ifds: number[]): Field => ({ tag: 0x014a, type: LONG, values: { ifds } });
+const jpegStream = (blob: number, length: number): Field[] => [
+  { tag: 0x0201, type: LONG, values: { blob } },
+  { tag: 0x0202, type: LONG, values: [length] },
+];
+
+/** A NEF: thumbnail in IFD0, a JPEG preview and the CFA data in SubIFDs */
+function nef(): Buffer {
+  const preview = jpeg(1620, 1080);
+  return tiffRaw({
+    directories: [
+      { fields: [...size(160, 120), photometric(2), make('NIKON CORPORATION'), subIfds(1, 2)] },
+      { fields: [subfileType(1), ...jpegStream(0, preview.length)] },
+      { fields: [subfileType(0), ...size(6048, 4032), photometric(32803)] },
+    ],
+    blobs: [preview],
+  });
+}
+
+describe('parseRAW', () => {
+  it('reads DNG sensor data and previews from SubIFDs', () => {
+    const data = tiffRaw({
+      directories: [
+        {
+          fields: [
+            subfileType(1),
+            ...size(256, 171),
+            photometric(2),
+            make('Canon'),
+            model('Canon EOS R5'),
+            subIfds(1, 2),
+            { tag: 0xc612, type: BYTE, values: [1, 4, 0, 0] },
+          ],
+        },
+        { fields: [subfileType(0), ...size(8192, 5464), photometric(32803)] },
+        { fields: [subfileType(1), ...size(1024, 683), photometric(6)] },
+      ],
+    });
+
+    expect(parseRAW(data)).toEqual({
+      width: 8192,
+      height: 5464,
+      type: 'dng',
+      mime: 'image/x-adobe-dng',
+      wUnits: 'px',
+      hUnits: 'px',
+      raw: {
+        make: 'Canon',
+        model: 'Canon EOS R5',
+        rawWidth: 8192,
+        rawHeight: 5464,
+        previewWidth: 1024,
+        previewHeight: 683,
+        dngVersion: '1.4.0.0',
+      },
+    });
+  });
+
+  it('sizes NEF previews stored as JPEG streams', () => {
+    expect(parseRAW(nef())).toEqual({
+      width: 6048,
+      height: 4032,
+      type: 'nef',
+      mime: 'image/x-nikon-nef',
+      wUnits: 'px',
+      hUnits: 'px',
+      raw: {
+        make: 'NIKON CORPORATION',
+        rawWidth: 6048,
+        rawHeight: 4032,
+        previewWidth: 1620,
+        previewHeight: 1080,
+      },
+    });
+  });
+
+  it('identifies ARW by its maker', () => {
+    const data = tiffRaw({
+      directories: [
+        { fields: [...size(1616, 1080), photometric(6), make('SONY'), subIfds(1)] },
+        { fields: [...size(7008, 4672), photometric(32803)] },
+      ],
+    });
+
+    expect(parseRAW(data)).toMatchObject({
+      width: 7008,
+      height: 4672,
+      type: 'arw',
+      mime: 'image/x-sony-arw',
+      raw: { previewWidth: 1616, previewHeight: 1080 },
+    });
+  });
+
+  it('reads the CR2 sensor size from the Canon maker note', () => {
+    const data = tiffRaw({
+      extraHeader: Buffer.from([0x43, 0x52, 0x02, 0x00, 0, 0, 0, 0]),
+      directories: [
+        {
+          fields: [
+            ...size(5472, 3648),
+            photometric(6),
+            make('Canon'),
+            { tag: 0x8769, type: LONG, values: { ifds: [2] } },
+          ],
+          next: 1,
+        },
+        { fields: [{ tag: 0x0103, type: SHORT, values: [6] }] },
+        { fields: [{ tag: 0x927c, type: UNDEFINED, values: { directory: 3 } }] },
+        {
+          fields: [
+            { tag: 0x00e0, type: SHORT, values: [34, 5568, 3708, 1, 1, 84, 50, 5555, 3697] },
+          ],
+        },
+      ],
+    });
+
+    expect(parseRAW(data)).toMatchObject({
+      width: 5568,
+      height: 3708,
+      type: 'cr2',
+      mime: 'image/x-canon-cr2',
+      raw: { rawWidth: 5568, rawHeight: 3708, previewWidth: 5472, previewHeight: 3648 },
+    });
+  });
+
+  it('treats IFD0 as the sensor data in ORF', () => {
+    const data = tiffRaw({
+      version: 0x4f52,
+      directories: [{ fields: [...size(4640, 3472), make('OLYMPUS IMAGING CORP.')] }],
+    });
+
+    expect(parseRAW(data)).toMatchObject({
+      width: 4640,
+      height: 3472,
+      type: 'orf',
+      mime: 'image/x-olympus-orf',
+      raw: { rawWidth: 4640, rawHeight: 3472 },
+    });
+  });
+
+  it('reads RW2 sensor tags and the embedded JPEG', () => {
+    const data = tiffRaw({
+      version: 0x55,
+      directories: [
+        {
+          fields: [
+            { tag: 0x0002, type: SHORT, values: [5200] },
+            { tag: 0x0003, type: SHORT, values: [3904] },
+            make('Panasonic'),
+            { tag: 0x002e, type: UNDEFINED, values: jpeg(1920, 1440) },
+          ],
+        },
+      ],
+    });
+
+    expect(parseRAW(data)).toMatchObject({
+      width: 5200,
+      height: 3904,
+      type: 'rw2',
+      mime: 'image/x-panasonic-rw2',
+      raw: { make: 'Panasonic', previewWidth: 1920, previewHeight: 1440 },
+    });
+  });
+
+  it('falls back to the preview size when no sensor data is described', () => {
+    const data = tiffRaw({
+      directories: [
+        { fields: [...size(160, 120), photometric(2), make('NIKON CORPORATION'), subIfds(1)] },
+        { fields: [subfileType(1), ...size(1620, 1080), photometric(6)] },
+      ],
+    });
+
+    const result = parseRAW(data);
+    expect(result).toMatchObject({
+      width: 1620,
+      height: 1080,
+      raw: { previewWidth: 1620, previewHeight: 1080 },
+    });
+    expect(result?.raw?.rawWidth).toBeUndefined();
+  });
+
+  it('is detected ahead of TIFF, which keeps plain files', () => {
+    expect(detectFormat(nef())).toBe(parseRAW);
+    expect(getImageType(nef())).toBe('nef');
+
+    const plain = tiffRaw({ directories: [{ fields: [...size(640, 480), make('Canon')] }] });
+    expect(parseRAW(plain)).toBeNull();
+    expect(detectFormat(plain)).toBe(parseTIFF);
+  });
+});
@@ -0,0 +1,152 @@
+import { describe, it, expect } from 'vitest';
+import { parseTGA } from '../src/parsers/tga.js';
+import { detectFormat } from '../src/utils/detector.js';
+
+interface Header {
+  colorMapType?: number;
+  imageType?: number;
+  colorMapEntrySize?: number;
+  width?: number;
+  height?: number;
+  pixelDepth?: number;
+  descriptor?: number;
+}
+
+function header({
+  colorMapType = 0,
+  imageType = 2,
+  colorMapEntrySize = 0,
+  width = 256,
+  height = 128,
+  pixelDepth = 24,
+  descriptor = 0,
+}: Header = {}): Buffer {
+  const data = Buffer.alloc(18);
+  data[1] = colorMapType;
+  data[2] = imageType;
+  data.writeUInt16LE(colorMapType ? 256 : 0, 5);
+  data[7] = colorMapEntrySize;
+  data.writeUInt16LE(width, 12);
+  data.writeUInt16LE(height, 14);
+  data[16] = pixelDepth;
+  data[17] = descriptor;
+  return data;
+}
+
+interface Extension {
+  aspectRatio?: [number, number];
+  gamma?: [number, number];
+  attributesType?: number;
+}
+
+/**
+ * Append pixel data, a TGA 2.0 extension area and the footer pointing at it
+ */
+function tga2(
+  head: Buffer,
+  { aspectRatio = [0, 0], gamma = [0, 0], attributesType = 0 }: Extension
+) {
+  const pixels = Buffer.alloc(64);
+  const extension = Buffer.alloc(495);
+  extension.writeUInt16LE(495, 0);
+  extension.writeUInt16LE(aspectRatio[0], 474);
+  extension.writeUInt16LE(aspectRatio[1], 476);
+  extension.writeUInt16LE(gamma[0], 478);
+  extension.writeUInt16LE(gamma[1], 480);
+  extension[494] = attributesType;
+
+  const footer = Buffer.alloc(26);
+  footer.writeUInt32LE(head.length + pixels.length, 0);
+  footer.write('TRUEVISION-XFILE.\0', 8, 'latin1');
+
+  return Buffer.concat([head, pixels, extension, footer]);
+}
+
+describe('parseTGA', () => {
+  it('reads a true-colour header', () => {
+    expect(parseTGA(header())).toEqual({
+      width: 256,
+      height: 128,
+      type: 'tga',
+      mime: 'image/x-tga',
+      wUnits: 'px',
+      hUnits: 'px',
+      colorSpace: 'RGB',
+      bitDepth: 8,
+      channels: 3,
+      hasAlpha: false,
+      alphaBits: 0,
+      origin: 'bottom-left',
+    });
+  });
+
+  it('reads alpha bits and a top-left origin', () => {
+    expect(parseTGA(header({ imageType: 10, pixelDepth: 32, descriptor: 0x28 }))).toMatchObject({
+      channels: 4,
+      hasAlpha: true,
+      alphaBits: 8,
+      origin: 'top-left',
+    });
+  });
+
+  it('reads colour-mapped and grayscale images', () => {
+    expect(
+      parseTGA(header({ colorMapType: 1, imageType: 1, colorMapEntrySize: 24, pixelDepth: 8 }))
+    ).toMatchObject({ colorSpace: 'Indexed', bitDepth: 8, channels: 1 });
+    expect(parseTGA(header({ imageType: 11, pixelDepth: 8 }))).toMatchObject({
+      colorSpace: 'Grayscale',
+      channels: 1,
+    });
+  });
+
+  it('reads pixel aspect ratio and gamma from the extension area', () => {
+    const result = parseTGA(
+      tga2(header({ pixelDepth: 32, descriptor: 0x08 }), {
+        aspectRatio: [10, 11],
+        gamma: [22, 10],
+        attributesType: 3,
+      })
+    );
+
+    expect(result).toMatchObject({ pixelAspectRatio: 10 / 11, gamma: 2.2, hasAlpha: true });
+  });
+
+  it('trusts the extension area when it says the alpha bits are unused', () => {
+    const result = parseTGA(tga2(header({ pixelDepth: 32, descriptor: 0x08 }), {}));
+
+    expect(result).toMatchObject({ alphaBits: 8, hasAlpha: false, channels: 3 });
+    expect(result).not.toHaveProperty('pixelAspectRatio');
+    expect(result).not.toHaveProperty('gamma');
+  });
+
+  it('counts alpha as a channel only when the extension area says it is used', () => {
+    for (const attributesType of [1, 2]) {
+      expect(
+        parseTGA(tga2(header({ pixelDepth: 32, descriptor: 0x08 }), { attributesType }))
+      ).toMatchObject({ channels: 3, hasAlpha: false });
+      expect(
+        parseTGA(
+          tga2(header({ imageType: 3, pixelDepth: 16, descriptor: 0x08 }), { attributesType })
+        )
+      ).toMatchObject({ channels: 1, hasAlpha: false });
+    }
+    expect(
+      parseTGA(
+        tga2(header({ imageType: 3, pixelDepth: 16, descriptor: 0x08 }), { attributesType: 3 })
+      )
+    ).toMatchObject({ channels: 2, hasAlpha: true });
+  });
+
+  it('rejects implausible headers', () => {
+    expect(parseTGA(header({ imageType: 0 }))).toBeNull();
+    expect(parseTGA(header({ imageType: 2, pixelDepth: 12 }))).toBeNull();
+    expect(parseTGA(header({ imageType: 1, pixelDepth: 8 }))).toBeNull();
+    expect(parseTGA(header({ descriptor: 0x40 }))).toBeNull();
+    expect(parseTGA(header({ width: 0 }))).toBeNull();
+  });
+
+  it('is detected only after every signature has been ruled out', () => {
+    expect(detectFormat(header())).toBe(parseTGA);
+    expect(detectFormat(Buffer.from('plain text that is not an image'))).toBeNull();
+  });
+});
@@ -0,0 +1,179 @@
+import { describe, it, expect } from 'vitest';
+import { parseTIFF } from '../src/parsers/tiff.js';
+import { detectFormat, getImageType } from '../src/utils/detector.js';
+
+interface Field {
+  tag: number;
+  type: number;
+  values: readonly number[] | Buffer;
+}
+
+const SHORT = 3;
+const LONG = 4;
+const RATIONAL = 5;
+const UNDEFINED = 7;
+
+const TYPE_SIZES: Record<number, number> = { [SHORT]: 2, [LONG]: 4, [RATIONAL]: 8, [UNDEFINED]: 1 };
+
+/**
+ * Build a single-IFD TIFF, storing values that do not fit in an entry after
+ * the directory
+ */
+function tiff(fields: readonly Field[], { littleEndian = true, bigTiff = false } = {}): Buffer {
+  const headerSize = bigTiff ? 16 : 8;
+  const entrySize = bigTiff ? 20 : 12;
+  const inlineSize = bigTiff ? 8 : 4;
+  const countSize = bigTiff ? 8 : 2;
+  const ifdSize = countSize + fields.length * entrySize + inlineSize;
+
+  const sizes = fields.map((field) =>
+    Buffer.isBuffer(field.values)
+      ? field.values.length
+      : (TYPE_SIZES[field.type] ?? 1) * field.values.length
+  );
+  const external = sizes.reduce((total, size) => total + (size > inlineSize ? size : 0), 0);
+  const buffer = Buffer.alloc(headerSize + ifdSize + external);
+
+  const u16 = (value: number, offset: number) =>
+    littleEndian ? buffer.writeUInt16LE(value, offset) : buffer.writeUInt16BE(value, offset);
+  const u32 = (value: number, offset: number) =>
+    littleEndian ? buffer.writeUInt32LE(value, offset) : buffer.writeUInt32BE(value, offset);
+  const u64 = (value: number, offset: number) =>
+    littleEndian
+      ? buffer.writeBigUInt64LE(BigInt(value), offset)
+      : buffer.writeBigUInt64BE(BigInt(value), offset);
+  const offsetField = bigTiff ? u64 : u32;
+
+  buffer.write(littleEndian ? 'II' : 'MM', 0, 'latin1');
+  if (bigTiff) {
+    u16(43, 2);
+    u16(8, 4);
+    u64(headerSize, 8);
+  } else {
+    u16(42, 2);
+    u32(headerSize, 4);
+  }
+
+  if (bigTiff) u64(fields.length, headerSize);
+  else u16(fields.length, headerSize);
+
+  let dataOffset = headerSize + ifdSize;
+
+  fields.forEach((field, index) => {
+    const entry = headerSize + countSize + index * entrySize;
+    const size = sizes[index] ?? 0;
+    u16(field.tag, entry);
+    u16(field.type, entry + 2);
+    const count = field.type === RATIONAL ? size / 8 : size / (TYPE_SIZES[field.type] ?? 1);
+    if (bigTiff) u64(count, entry + 4);
+    else u32(count, entry + 4);
+
+    const fieldOffset = entry + (bigTiff ? 12 : 8);
+    let target = fieldOffset;
+    if (size > inlineSize) {
+      offsetField(dataOffset, fieldOffset);
+      target = dataOffset;
+      dataOffset += size;
+    }
+
+    if (Buffer.isBuffer(field.values)) {
+      field.values.copy(buffer, target);
+      return;
+    }
+
+    field.values.forEach((value, i) => {
+      if (field.type === SHORT) u16(value, target + i * 2);
+      else if (field.type === LONG) u32(value, target + i * 4);
+      else if (field.type === RATIONAL) {
+        u32(value, target + i * 8);
+        u32(1, target + i * 8 + 4);
+      }
+    });
+  });
+
+  return buffer;
+}
+
+const rgbFields: readonly Field[] = [
+  { tag: 0x0100, type: LONG, values: [4000] },
+  { tag: 0x0101, type: SHORT, values: [3000] },
+  { tag: 0x0102, type: SHORT, values: [16, 16, 16] },
+  { tag: 0x0106, type: SHORT, values: [2] },
+  { tag: 0x0115, type: SHORT, values: [3] },
+  { tag: 0x011a, type: RATIONAL, values: [300] },
+  { tag: 0x011b, type: RATIONAL, values: [300] },
+  { tag: 0x0128, type: SHORT, values: [2] },
+];
+
+describe('parseTIFF', () => {
+  it.each([
+    { littleEndian: true, bigTiff: false },
+    { littleEndian: false, bigTiff: false },
+    { littleEndian: true, bigTiff: true },
+    { littleEndian: false, bigTiff: true },
+  ])('reads IFD0 (littleEndian: $littleEndian, bigTiff: $bigTiff)', (layout) => {
+    expect(parseTIFF(tiff(rgbFields, layout))).toEqual({
+      width: 4000,
+      height: 3000,
+      type: 'tiff',
+      mime: 'image/tiff',
+      wUnits: 'px',
+      hUnits: 'px',
+      wResolution: 300,
+      hResolution: 300,
+      bitDepth: 16,
+      channels: 3,
+      colorSpace: 'RGB',
+    });
+  });
+
+  it('converts centimetre resolution to DPI', () => {
+    const fields = rgbFields.map((field) =>
+      field.tag === 0x0128 ? { ...field, values: [3] } : field
+    );
+
+    expect(parseTIFF(tiff(fields))).toMatchObject({ wResolution: 762, hResolution: 762 });
+  });
+
+  it('maps photometric interpretation to a colour space', () => {
+    const result = parseTIFF(
+      tiff([
+        { tag: 0x0100, type: SHORT, values: [10] },
+        { tag: 0x0101, type: SHORT, values: [10] },
+        { tag: 0x0106, type: SHORT, values: [5] },
+        { tag: 0x0115, type: SHORT, values: [4] },
+      ])
+    );
+
+    expect(result).toMatchObject({ colorSpace: 'CMYK', channels: 4 });
+  });
+
+  it('identifies an embedded ICC profile', () => {
+    const profile = Buffer.concat([Buffer.alloc(64), Buffer.from('Adobe RGB (1998)')]);
+    const result = parseTIFF(
+      tiff([...rgbFields, { tag: 0x8773, type: UNDEFINED, values: profile }], {
+        littleEndian: false,
+      })
+    );
+
+    expect(result).toMatchObject({ colorSpace: 'Adobe RGB', iccProfile: 'Adobe RGB (1998)' });
+  });
+
+  it('returns null without image dimensions', () => {
+    expect(parseTIFF(tiff([{ tag: 0x0106, type: SHORT, values: [2] }]))).toBeNull();
+  });
+
+  it('returns null when IFD0 lies beyond the buffer', () => {
+    const truncated = tiff(rgbFields).subarray(0, 8);
+
+    expect(parseTIFF(truncated)).toBeNull();
+  });
+
+  it('is detected from either byte order and BigTIFF signatures', () => {
+    for (const layout of [{}, { littleEndian: false }, { bigTiff: true }]) {
+      const buffer = tiff(rgbFields, layout);
+      expect(detectFormat(buffer)).toBe(parseTIFF);
+      expect(getImageType(buffer)).toBe('tiff');
+    }
+  });
+});
@@ -0,0 +1,190 @@
+import { describe, it, expect } from 'vitest';
+import { parseWebP } from '../src/parsers/webp.js';
+
+function chunk(type: string, data: Buffer): Buffer {
+  const size = Buffer.alloc(4);
+  size.writeUInt32LE(data.length);
+  return Buffer.concat([Buffer.from(type), size, data, Buffer.alloc(data.length % 2)]);
+}
+
+function webP(...chunks: Buffer[]): Buffer {
+  const contents = Buffer.concat([Buffer.from('WEBP'), ...chunks]);
+  const size = Buffer.alloc(4);
+  size.writeUInt32LE(contents.length);
+  return Buffer.concat([Buffer.from('RIFF'), size, contents]);
+}
+
+function vp8x(width: number, height: number, flags: number): Buffer {
+  const data = Buffer.alloc(10);
+  data[0] = flags;
+  data.writeUIntLE(width - 1, 4, 3);
+  data.writeUIntLE(height - 1, 7, 3);
+  return data;
+}
+
+/** ANIM chunk data: the background colour in BGRA order, then the loop count */
+function anim(bgra: number[], loops: number): Buffer {
+  const data = Buffer.from([...bgra, 0, 0]);
+  data.writeUInt16LE(loops, 4);
+  return data;
+}
+
+interface Frame {
+  x?: number;
+  y?: number;
+  width: number;
+  height: number;
+  duration: number;
+  flags?: number;
+  /** Bytes of image data following the frame header */
+  dataLength?: number;
+}
+
+function anmf({ x = 0, y = 0, width, height, duration, flags = 0, dataLength = 8 }: Frame): Buffer {
+  const data = Buffer.alloc(16 + dataLength);
+  data.writeUIntLE(x / 2, 0, 3);
+  data.writeUIntLE(y / 2, 3, 3);
+  data.writeUIntLE(width - 1, 6, 3);
+  data.writeUIntLE(height - 1, 9, 3);
+  data.writeUIntLE(duration, 12, 3);
+  data[15] = flags;
+  return data;
+}
+
+/** TIFF data whose IFD0 holds only an Orientation tag */
+function orientationTiff(orientation: number, littleEndian = false): Buffer {
+  const tiff = Buffer.alloc(26);
+  const writeUInt16 = (value: number, offset: number): number =>
+    littleEndian ? tiff.writeUInt16LE(value, offset) : tiff.writeUInt16BE(value, offset);
+  const writeUInt32 = (value: number, offset: number): number =>
+    littleEndian ? tiff.writeUInt32LE(value, offset) : tiff.writeUInt32BE(value, offset);
+
+  tiff.write(littleEndian ? 'II' : 'MM', 0, 'ascii');
+  writeUInt16(42, 2);
+  writeUInt32(8, 4);
+  writeUInt16(1, 8);
+  writeUInt16(0x0112, 10);
+  writeUInt16(3, 12); // SHORT
+  writeUInt32(1, 14);
+  writeUInt16(orientation, 18);
+  return tiff;
+}
+
+const ANIMATED = 0x12; // Alpha and animation flags
+
+describe('parseWebP', () => {
+  it('reads animation timing, background and frame placement', () => {
+    const data = webP(
+      chunk('VP8X', vp8x(400, 300, ANIMATED)),
+      chunk('ANIM', anim([0x30, 0x20, 0x10, 0xff], 0)),
+      chunk('ANMF', anmf({ width: 400, height: 300, duration: 100 })),
+      chunk('ANMF', anmf({ x: 20, y: 10, width: 50, height: 40, duration: 80, flags: 0x03 }))
+    );
+
+    expect(parseWebP(data)).toEqual({
+      width: 400,
+      height: 300,
+      type: 'webp',
+      mime: 'image/webp',
+      wUnits: 'px',
+      hUnits: 'px',
+      channels: 4,
+      animated: true,
+      animation: {
+        frames: 2,
+        loops: 0,
+        delays: [100, 80],
+        duration: 180,
+        backgroundColor: '#102030ff',
+        frameDetails: [
+          {
+            x: 0,
+            y: 0,
+            width: 400,
+            height: 300,
+            duration: 100,
+            blend: 'over',
+            dispose: 'none',
+          },
+          {
+            x: 20,
+            y: 10,
+            width: 50,
+            height: 40,
+            duration: 80,
+            blend: 'source',
+            dispose: 'background',
+          },
+        ],
+      },
+    });
+  });
+
+  it('reports the loop count as the number of plays', () => {
+    const data = webP(
+      chunk('VP8X', vp8x(16, 16, ANIMATED)),
+      chunk('ANIM', anim([0, 0, 0, 0], 3)),
+      chunk('ANMF', anmf({ width: 16, height: 16, duration: 50 }))
+    );
+
+    expect(parseWebP(data)?.animation?.loops).toBe(3);
+  });
+
+  it('reads frame headers whose image data runs past the buffer', () => {
+    const data = webP(
+      chunk('VP8X', vp8x(64, 64, ANIMATED)),
+      chunk('ANIM', anim([0, 0, 0, 0], 0)),
+      chunk('ANMF', anmf({ width: 64, height: 64, duration: 40 })),
+      chunk('ANMF', anmf({ width: 64, height: 64, duration: 60, dataLength: 1000 }))
+    );
+
+    const result = parseWebP(data.subarray(0, data.length - 900));
+    expect(result?.animation).toMatchObject({ frames: 2, delays: [40, 60] });
+  });
+
+  it('stops at a frame whose size runs past the buffer, however large', () => {
+    const frame = chunk('ANMF', anmf({ width: 64, height: 64, duration: 40 }));
+    frame.writeUInt32LE(0x80000001, 4);
+    const data = webP(
+      chunk('VP8X', vp8x(64, 64, ANIMATED)),
+      chunk('ANIM', anim([0, 0, 0, 0], 0)),
+      frame
+    );
+
+    expect(parseWebP(data)?.animation).toMatchObject({ frames: 1, delays: [40] });
+  });
+
+  it('leaves out the duration when the file is cut off', () => {
+    const data = webP(
+      chunk('VP8X', vp8x(64, 64, ANIMATED)),
+      chunk('ANIM', anim([0, 0, 0, 0], 0)),
+      chunk('ANMF', anmf({ width: 64, height: 64, duration: 100, dataLength: 100 })),
+      chunk('ANMF', anmf({ width: 64, height: 64, duration: 100, dataLength: 100 })),
+      chunk('ANMF', anmf({ width: 64, height: 64, duration: 100, dataLength: 100 }))
+    );
+
+    // Cut within the second frame's image data
+    const result = parseWebP(data.subarray(0, 200));
+    expect(result?.animation).toMatchObject({ frames: 2, delays: [100, 100] });
+    expect(result?.animation).not.toHaveProperty('duration');
+    expect(parseWebP(data)?.animation).toMatchObject({ frames: 3, duration: 300 });
+  });
+
+  it('reports still images as not animated', () => {
+    const result = parseWebP(webP(chunk('VP8X', vp8x(64, 64, 0x10))));
+
+    expect(result).toMatchObject({ animated: false });
+    expect(result).not.toHaveProperty('animation');
+  });
+
+  it('reads the orientation from an EXIF chunk, with or without the Exif identifier', () => {
+    const exif = (data: Buffer): Buffer =>
+      webP(chunk('VP8X', vp8x(400, 300, 0x08)), chunk('EXIF', data));
+
+    const expected = { orientation: 6, displayWidth: 300, displayHeight: 400 };
+    expect(parseWebP(exif(orientationTiff(6, true)))).toMatchObject(expected);
+    expect(
+      parseWebP(exif(Buffer.concat([Buffer.from('Exif\0\0'), orientationTiff(6)])))
+    ).toMatchObject(expected);
+  });
+});